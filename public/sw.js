@@ -4,14 +4,14 @@
 const CACHE_NAME = 'hr-toolkit-cache-v2'; // Increment version to force refresh
 const STATIC_CACHE = 'hr-toolkit-static-v2';
 const DYNAMIC_CACHE = 'hr-toolkit-dynamic-v2';
-const PDF_LIB_CACHE = 'hr-toolkit-pdf-lib-v2';
+const PDF_LIB_CACHE = 'hr-toolkit-pdf-lib-v3';
 
 // Resources to cache on install
 const STATIC_ASSETS = ['/', '/index.html', '/manifest.json', '/favicon.ico', '/pwa-192x192.png', '/pwa-512x512.png', '/apple-touch-icon.png',];
 
 // PDF library resources to cache separately
-const PDF_LIB_ASSETS = [// PDF.js files
-    'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.min.mjs', 'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs',];
+const PDF_LIB_ASSETS = [// PDF.js worker, served from the app's own build output
+    '/pdfjs/build/pdf.worker.min.mjs',];
 
 // Worker files to cache
 const WORKER_ASSETS = [// PDF Worker files
@@ -85,7 +85,8 @@ const isStaticAsset = (url) => {
 
 // Helper function to determine if a request is for a PDF library asset
 const isPdfLibAsset = (url) => {
-    return PDF_LIB_ASSETS.some(asset => url.includes(asset));
+    // Also matches the font data PDF.js loads on demand
+    return new URL(url).pathname.startsWith('/pdfjs/') || PDF_LIB_ASSETS.some(asset => url.includes(asset));
 };
 
 // PDF-specific functions have been moved to dedicated workers in src/workers/ file
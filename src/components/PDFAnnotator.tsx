@@ -3,10 +3,11 @@ import {AnnotationDto, TsPdfViewer, TsPdfViewerOptions} from 'ts-pdf';
 import Card from './common/Card';
 import {useFile} from '../context/FileContext';
 import useToast from '../hooks/useToast';
+import {PDFJS_WORKER_SRC} from '../services/PDFJSAssetService';
 
 // Set the PDF.js worker source path globally only once
 if (typeof window !== 'undefined' && !window.pdfjsWorkerSrc) {
-    window.pdfjsWorkerSrc = 'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs';
+    window.pdfjsWorkerSrc = PDFJS_WORKER_SRC;
     console.log('PDF.js worker source path set:', window.pdfjsWorkerSrc);
 }
 
@@ -1,14 +1,120 @@
 /**
  * Service for analyzing text and data
  */
+import { detectDemographicProxies } from './DemographicProxyService';
+import { DEFAULT_IDENTIFIER_LOCALES, detectLocaleIdentifiers, IdentifierLocale } from './LocaleIdentifierService';
+import { recognizeNames } from './NameRecognitionService';
+import { detectOrganizations, OrganizationMapping } from './OrganizationMappingService';
+import { segmentResume } from './ResumeParserService';
+import type { ResumeSectionKind } from './ResumeParserService';
+
+export interface PersonalIdentifier {
+    type: string;
+    value: string;
+    index: number;
+    // Set by detectors that are not certain, e.g. name recognition (0-1)
+    confidence?: number;
+    // Placeholder chosen by the detector, e.g. a generalized descriptor for an employer
+    replacement?: string;
+    // Groups different forms of the same value, e.g. "J. Smith" and "John Smith"
+    canonical?: string;
+}
+
+// Per-resume corrections made by the user in the preview
+export interface RedactionOverrides {
+    // Text the detectors missed; every occurrence is redacted
+    manualRedactions: string[];
+    // Detected values the user wants kept as they are
+    restoredValues: string[];
+    // IDs of leaks found by the verifier that the user has accepted
+    waivedLeaks: string[];
+}
+
+export const EMPTY_REDACTION_OVERRIDES: RedactionOverrides = {manualRedactions: [], restoredValues: [], waivedLeaks: []};
+
+export type SectionRuleAction = 'remove' | 'keep' | 'mask';
+
+// How one resume section is anonymized, overriding the global settings inside that section
+export interface SectionRule {
+    id: string;
+    section: ResumeSectionKind;
+    // 'remove' drops the whole section, 'keep' leaves the listed identifier types as they are
+    // and 'mask' always replaces them
+    action: SectionRuleAction;
+    types: string[];
+}
 
 /**
- * Analyze personal identifiers in text
+ * Create a new section rule with a unique ID
  */
-export const analyzePersonalIdentifiers = (text: string): {
-    personalIdentifiers: { type: string; value: string; index: number }[];
-} => {
-    const personalIdentifiers: { type: string; value: string; index: number }[] = [];
+export const createSectionRule = (rule: Omit<SectionRule, 'id'>): SectionRule => ({
+    ...rule,
+    id: `section-rule-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+});
+
+export interface AnonymizationReplacement {
+    original: string;
+    replacement: string;
+    type: string;
+    // Position of the original value in the source text
+    index: number;
+}
+
+/**
+ * Drop identifiers that overlap a manual redaction, or an earlier or longer identifier, so
+ * replacements never collide
+ */
+const removeOverlappingIdentifiers = (identifiers: PersonalIdentifier[]): PersonalIdentifier[] => {
+    const sorted = [...identifiers].sort((a, b) =>
+        Number(b.type === 'manual') - Number(a.type === 'manual') || a.index - b.index || b.value.length - a.value.length);
+    const result: PersonalIdentifier[] = [];
+
+    sorted.forEach(identifier => {
+        const end = identifier.index + identifier.value.length;
+        if (result.some(kept => identifier.index < kept.index + kept.value.length && end > kept.index)) return;
+        result.push(identifier);
+    });
+
+    return result.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Short, stable hex hash (FNV-1a) used to build candidate pseudonyms
+ */
+const hashPseudonym = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return ((hash >>> 0) & 0xffff).toString(16).toUpperCase().padStart(4, '0');
+};
+
+const getPseudonymKey = (identifier: PersonalIdentifier): string => (identifier.canonical || identifier.value).toLowerCase();
+
+/**
+ * Build the pseudonym for the nth distinct value of a type. The first person named in a
+ * resume is the candidate ("Candidate-7F3A"); everything else is numbered ("[EMAIL-1]").
+ */
+const toPseudonym = (identifier: PersonalIdentifier, placeholder: string, position: number, salt: string): string => {
+    if (identifier.type === 'name') {
+        return position === 1 ? `Candidate-${hashPseudonym(`${salt}:${getPseudonymKey(identifier)}`)}` : `[NAME-${position - 1}]`;
+    }
+    return placeholder.replace(/\]$/, `-${position}]`);
+};
+
+interface IdentifierDetectionOptions {
+    organizationMappings?: OrganizationMapping[];
+    redactionOverrides?: RedactionOverrides;
+    // Countries whose phone, address and ID number formats are detected
+    locales?: IdentifierLocale[];
+}
+
+/**
+ * Find every personal identifier in text, including ones that overlap each other
+ */
+const detectPersonalIdentifiers = (text: string, options: IdentifierDetectionOptions): PersonalIdentifier[] => {
+    const personalIdentifiers: PersonalIdentifier[] = [];
 
     // Email pattern
     const emailPattern = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
@@ -20,39 +126,14 @@ export const analyzePersonalIdentifiers = (text: string): {
         });
     }
 
-    // Phone pattern (simple version)
-    const phonePattern = /\b(\+\d{1,3}[- ]?)?\(?\d{3}\)?[- ]?\d{3}[- ]?\d{4}\b/g;
+    // Phone numbers, addresses, postal codes and national ID numbers in the selected countries' formats
+    personalIdentifiers.push(...detectLocaleIdentifiers(text, options.locales || DEFAULT_IDENTIFIER_LOCALES));
 
-    while ((match = phonePattern.exec(text)) !== null) {
+    // Names, including later mentions by first name, surname or initials
+    recognizeNames(text).forEach((name) => {
         personalIdentifiers.push({
-            type: 'phone', value: match[0], index: match.index,
+            type: 'name', value: name.value, index: name.index, confidence: name.confidence, canonical: name.canonical,
         });
-    }
-
-    // Address pattern (simple detection)
-    const addressPattern = /\b\d+\s+[A-Za-z\s]+\b(Avenue|Ave|Street|St|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Circle|Cir|Place|Pl)\b/gi;
-
-    while ((match = addressPattern.exec(text)) !== null) {
-        personalIdentifiers.push({
-            type: 'address', value: match[0], index: match.index,
-        });
-    }
-
-    // Name detection (based on common patterns)
-    // This is simplified and would be more complex in a real application
-    const namePatterns = [// Common name indicators
-        /\b(Name|Full Name|I am|My name is)\s*:?\s*([A-Z][a-z]+\s+[A-Z][a-z]+)(\s+[A-Z][a-z]+)?\b/g, // First line of resume often contains name
-        /^\s*([A-Z][a-z]+\s+[A-Z][a-z]+)(\s+[A-Z][a-z]+)?\s*$/m,];
-
-    namePatterns.forEach((pattern) => {
-        while ((match = pattern.exec(text)) !== null) {
-            const name = match[2] || match[1];
-            if (name && name.length > 4) { // Simple check to avoid short matches
-                personalIdentifiers.push({
-                    type: 'name', value: name, index: match.index + (match[0].indexOf(name) || 0),
-                });
-            }
-        }
     });
 
     // LinkedIn URL
@@ -73,30 +154,154 @@ export const analyzePersonalIdentifiers = (text: string): {
         });
     }
 
-    return {
-        personalIdentifiers,
-    };
+    // Universities and employers, generalized using the user's mapping table
+    personalIdentifiers.push(...detectOrganizations(text, options.organizationMappings));
+
+    // Graduation years, age, pronouns, nationality, marital status and affiliations
+    personalIdentifiers.push(...detectDemographicProxies(text));
+
+    // Apply the user's manual redactions and restorations
+    const {manualRedactions, restoredValues} = options.redactionOverrides || EMPTY_REDACTION_OVERRIDES;
+    manualRedactions.filter(Boolean).forEach((value) => {
+        let index = text.indexOf(value);
+        while (index !== -1) {
+            personalIdentifiers.push({
+                type: 'manual', value, index,
+            });
+            index = text.indexOf(value, index + value.length);
+        }
+    });
+
+    return personalIdentifiers.filter(identifier => restoredValues.indexOf(identifier.value) === -1);
 };
 
 /**
- * Anonymize text by removing or replacing personal identifiers
+ * Analyze personal identifiers in text
  */
-export const anonymizeText = (text: string, options: {
+export const analyzePersonalIdentifiers = (text: string, options: IdentifierDetectionOptions = {}): {
+    personalIdentifiers: PersonalIdentifier[];
+} => {
+    return {
+        personalIdentifiers: removeOverlappingIdentifiers(detectPersonalIdentifiers(text, options)),
+    };
+};
+
+export interface AnonymizationOptions {
     replaceNames?: boolean;
     replaceEmails?: boolean;
     replacePhones?: boolean;
     replaceAddresses?: boolean;
     replaceSocial?: boolean;
-} = {}): {
-    anonymizedText: string; replacements: { original: string; replacement: string; type: string }[];
+    replaceGraduationYears?: boolean;
+    replaceAge?: boolean;
+    replacePronouns?: boolean;
+    replaceNationality?: boolean;
+    replaceMaritalStatus?: boolean;
+    replaceAffiliations?: boolean;
+    replaceNationalIds?: boolean;
+    generalizeOrganizations?: boolean;
+    organizationMappings?: OrganizationMapping[];
+    redactionOverrides?: RedactionOverrides;
+    pseudonymize?: boolean;
+    // Mixed into candidate pseudonyms so the same name gets different IDs in different batches
+    pseudonymSalt?: string;
+    sectionRules?: SectionRule[];
+    locales?: IdentifierLocale[];
+}
+
+// Setting that turns the replacement of each identifier type on or off
+const IDENTIFIER_TYPE_SETTINGS: Record<string, keyof AnonymizationOptions> = {
+    name: 'replaceNames',
+    email: 'replaceEmails',
+    phone: 'replacePhones',
+    address: 'replaceAddresses',
+    social: 'replaceSocial',
+    year: 'replaceGraduationYears',
+    birthdate: 'replaceAge',
+    age: 'replaceAge',
+    pronouns: 'replacePronouns',
+    nationality: 'replaceNationality',
+    marital: 'replaceMaritalStatus',
+    affiliation: 'replaceAffiliations',
+    nationalId: 'replaceNationalIds',
+    institution: 'generalizeOrganizations',
+    employer: 'generalizeOrganizations',
+};
+
+/**
+ * Whether identifiers of a type are replaced with these options. Settings default to on, and
+ * manual redactions and removed sections are always replaced.
+ */
+export const isIdentifierTypeReplaced = (type: string, options: AnonymizationOptions): boolean => {
+    const setting = IDENTIFIER_TYPE_SETTINGS[type];
+    return setting ? options[setting] !== false : type === 'manual' || type === 'section';
+};
+
+/**
+ * Anonymize text by removing or replacing personal identifiers
+ */
+export const anonymizeText = (text: string, options: AnonymizationOptions = {}): {
+    anonymizedText: string; replacements: AnonymizationReplacement[];
 } => {
     const {
-        replaceNames = true, replaceEmails = true, replacePhones = true, replaceAddresses = true, replaceSocial = true,
+        organizationMappings = [], redactionOverrides, pseudonymize = false, pseudonymSalt = '', sectionRules = [], locales,
     } = options;
 
-    const {personalIdentifiers} = analyzePersonalIdentifiers(text);
+    // Sections with a rule, found with the resume parser. When several rules name the same
+    // section, the first one wins.
+    const ruledSections = sectionRules.length > 0
+        ? segmentResume(text)
+            .map(section => ({section, rule: sectionRules.find(rule => rule.section === section.kind)}))
+            .filter(({rule}) => !!rule)
+        : [];
+    const findSectionRule = (index: number): SectionRule | undefined => {
+        const match = ruledSections.find(({section}) => index >= section.start && index < section.end);
+        return match ? match.rule : undefined;
+    };
+
+    // Identifiers inside a removed section go with it; the section itself is replaced like an identifier
+    const removedSections: PersonalIdentifier[] = ruledSections
+        .filter(({rule}) => rule!.action === 'remove')
+        .map(({section}) => ({
+            type: 'section',
+            value: text.substring(section.start, section.end).replace(/\s+$/, ''),
+            index: section.start,
+            replacement: `[${(section.heading || 'Header').toUpperCase()} REMOVED]`,
+        }))
+        .filter(section => section.value.trim().length > 0);
+
+    // Whether an identifier is replaced under the settings and the rule for its section
+    const isReplaced = ({type, index}: PersonalIdentifier): boolean => {
+        const rule = findSectionRule(index);
+        if (rule && rule.action !== 'remove' && rule.types.indexOf(type) !== -1) {
+            return rule.action === 'mask';
+        }
+        return isIdentifierTypeReplaced(type, options);
+    };
+
+    // Only identifiers that will be replaced compete for overlapping text, so one that is kept
+    // never hides a manual redaction or an enabled identifier
+    const personalIdentifiers = removeOverlappingIdentifiers([
+        ...detectPersonalIdentifiers(text, {organizationMappings, redactionOverrides, locales})
+            .filter(identifier => {
+                const rule = findSectionRule(identifier.index);
+                return (!rule || rule.action !== 'remove') && isReplaced(identifier);
+            }),
+        ...removedSections,
+    ]);
     let anonymizedText = text;
-    const replacements: { original: string; replacement: string; type: string }[] = [];
+    const replacements: AnonymizationReplacement[] = [];
+
+    // In pseudonymization mode each distinct value gets its own placeholder, numbered by
+    // first appearance so repeated mentions of the same value share one pseudonym
+    const pseudonymOrder: Record<string, string[]> = {};
+    if (pseudonymize) {
+        [...personalIdentifiers].sort((a, b) => a.index - b.index).forEach((identifier) => {
+            const keys = pseudonymOrder[identifier.type] || (pseudonymOrder[identifier.type] = []);
+            const key = getPseudonymKey(identifier);
+            if (keys.indexOf(key) === -1) keys.push(key);
+        });
+    }
 
     // Sort identifiers by index in reverse order (to avoid index shifting when replacing)
     const sortedIdentifiers = [...personalIdentifiers].sort((a, b) => b.index - a.index);
@@ -104,48 +309,69 @@ export const anonymizeText = (text: string, options: {
     sortedIdentifiers.forEach((identifier) => {
         const {type, value, index} = identifier;
         let replacement = '';
-        let shouldReplace = false;
 
         switch (type) {
             case 'name':
-                if (replaceNames) {
-                    replacement = '[NAME]';
-                    shouldReplace = true;
-                }
+                replacement = '[NAME]';
                 break;
             case 'email':
-                if (replaceEmails) {
-                    replacement = '[EMAIL]';
-                    shouldReplace = true;
-                }
+                replacement = '[EMAIL]';
                 break;
             case 'phone':
-                if (replacePhones) {
-                    replacement = '[PHONE]';
-                    shouldReplace = true;
-                }
+                replacement = '[PHONE]';
                 break;
             case 'address':
-                if (replaceAddresses) {
-                    replacement = '[ADDRESS]';
-                    shouldReplace = true;
-                }
+                replacement = '[ADDRESS]';
                 break;
             case 'social':
-                if (replaceSocial) {
-                    replacement = '[SOCIAL MEDIA]';
-                    shouldReplace = true;
-                }
+                replacement = '[SOCIAL MEDIA]';
+                break;
+            case 'year':
+                replacement = '[YEAR]';
+                break;
+            case 'birthdate':
+                replacement = '[DATE OF BIRTH]';
+                break;
+            case 'age':
+                replacement = '[AGE]';
+                break;
+            case 'pronouns':
+                replacement = '[PRONOUNS]';
+                break;
+            case 'nationality':
+                replacement = '[NATIONALITY]';
+                break;
+            case 'marital':
+                replacement = '[MARITAL STATUS]';
+                break;
+            case 'affiliation':
+                replacement = '[AFFILIATION]';
+                break;
+            case 'nationalId':
+                replacement = '[ID NUMBER]';
+                break;
+            case 'institution':
+            case 'employer':
+                replacement = identifier.replacement || '[ORGANIZATION]';
+                break;
+            case 'manual':
+                replacement = '[REDACTED]';
+                break;
+            case 'section':
+                replacement = identifier.replacement || '[SECTION REMOVED]';
                 break;
         }
 
-        if (shouldReplace) {
-            anonymizedText = anonymizedText.substring(0, index) + replacement + anonymizedText.substring(index + value.length);
-
-            replacements.push({
-                original: value, replacement, type,
-            });
+        if (pseudonymize && type !== 'section') {
+            const position = pseudonymOrder[type].indexOf(getPseudonymKey(identifier)) + 1;
+            replacement = toPseudonym(identifier, replacement, position, pseudonymSalt);
         }
+
+        anonymizedText = anonymizedText.substring(0, index) + replacement + anonymizedText.substring(index + value.length);
+
+        replacements.push({
+            original: value, replacement, type, index,
+        });
     });
 
     return {
@@ -153,6 +379,33 @@ export const anonymizeText = (text: string, options: {
     };
 };
 
+/**
+ * Split each removed section into one replacement per line for the PDF and Word exports, which
+ * only find values within a line or paragraph. The first line carries the section placeholder
+ * and the rest are removed without one.
+ */
+export const splitSectionReplacements = <T extends { original: string; replacement: string; type?: string }>(
+    replacements: T[]
+): T[] => {
+    const split: T[] = [];
+
+    replacements.forEach((replacement) => {
+        if (replacement.type !== 'section') {
+            split.push(replacement);
+            return;
+        }
+
+        replacement.original.split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line.length > 0)
+            .forEach((line, lineIndex) => {
+                split.push({...replacement, original: line, replacement: lineIndex === 0 ? replacement.replacement : ''});
+            });
+    });
+
+    return split;
+};
+
 /**
  * Analyze diversity representation in data
  */
@@ -2,7 +2,7 @@
  * Comprehensive Bias Detector
  *
  * This solution uses established NLP libraries (alex, retext-equality) to detect biased language
- * without requiring hardcoded word lists.
+ * in English without requiring hardcoded word lists. Other languages are analyzed with rule packs.
  */
 
 import { VFile } from 'vfile';
@@ -12,12 +12,15 @@ import { unified } from 'unified';
 import retextEnglish from 'retext-english';
 import retextEquality from 'retext-equality';
 import retextStringify from 'retext-stringify';
+import { analyzeReadability, ReadabilityResult } from './ReadabilityService';
+import { detectLanguage, LanguageDetectionResult, SupportedLanguage } from './LanguageDetectionService';
+import { analyzeWithLanguageRulePack, getLanguageRulePack } from './LanguageRulePackService';
 
 // Define types for our bias detection results
-type BiasCategory = 'gender' | 'age' | 'race' | 'ability' | 'socioeconomic' | 'appearance' | 'other';
-type SeverityLevel = 'high' | 'medium' | 'low';
+export type BiasCategory = 'gender' | 'age' | 'race' | 'ability' | 'socioeconomic' | 'appearance' | 'other';
+export type SeverityLevel = 'high' | 'medium' | 'low';
 
-interface BiasedTerm {
+export interface BiasedTerm {
     term: string;
     index: number;
     line: number;
@@ -27,34 +30,166 @@ interface BiasedTerm {
     alternatives: string[];
     context: string;
     ruleId?: string;
-    source: 'alex' | 'retext-equality';
+    source: 'alex' | 'retext-equality' | 'custom' | 'language-pack';
+    // Stable identifier within a document, assigned by analyzeBiasedLanguage
+    key?: string;
 }
 
-interface BiasAnalysisResult {
+/**
+ * A reviewer's decision about a single flagged term
+ */
+export type TermDecision =
+    | { status: 'accepted'; replacement: string }
+    | { status: 'ignored'; reason: string };
+
+/**
+ * An organization-specific phrase to flag, maintained by the user
+ */
+export interface CustomLexiconEntry {
+    id: string;
+    term: string;
+    isRegex: boolean;
+    category: BiasCategory;
+    severity: SeverityLevel;
+    alternatives: string[];
+    rationale: string;
+}
+
+export type GenderCoding = 'masculine' | 'feminine';
+export type GenderCodingVerdict = 'strongly-masculine' | 'masculine' | 'neutral' | 'feminine' | 'strongly-feminine';
+
+export interface GenderCodedTerm {
+    term: string;
+    stem: string;
+    index: number;
+    coding: GenderCoding;
+}
+
+export interface GenderCodingResult {
+    verdict: GenderCodingVerdict;
+    masculineCount: number;
+    feminineCount: number;
+    terms: GenderCodedTerm[];
+}
+
+/**
+ * A named set of scoring weights and pass/fail thresholds
+ */
+export interface ScoringPolicy {
+    id: string;
+    name: string;
+    // Category weights (0-1, sum should be 1)
+    categoryWeights: Record<BiasCategory, number>;
+    severityWeights: Record<SeverityLevel, number>;
+    maxOverallScore: number;
+    maxHighSeverityTerms: number;
+}
+
+export interface PolicyEvaluation {
+    policyId: string;
+    policyName: string;
+    passed: boolean;
+    // Human-readable description of each rule that failed
+    failedRules: string[];
+}
+
+/**
+ * How much a single flagged term adds to the overall score:
+ * severityWeight x normalizationFactor x categoryWeight
+ */
+export interface TermScoreContribution {
+    key?: string;
+    term: string;
+    category: BiasCategory;
+    severity: SeverityLevel;
+    severityWeight: number;
+    normalizationFactor: number;
+    categoryWeight: number;
+    contribution: number;
+}
+
+/**
+ * A category's share of the overall score. capAdjustment is what the 0-100 cap and
+ * rounding of the category score removed from (or added to) the sum of its terms.
+ */
+export interface CategoryScoreBreakdown {
+    category: BiasCategory;
+    rawScore: number;
+    score: number;
+    categoryWeight: number;
+    weightedScore: number;
+    capAdjustment: number;
+}
+
+/**
+ * Everything needed to reproduce the overall score: the sum of term contributions,
+ * category cap adjustments and the final rounding adjustment equals the score
+ */
+export interface ScoreBreakdown {
+    wordCount: number;
+    // Multiplier that scales term weights to a per-1000-words rate
+    normalizationFactor: number;
+    terms: TermScoreContribution[];
+    categories: CategoryScoreBreakdown[];
+    roundingAdjustment: number;
+    score: number;
+}
+
+export interface BiasAnalysisResult {
     biasedTerms: BiasedTerm[];
     score: number;
     categoryScores: Record<BiasCategory, number>;
+    scoreBreakdown: ScoreBreakdown;
+    policy: PolicyEvaluation;
+    language: LanguageDetectionResult;
+    genderCoding: GenderCodingResult;
+    readability: ReadabilityResult;
     suggestions: string[];
     summary: string;
 }
 
-// Category weights for scoring (0-1, sum should be 1)
-const categoryWeights: Record<BiasCategory, number> = {
-    gender: 0.25,
-    age: 0.2,
-    race: 0.2,
-    ability: 0.15,
-    socioeconomic: 0.1,
-    appearance: 0.05,
-    other: 0.05
+// Scoring weights and thresholds used when no policy is configured
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+    id: 'default',
+    name: 'Default',
+    categoryWeights: {
+        gender: 0.25,
+        age: 0.2,
+        race: 0.2,
+        ability: 0.15,
+        socioeconomic: 0.1,
+        appearance: 0.05,
+        other: 0.05
+    },
+    severityWeights: {
+        high: 1.0,
+        medium: 0.6,
+        low: 0.3
+    },
+    maxOverallScore: 15,
+    maxHighSeverityTerms: 0
 };
 
-// Severity weights for scoring
-const severityWeights: Record<SeverityLevel, number> = {
-    high: 1.0,
-    medium: 0.6,
-    low: 0.3
-};
+// Agentic (masculine-coded) and communal (feminine-coded) word stems from
+// Gaucher, Friesen & Kay (2011), "Evidence That Gendered Wording in Job
+// Advertisements Exists and Sustains Gender Inequality"
+const masculineCodedStems = [
+    'active', 'adventurous', 'aggress', 'ambitio', 'analy', 'assert', 'athlet', 'autonom', 'battle', 'boast',
+    'challeng', 'champion', 'compet', 'confident', 'courag', 'decid', 'decision', 'decisive', 'defend', 'determin',
+    'domina', 'driven', 'fearless', 'fight', 'force', 'greedy', 'head-strong', 'headstrong', 'hierarch', 'hostil',
+    'impulsive', 'independen', 'individual', 'intellect', 'lead', 'logic', 'objective', 'opinion', 'outspoken',
+    'persist', 'principle', 'reckless', 'self-confiden', 'self-relian', 'self-sufficien', 'selfconfiden',
+    'selfrelian', 'selfsufficien', 'stubborn', 'superior', 'unreasonab'
+];
+
+const feminineCodedStems = [
+    'agree', 'affectionate', 'child', 'cheer', 'collab', 'commit', 'communal', 'compassion', 'connect',
+    'considerate', 'cooperat', 'co-operat', 'depend', 'emotiona', 'empath', 'enthusias', 'feel', 'flatterable',
+    'gentle', 'honest', 'inclusive', 'interpersonal', 'interdependen', 'inter-personal', 'inter-dependen', 'kind',
+    'kinship', 'loyal', 'modesty', 'nag', 'nurtur', 'pleasant', 'polite', 'quiet', 'respon', 'sensitiv', 'share',
+    'sharing', 'submissive', 'support', 'sympath', 'tender', 'together', 'trust', 'understand', 'warm', 'whin',
+    'yield'
+];
 
 /**
  * Maps retext rule IDs to our category system
@@ -244,6 +379,121 @@ const analyzeWithRetextEquality = async (text: string): Promise<BiasedTerm[]> =>
     }
 };
 
+/**
+ * Classifies the balance of masculine- and feminine-coded words in the text
+ */
+const getGenderCodingVerdict = (masculineCount: number, feminineCount: number): GenderCodingVerdict => {
+    const balance = feminineCount - masculineCount;
+
+    if (balance === 0) return 'neutral';
+    if (balance < -3) return 'strongly-masculine';
+    if (balance < 0) return 'masculine';
+    if (balance > 3) return 'strongly-feminine';
+    return 'feminine';
+};
+
+/**
+ * Analyzes text for gender-coded wording by counting agentic and communal word stems
+ */
+export const analyzeGenderCoding = (text: string): GenderCodingResult => {
+    const terms: GenderCodedTerm[] = [];
+    const wordPattern = /[A-Za-z][A-Za-z-]*/g;
+
+    let match;
+    while ((match = wordPattern.exec(text)) !== null) {
+        const word = match[0].toLowerCase();
+
+        const masculineStem = masculineCodedStems.find(stem => word.startsWith(stem));
+        const feminineStem = masculineStem ? undefined : feminineCodedStems.find(stem => word.startsWith(stem));
+        const stem = masculineStem || feminineStem;
+        if (!stem) continue;
+
+        terms.push({
+            term: match[0],
+            stem,
+            index: match.index,
+            coding: masculineStem ? 'masculine' : 'feminine'
+        });
+    }
+
+    const masculineCount = terms.filter(term => term.coding === 'masculine').length;
+    const feminineCount = terms.length - masculineCount;
+
+    return {
+        verdict: getGenderCodingVerdict(masculineCount, feminineCount),
+        masculineCount,
+        feminineCount,
+        terms
+    };
+};
+
+/**
+ * Escapes a literal term for use inside a regular expression
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the matcher for a lexicon entry, or null if its pattern is unusable
+ */
+const buildLexiconPattern = (entry: CustomLexiconEntry): RegExp | null => {
+    const term = entry.term.trim();
+    if (!term) return null;
+
+    try {
+        if (entry.isRegex) {
+            return new RegExp(term, 'gi');
+        }
+
+        // Match whole words only and tolerate any whitespace between words of a phrase
+        const phrase = term.split(/\s+/).map(escapeRegExp).join('\\s+');
+        return new RegExp(`(?<![\\w-])${phrase}(?![\\w-])`, 'gi');
+    } catch (error) {
+        console.warn(`Skipping invalid lexicon pattern "${term}":`, error);
+        return null;
+    }
+};
+
+/**
+ * Analyzes text against the organization's custom lexicon
+ */
+const analyzeWithCustomLexicon = async (text: string, lexicon: CustomLexiconEntry[]): Promise<BiasedTerm[]> => {
+    const results: BiasedTerm[] = [];
+
+    lexicon.forEach(entry => {
+        const pattern = buildLexiconPattern(entry);
+        if (!pattern) return;
+
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            // Guard against patterns that can match the empty string
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+
+            const index = match.index;
+            const precedingText = text.substring(0, index);
+            const line = precedingText.split('\n').length;
+            const column = index - precedingText.lastIndexOf('\n');
+
+            results.push({
+                term: match[0],
+                index,
+                line,
+                column,
+                category: entry.category,
+                severity: entry.severity,
+                alternatives: entry.alternatives,
+                context: entry.rationale || `"${entry.term}" is on your organization's lexicon`,
+                ruleId: `custom.${entry.id}`,
+                source: 'custom'
+            });
+        }
+    });
+
+    return results;
+};
+
 /**
  * Merge and deduplicate results from multiple analyzers
  */
@@ -268,6 +518,27 @@ const mergeResults = (results: BiasedTerm[][]): BiasedTerm[] => {
     return merged.sort((a, b) => a.index - b.index);
 };
 
+/**
+ * Assigns each term a key made of its text and occurrence number, e.g. "guys#1",
+ * so decisions survive edits elsewhere in the document and re-analysis
+ */
+const assignTermKeys = (terms: BiasedTerm[]): BiasedTerm[] => {
+    const occurrences = new Map<string, number>();
+
+    return terms.map(term => {
+        const text = term.term.toLowerCase();
+        const occurrence = occurrences.get(text) || 0;
+        occurrences.set(text, occurrence + 1);
+
+        return { ...term, key: `${text}#${occurrence}` };
+    });
+};
+
+/**
+ * Gets the term text from a term key
+ */
+export const getTermFromKey = (key: string): string => key.replace(/#\d+$/, '');
+
 /**
  * Generates suggestions based on bias analysis
  */
@@ -380,29 +651,144 @@ const generateSummary = (
     return `Analysis detected ${biasLevel} bias (score: ${overallScore}/100) with ${biasedTerms.length} potentially biased terms (${highCount} high, ${mediumCount} medium, ${lowCount} low severity).${categorySummary}`;
 };
 
+/**
+ * Scores the flagged terms under a policy. Each category score is the sum of its terms'
+ * severity weights per 1000 words, capped at 100; the overall score is the weighted sum
+ * of category scores.
+ */
+const calculateScore = (
+    terms: BiasedTerm[],
+    wordCount: number,
+    policy: ScoringPolicy
+): { score: number; categoryScores: Record<BiasCategory, number>; breakdown: ScoreBreakdown } => {
+    const normalizationFactor = 1000 / Math.max(1, wordCount);
+    const categories = Object.keys(policy.categoryWeights) as BiasCategory[];
+
+    const termContributions: TermScoreContribution[] = terms.map(term => {
+        const severityWeight = policy.severityWeights[term.severity];
+        const categoryWeight = policy.categoryWeights[term.category];
+
+        return {
+            key: term.key,
+            term: term.term,
+            category: term.category,
+            severity: term.severity,
+            severityWeight,
+            normalizationFactor,
+            categoryWeight,
+            contribution: severityWeight * normalizationFactor * categoryWeight
+        };
+    });
+
+    const categoryScores = {} as Record<BiasCategory, number>;
+    const categoryBreakdowns: CategoryScoreBreakdown[] = categories.map(category => {
+        const categoryTerms = termContributions.filter(term => term.category === category);
+        const rawScore = categoryTerms.reduce((sum, term) => sum + term.severityWeight, 0) * normalizationFactor;
+        const score = Math.min(100, Math.round(rawScore));
+        const categoryWeight = policy.categoryWeights[category];
+        const weightedScore = score * categoryWeight;
+        const termTotal = categoryTerms.reduce((sum, term) => sum + term.contribution, 0);
+
+        categoryScores[category] = score;
+
+        return {
+            category,
+            rawScore,
+            score,
+            categoryWeight,
+            weightedScore,
+            capAdjustment: weightedScore - termTotal
+        };
+    });
+
+    const unroundedScore = categoryBreakdowns.reduce((sum, category) => sum + category.weightedScore, 0);
+    const score = Math.round(unroundedScore);
+
+    return {
+        score,
+        categoryScores,
+        breakdown: {
+            wordCount,
+            normalizationFactor,
+            terms: termContributions,
+            categories: categoryBreakdowns,
+            roundingAdjustment: score - unroundedScore,
+            score
+        }
+    };
+};
+
+/**
+ * Checks a score and high-severity count against a policy's thresholds
+ */
+export const evaluatePolicy = (
+    score: number,
+    highSeverityCount: number,
+    policy: ScoringPolicy
+): PolicyEvaluation => {
+    const failedRules: string[] = [];
+
+    if (score > policy.maxOverallScore) {
+        failedRules.push(`Bias score ${score} is above the maximum of ${policy.maxOverallScore}`);
+    }
+    if (highSeverityCount > policy.maxHighSeverityTerms) {
+        failedRules.push(
+            `${highSeverityCount} high-severity ${highSeverityCount === 1 ? 'term' : 'terms'} found, ${policy.maxHighSeverityTerms} allowed`
+        );
+    }
+
+    return {
+        policyId: policy.id,
+        policyName: policy.name,
+        passed: failedRules.length === 0,
+        failedRules
+    };
+};
+
 /**
  * Main function to analyze text for biased language
  */
 export const analyzeBiasedLanguage = async (text: string, options: {
     includeContext?: boolean,
     categories?: BiasCategory[],
-    minSeverity?: SeverityLevel
+    minSeverity?: SeverityLevel,
+    customLexicon?: CustomLexiconEntry[],
+    longSentenceThreshold?: number,
+    ignoredTermKeys?: string[],
+    language?: SupportedLanguage | 'auto',
+    policy?: ScoringPolicy
 } = {}): Promise<BiasAnalysisResult> => {
     // Default options
     const {
         includeContext = true,
         categories = ['gender', 'age', 'race', 'ability', 'socioeconomic', 'appearance', 'other'],
-        minSeverity = 'low'
+        minSeverity = 'low',
+        customLexicon = [],
+        longSentenceThreshold,
+        ignoredTermKeys = [],
+        language = 'auto',
+        policy = DEFAULT_SCORING_POLICY
     } = options;
 
+    const detectedLanguage: LanguageDetectionResult = language === 'auto'
+        ? detectLanguage(text)
+        : { language, confidence: 1, detected: false };
+
+    // alex and retext-equality only understand English; other languages use their rule pack
+    const rulePack = getLanguageRulePack(detectedLanguage.language);
+    const languageAnalyses: Promise<BiasedTerm[]>[] = detectedLanguage.language === 'en'
+        ? [analyzeWithAlex(text), analyzeWithRetextEquality(text)]
+        : [Promise.resolve(rulePack ? analyzeWithLanguageRulePack(text, rulePack) : [])];
+
     // Run analyses in parallel
-    const [alexResults, retextResults] = await Promise.all([
-        analyzeWithAlex(text),
-        analyzeWithRetextEquality(text)
+    const [customResults, ...languageResults] = await Promise.all([
+        analyzeWithCustomLexicon(text, customLexicon),
+        ...languageAnalyses
     ]);
 
-    // Merge and deduplicate results
-    let biasedTermsFound = mergeResults([alexResults, retextResults]);
+    // Merge and deduplicate results. Custom entries go first so the organization's
+    // own alternatives and rationale win when a library flags the same term.
+    let biasedTermsFound = mergeResults([customResults, ...languageResults]);
 
     // Filter by requested categories and severity
     biasedTermsFound = biasedTermsFound.filter(term => {
@@ -416,81 +802,160 @@ export const analyzeBiasedLanguage = async (text: string, options: {
         return true;
     });
 
-    // Calculate category-specific scores
-    const categoryScores: Record<BiasCategory, number> = {
-        gender: 0,
-        age: 0,
-        race: 0,
-        ability: 0,
-        socioeconomic: 0,
-        appearance: 0,
-        other: 0
-    };
-
-    // Count terms by category and severity
-    biasedTermsFound.forEach(term => {
-        categoryScores[term.category] += severityWeights[term.severity];
-    });
+    // Drop terms the reviewer has chosen to ignore for this document
+    biasedTermsFound = assignTermKeys(biasedTermsFound)
+        .filter(term => !ignoredTermKeys.includes(term.key!));
 
     // Word count for normalization
     const wordCount = text.split(/\s+/).length;
 
-    // Normalize category scores to 0-100
-    Object.keys(categoryScores).forEach((category) => {
-        const typedCategory = category as BiasCategory;
-        categoryScores[typedCategory] = Math.min(100, Math.round(
-            (categoryScores[typedCategory] / Math.max(1, wordCount)) * 1000
-        ));
-    });
+    // Calculate category-specific and overall weighted bias scores
+    const {
+        score: overallScore,
+        categoryScores,
+        breakdown: scoreBreakdown
+    } = calculateScore(biasedTermsFound, wordCount, policy);
 
-    // Calculate overall weighted bias score
-    let overallScore = 0;
-    Object.entries(categoryScores).forEach(([category, score]) => {
-        overallScore += score * categoryWeights[category as BiasCategory];
-    });
+    // Measure agentic vs. communal wording balance. The word lists are English.
+    const genderCoding: GenderCodingResult = detectedLanguage.language === 'en'
+        ? analyzeGenderCoding(text)
+        : { verdict: 'neutral', masculineCount: 0, feminineCount: 0, terms: [] };
 
-    // Round to nearest integer
-    overallScore = Math.round(overallScore);
+    // Score readability and jargon alongside bias
+    const readability = analyzeReadability(text, { longSentenceThreshold });
 
     // Generate suggestions based on findings
     const suggestions = generateSuggestions(biasedTermsFound, categoryScores);
 
+    if (genderCoding.verdict === 'masculine' || genderCoding.verdict === 'strongly-masculine') {
+        suggestions.push(
+            `The wording leans masculine (${genderCoding.masculineCount} masculine-coded vs. ${genderCoding.feminineCount} feminine-coded words). Balance words like "competitive" or "driven" with communal ones like "collaborative" or "supportive".`
+        );
+    }
+
     // Generate summary
     const summary = generateSummary(biasedTermsFound, categoryScores, overallScore);
 
+    const highSeverityCount = biasedTermsFound.filter(term => term.severity === 'high').length;
+
     return {
         biasedTerms: biasedTermsFound,
         score: overallScore,
         categoryScores,
+        scoreBreakdown,
+        policy: evaluatePolicy(overallScore, highSeverityCount, policy),
+        language: detectedLanguage,
+        genderCoding,
+        readability,
         suggestions,
         summary
     };
 };
 
 /**
- * Provides suggestions to make a text more inclusive
+ * Rewrites text by applying the reviewer's decisions to the flagged terms.
+ * Undecided terms are left as-is unless fallbackToFirstAlternative is set.
  */
-export const suggestInclusiveRewrite = async (text: string): Promise<string> => {
-    const analysis = await analyzeBiasedLanguage(text);
+export const applyTermDecisions = (
+    text: string,
+    biasedTerms: BiasedTerm[],
+    decisions: Record<string, TermDecision>,
+    options: { fallbackToFirstAlternative?: boolean } = {}
+): string => {
+    const { fallbackToFirstAlternative = false } = options;
     let rewrittenText = text;
+    let nextTermStart = Infinity;
 
-    // Sort terms by index in reverse order to avoid changing positions
-    const sortedTerms = [...analysis.biasedTerms].sort((a, b) => b.index - a.index);
+    // Apply from the end of the text backwards so earlier positions stay valid
+    const sortedTerms = [...biasedTerms].sort((a, b) => b.index - a.index);
 
     sortedTerms.forEach(term => {
-        if (term.alternatives && term.alternatives.length > 0) {
-            // Use the first alternative as default
-            const replacement = term.alternatives[0];
-            rewrittenText =
-                rewrittenText.substring(0, term.index) +
-                replacement +
-                rewrittenText.substring(term.index + term.term.length);
+        const end = term.index + term.term.length;
+
+        // Skip terms that overlap one already replaced, or no longer match the text
+        if (end > nextTermStart || text.substring(term.index, end) !== term.term) return;
+
+        const decision = term.key ? decisions[term.key] : undefined;
+        let replacement: string | undefined;
+
+        if (decision?.status === 'accepted') {
+            replacement = decision.replacement;
+        } else if (!decision && fallbackToFirstAlternative && term.alternatives.length > 0) {
+            replacement = term.alternatives[0];
         }
+
+        if (replacement === undefined) return;
+
+        rewrittenText =
+            rewrittenText.substring(0, term.index) +
+            replacement +
+            rewrittenText.substring(end);
+        nextTermStart = term.index;
     });
 
     return rewrittenText;
 };
 
+const wordCharacterPattern = new RegExp('[\\p{L}\\p{N}]', 'u');
+
+/**
+ * Applies a change to one term's decision to text that may have been edited since the analysis,
+ * such as the improved description. The term is looked for where the earlier decisions left it,
+ * or at its nearest whole-word occurrence. Returns null when it can no longer be found.
+ */
+export const applyTermDecisionChange = (
+    text: string,
+    biasedTerms: BiasedTerm[],
+    previousDecisions: Record<string, TermDecision>,
+    key: string,
+    decision: TermDecision | null
+): string | null => {
+    const term = biasedTerms.find(item => item.key === key);
+    if (!term) return null;
+
+    const valueFor = (termDecision?: TermDecision | null): string =>
+        termDecision?.status === 'accepted' ? termDecision.replacement : term.term;
+    const currentValue = valueFor(previousDecisions[key]);
+    const nextValue = valueFor(decision);
+    if (currentValue === nextValue) return text;
+
+    // Earlier accepted replacements shift the term from its position in the analyzed text
+    const expectedIndex = biasedTerms.reduce((index, other) => {
+        const otherDecision = other.key ? previousDecisions[other.key] : undefined;
+        return other.index < term.index && otherDecision?.status === 'accepted'
+            ? index + otherDecision.replacement.length - other.term.length
+            : index;
+    }, term.index);
+
+    const isWholeWord = (index: number): boolean =>
+        !wordCharacterPattern.test(text.charAt(index - 1)) &&
+        !wordCharacterPattern.test(text.charAt(index + currentValue.length));
+
+    let bestIndex = -1;
+    for (let index = text.indexOf(currentValue); index !== -1; index = text.indexOf(currentValue, index + 1)) {
+        if (isWholeWord(index) && (bestIndex === -1 || Math.abs(index - expectedIndex) < Math.abs(bestIndex - expectedIndex))) {
+            bestIndex = index;
+        }
+    }
+    if (bestIndex === -1) return null;
+
+    return text.substring(0, bestIndex) + nextValue + text.substring(bestIndex + currentValue.length);
+};
+
+/**
+ * Provides suggestions to make a text more inclusive. Terms without a decision
+ * are replaced with their first alternative.
+ */
+export const suggestInclusiveRewrite = async (
+    text: string,
+    decisions: Record<string, TermDecision> = {}
+): Promise<string> => {
+    const ignoredTermKeys = Object.keys(decisions).filter(key => decisions[key].status === 'ignored');
+    const analysis = await analyzeBiasedLanguage(text, { ignoredTermKeys });
+
+    return applyTermDecisions(text, analysis.biasedTerms, decisions, { fallbackToFirstAlternative: true });
+};
+
 /**
  * Checks if a text meets a specific bias threshold
  */
@@ -504,3 +969,15 @@ export const meetsInclusivityStandard = async (
 
     return analysis.score <= maxOverallScore && highSeverityCount <= maxHighSeverityTerms;
 };
+
+/**
+ * Checks if a text meets the thresholds of a scoring policy
+ */
+export const meetsScoringPolicy = async (
+    text: string,
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): Promise<boolean> => {
+    const analysis = await analyzeBiasedLanguage(text, { policy });
+
+    return analysis.policy.passed;
+};
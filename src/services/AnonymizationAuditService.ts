@@ -0,0 +1,226 @@
+/**
+ * Service for building the compliance audit report of an anonymization batch. The report records
+ * what was redacted and how, without any of the personal details themselves.
+ */
+import { exportToJSON, exportToPDF } from './ExportService';
+import { AnonymizationReplacement, RedactionOverrides } from './AnalysisService';
+import { AnonymizationLeak, getUnresolvedLeaks, LeakKind } from './LeakVerificationService';
+
+// The parts of an anonymized resume the report is built from
+export interface AuditedResume {
+    fileName: string;
+    originalText: string;
+    replacements: AnonymizationReplacement[];
+    leaks: AnonymizationLeak[];
+    // Values a PDF or Word export could not find in the uploaded file
+    exportLeaks: AnonymizationLeak[];
+    settings: object;
+    overrides: RedactionOverrides;
+    sourcePdf?: ArrayBuffer;
+    sourceDocx?: ArrayBuffer;
+}
+
+export type AuditVerificationStatus = 'passed' | 'waived' | 'unresolved';
+
+export interface AuditReportEntry {
+    // Position in the batch. File names are left out, as they often contain the candidate's name.
+    file: string;
+    fileType: string;
+    // SHA-256 of the uploaded file, when its bytes were kept, and of the text read from it
+    fileSha256?: string;
+    textSha256: string;
+    settings: object;
+    // Replacements made, by identifier type
+    replacementCounts: Record<string, number>;
+    overrides: {
+        manualRedactions: number;
+        restoredValues: number;
+        waivedLeaks: number;
+    };
+    verification: {
+        status: AuditVerificationStatus;
+        leaksFound: number;
+        waived: number;
+        unresolved: number;
+        byKind: Partial<Record<LeakKind, number>>;
+    };
+}
+
+export interface AuditReport {
+    generatedAt: string;
+    operator: string;
+    resumeCount: number;
+    totals: {
+        replacements: number;
+        replacementCounts: Record<string, number>;
+        manualOverrides: number;
+        leaksFound: number;
+        leaksWaived: number;
+        leaksUnresolved: number;
+    };
+    resumes: AuditReportEntry[];
+}
+
+const toHex = (buffer: ArrayBuffer): string => {
+    return Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const sha256 = async (data: ArrayBuffer | string): Promise<string> => {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+const countBy = <T>(items: T[], key: (item: T) => string): Record<string, number> => {
+    return items.reduce((counts, item) => {
+        counts[key(item)] = (counts[key(item)] || 0) + 1;
+        return counts;
+    }, {} as Record<string, number>);
+};
+
+const addCounts = (total: Record<string, number>, counts: Record<string, number>) => {
+    Object.keys(counts).forEach(key => {
+        total[key] = (total[key] || 0) + counts[key];
+    });
+};
+
+/**
+ * Build the audit report for a batch of anonymized resumes
+ */
+export const createAuditReport = async (resumes: AuditedResume[], operator: string): Promise<AuditReport> => {
+    const resumeCount = resumes.length;
+    const numberWidth = String(resumeCount).length;
+
+    const entries = await Promise.all(resumes.map(async (resume, index): Promise<AuditReportEntry> => {
+        const extensionIndex = resume.fileName.lastIndexOf('.');
+        const source = resume.sourcePdf || resume.sourceDocx;
+        const leaks = [...resume.leaks, ...resume.exportLeaks];
+        const unresolved = getUnresolvedLeaks(leaks, resume.overrides).length;
+        const waived = leaks.length - unresolved;
+        const { manualRedactions, restoredValues, waivedLeaks = [] } = resume.overrides;
+
+        return {
+            file: `Resume ${String(index + 1).padStart(numberWidth, '0')}`,
+            fileType: extensionIndex > 0 ? resume.fileName.substring(extensionIndex + 1).toLowerCase() : '',
+            fileSha256: source ? await sha256(source) : undefined,
+            textSha256: await sha256(resume.originalText),
+            settings: resume.settings,
+            replacementCounts: countBy(resume.replacements, replacement => replacement.type),
+            overrides: {
+                manualRedactions: manualRedactions.length,
+                restoredValues: restoredValues.length,
+                waivedLeaks: waivedLeaks.length,
+            },
+            verification: {
+                status: unresolved > 0 ? 'unresolved' : waived > 0 ? 'waived' : 'passed',
+                leaksFound: leaks.length,
+                waived,
+                unresolved,
+                byKind: countBy(leaks, leak => leak.kind),
+            },
+        };
+    }));
+
+    const replacementCounts: Record<string, number> = {};
+    entries.forEach(entry => addCounts(replacementCounts, entry.replacementCounts));
+
+    const sum = (value: (entry: AuditReportEntry) => number) => entries.reduce((total, entry) => total + value(entry), 0);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        operator: operator.trim(),
+        resumeCount,
+        totals: {
+            replacements: sum(entry => Object.keys(entry.replacementCounts).reduce((total, type) => total + entry.replacementCounts[type], 0)),
+            replacementCounts,
+            manualOverrides: sum(entry => entry.overrides.manualRedactions + entry.overrides.restoredValues),
+            leaksFound: sum(entry => entry.verification.leaksFound),
+            leaksWaived: sum(entry => entry.verification.waived),
+            leaksUnresolved: sum(entry => entry.verification.unresolved),
+        },
+        resumes: entries,
+    };
+};
+
+const formatCounts = (counts: Record<string, number>): string => {
+    const keys = Object.keys(counts).sort();
+    return keys.length > 0 ? keys.map(key => `${key} ${counts[key]}`).join(', ') : 'none';
+};
+
+// Settings as lists of switches that are on and off, plus other values such as the PDF redaction style
+const formatSettings = (settings: object): string[] => {
+    const lines: string[] = [];
+    const enabled: string[] = [];
+    const disabled: string[] = [];
+
+    Object.keys(settings).forEach(key => {
+        const value = (settings as Record<string, unknown>)[key];
+        if (value === true) enabled.push(key);
+        else if (value === false) disabled.push(key);
+        else if (Array.isArray(value)) {
+            value.forEach(item => {
+                const { id, ...rule } = item as Record<string, unknown>;
+                lines.push(`    ${key}: ${JSON.stringify(id !== undefined ? rule : item)}`);
+            });
+        } else if (value !== undefined) lines.push(`    ${key}: ${String(value)}`);
+    });
+
+    return [
+        `    On:  ${enabled.join(', ') || 'none'}`,
+        `    Off: ${disabled.join(', ') || 'none'}`,
+        ...lines,
+    ];
+};
+
+/**
+ * Lay out the report as plain text, for the PDF export
+ */
+export const formatAuditReport = (report: AuditReport): string => {
+    const lines: string[] = [
+        `Generated: ${report.generatedAt}`,
+        `Operator:  ${report.operator || 'Not recorded'}`,
+        `Resumes:   ${report.resumeCount}`,
+        '',
+        'TOTALS',
+        `  Replacements:      ${report.totals.replacements} (${formatCounts(report.totals.replacementCounts)})`,
+        `  Manual overrides:  ${report.totals.manualOverrides}`,
+        `  Leaks found:       ${report.totals.leaksFound} (${report.totals.leaksWaived} waived, ${report.totals.leaksUnresolved} unresolved)`,
+        '',
+        'No personal details are included in this report. Files are identified by their SHA-256 hashes.',
+    ];
+
+    report.resumes.forEach(entry => {
+        lines.push(
+            '',
+            `${entry.file.toUpperCase()}${entry.fileType ? ` (${entry.fileType})` : ''}`,
+            ...(entry.fileSha256 ? [`  File SHA-256:  ${entry.fileSha256}`] : []),
+            `  Text SHA-256:  ${entry.textSha256}`,
+            `  Replacements:  ${formatCounts(entry.replacementCounts)}`,
+            `  Overrides:     ${entry.overrides.manualRedactions} manual redactions, ${entry.overrides.restoredValues} restored values, ${entry.overrides.waivedLeaks} waived leaks`,
+            `  Leak check:    ${entry.verification.status.toUpperCase()} - ${entry.verification.leaksFound} found` +
+            ` (${formatCounts(entry.verification.byKind)}), ${entry.verification.waived} waived, ${entry.verification.unresolved} unresolved`,
+            '  Settings',
+            ...formatSettings(entry.settings)
+        );
+    });
+
+    return lines.join('\n');
+};
+
+/**
+ * Download the report as a PDF or a JSON file
+ */
+export const exportAuditReport = (report: AuditReport, format: 'pdf' | 'json'): void => {
+    const filename = `anonymization-audit-${report.generatedAt.slice(0, 19).replace(/:/g, '-')}.${format}`;
+
+    if (format === 'json') {
+        exportToJSON(report, { filename, pretty: true });
+    } else {
+        exportToPDF(formatAuditReport(report), { filename, title: 'Anonymization Audit Report' });
+    }
+};
+
+export default {
+    createAuditReport,
+    formatAuditReport,
+    exportAuditReport,
+};
@@ -0,0 +1,210 @@
+/**
+ * Service for auditing many job descriptions at once
+ */
+
+import { WorkerService } from './WorkerService';
+import { CSVData, getFileExtension, processDOCX, processPDF, processText } from './FileProcessingService';
+import { exportToCSV, exportToExcel } from './ExportService';
+import { analyzeBiasedLanguage, BiasAnalysisResult, BiasCategory } from './AnalyzeBiasedLanguage';
+import { LANGUAGE_NAMES } from './LanguageDetectionService';
+
+type AnalysisOptions = Parameters<typeof analyzeBiasedLanguage>[1];
+
+export interface BatchPosting {
+    id: string;
+    name: string;
+    text: string;
+    // Set when the posting could not be read
+    error?: string;
+}
+
+export interface BatchAuditRow {
+    id: string;
+    name: string;
+    language: string;
+    score: number;
+    policyResult: 'Pass' | 'Fail' | '';
+    failedRules: string;
+    issueCount: number;
+    highSeverityCount: number;
+    topCategories: string;
+    genderCoding: string;
+    readingGrade: number;
+    wordCount: number;
+    status: 'ok' | 'error';
+    error: string;
+}
+
+// Field names and display names for exported audits
+const AUDIT_EXPORT_HEADERS: Record<string, string> = {
+    name: 'Posting',
+    language: 'Language',
+    score: 'Bias Score',
+    policyResult: 'Policy',
+    failedRules: 'Failed Rules',
+    issueCount: 'Issues',
+    highSeverityCount: 'High Severity',
+    topCategories: 'Top Categories',
+    genderCoding: 'Gender Coding',
+    readingGrade: 'Reading Grade',
+    wordCount: 'Words',
+    status: 'Status',
+    error: 'Error',
+};
+
+/**
+ * Reads job descriptions from uploaded files, one posting per file
+ */
+export const readPostingsFromFiles = async (files: File[]): Promise<BatchPosting[]> => {
+    const postings: BatchPosting[] = [];
+
+    for (let index = 0; index < files.length; index++) {
+        const file = files[index];
+        const id = `file-${index}-${file.name}`;
+
+        try {
+            const content = await file.arrayBuffer();
+            const extension = getFileExtension(file.name);
+            const text = extension === 'pdf'
+                ? await processPDF(content)
+                : extension === 'docx'
+                    ? await processDOCX(content)
+                    : await processText(content);
+
+            postings.push({ id, name: file.name, text });
+        } catch (error) {
+            postings.push({
+                id,
+                name: file.name,
+                text: '',
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    return postings;
+};
+
+/**
+ * Reads job descriptions from a spreadsheet, one posting per row
+ */
+export const readPostingsFromTable = (
+    table: CSVData,
+    textColumn: string,
+    nameColumn?: string
+): BatchPosting[] => {
+    return table.data
+        .map((row, index) => ({
+            id: `row-${index}`,
+            name: nameColumn && row[nameColumn] != null ? String(row[nameColumn]) : `Row ${index + 2}`,
+            text: row[textColumn] != null ? String(row[textColumn]) : '',
+        }))
+        .filter(posting => posting.text.trim() !== '');
+};
+
+/**
+ * Analyzes a single posting in the bias analysis worker
+ */
+export const analyzePostingInWorker = (text: string, options: AnalysisOptions = {}): Promise<BiasAnalysisResult> => {
+    return WorkerService.executeTask<{ action: string, text: string, options: AnalysisOptions }, BiasAnalysisResult>(
+        'biasAnalysisWorker',
+        { action: 'analyze', text, options }
+    );
+};
+
+/**
+ * Summarizes an analysis as a row of the audit table
+ */
+export const createAuditRow = (posting: BatchPosting, analysis: BiasAnalysisResult): BatchAuditRow => {
+    const topCategories = (Object.entries(analysis.categoryScores) as [BiasCategory, number][])
+        .filter(([, score]) => score > 0)
+        .sort(([, scoreA], [, scoreB]) => scoreB - scoreA)
+        .slice(0, 2)
+        .map(([category]) => category);
+
+    return {
+        id: posting.id,
+        name: posting.name,
+        language: LANGUAGE_NAMES[analysis.language.language],
+        score: analysis.score,
+        policyResult: analysis.policy.passed ? 'Pass' : 'Fail',
+        failedRules: analysis.policy.failedRules.join('; '),
+        issueCount: analysis.biasedTerms.length,
+        highSeverityCount: analysis.biasedTerms.filter(term => term.severity === 'high').length,
+        topCategories: topCategories.join(', '),
+        genderCoding: analysis.genderCoding.verdict,
+        readingGrade: analysis.readability.fleschKincaidGrade,
+        wordCount: analysis.readability.wordCount,
+        status: 'ok',
+        error: '',
+    };
+};
+
+const createErrorRow = (posting: BatchPosting, error: string): BatchAuditRow => ({
+    id: posting.id,
+    name: posting.name,
+    language: '',
+    score: 0,
+    policyResult: '',
+    failedRules: '',
+    issueCount: 0,
+    highSeverityCount: 0,
+    topCategories: '',
+    genderCoding: '',
+    readingGrade: 0,
+    wordCount: 0,
+    status: 'error',
+    error,
+});
+
+/**
+ * Runs the audit over all postings. Postings are analyzed one at a time because the
+ * worker handles a single task at a time.
+ */
+export const runBatchAudit = async (
+    postings: BatchPosting[],
+    options: AnalysisOptions = {},
+    onProgress?: (completed: number, total: number) => void
+): Promise<BatchAuditRow[]> => {
+    const rows: BatchAuditRow[] = [];
+
+    for (const posting of postings) {
+        if (posting.error) {
+            rows.push(createErrorRow(posting, posting.error));
+        } else {
+            try {
+                const analysis = await analyzePostingInWorker(posting.text, options);
+                rows.push(createAuditRow(posting, analysis));
+            } catch (error) {
+                console.error(`Error analyzing ${posting.name}:`, error);
+                rows.push(createErrorRow(posting, error instanceof Error ? error.message : String(error)));
+            }
+        }
+
+        onProgress?.(rows.length, postings.length);
+    }
+
+    return rows;
+};
+
+/**
+ * Exports the audit table as CSV or Excel
+ */
+export const exportBatchAudit = (rows: BatchAuditRow[], format: 'csv' | 'xlsx'): void => {
+    const filename = `jd-audit-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'csv') {
+        exportToCSV(rows, { filename, headers: AUDIT_EXPORT_HEADERS });
+    } else {
+        exportToExcel(rows, { filename, sheetName: 'Audit', headers: AUDIT_EXPORT_HEADERS });
+    }
+};
+
+export default {
+    readPostingsFromFiles,
+    readPostingsFromTable,
+    analyzePostingInWorker,
+    createAuditRow,
+    runBatchAudit,
+    exportBatchAudit,
+};
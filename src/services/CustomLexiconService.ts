@@ -0,0 +1,134 @@
+/**
+ * Service for managing the organization's custom bias lexicon
+ */
+import { BiasCategory, CustomLexiconEntry, SeverityLevel } from './AnalyzeBiasedLanguage';
+import { exportToJSON } from './ExportService';
+
+export const BIAS_CATEGORIES: BiasCategory[] = ['gender', 'age', 'race', 'ability', 'socioeconomic', 'appearance', 'other'];
+export const SEVERITY_LEVELS: SeverityLevel[] = ['high', 'medium', 'low'];
+
+// Version of the exported lexicon file format
+const LEXICON_FILE_VERSION = 1;
+
+/**
+ * Create a new lexicon entry with a unique ID
+ */
+export const createLexiconEntry = (entry: Omit<CustomLexiconEntry, 'id'>): CustomLexiconEntry => ({
+    ...entry,
+    id: `lexicon-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+});
+
+/**
+ * Check that a regex lexicon pattern compiles
+ */
+export const isValidLexiconPattern = (term: string, isRegex: boolean): boolean => {
+    if (!term.trim()) return false;
+    if (!isRegex) return true;
+
+    try {
+        new RegExp(term, 'gi');
+        return true;
+    } catch (error) {
+        return false;
+    }
+};
+
+const isBiasCategory = (value: unknown): value is BiasCategory =>
+    typeof value === 'string' && (BIAS_CATEGORIES as string[]).indexOf(value) !== -1;
+
+const isSeverityLevel = (value: unknown): value is SeverityLevel =>
+    typeof value === 'string' && (SEVERITY_LEVELS as string[]).indexOf(value) !== -1;
+
+/**
+ * Validate and normalize a single raw entry from an imported file
+ */
+const normalizeLexiconEntry = (value: unknown, position: number): CustomLexiconEntry => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Entry ${position} is not an object`);
+    }
+
+    const raw = value as Record<string, unknown>;
+    const term = typeof raw.term === 'string' ? raw.term.trim() : '';
+    const isRegex = raw.isRegex === true;
+
+    if (!isValidLexiconPattern(term, isRegex)) {
+        throw new Error(`Entry ${position} has an empty or invalid term`);
+    }
+    const { category, severity } = raw;
+    if (!isBiasCategory(category)) {
+        throw new Error(`Entry ${position} has an unknown category "${String(category)}"`);
+    }
+    if (!isSeverityLevel(severity)) {
+        throw new Error(`Entry ${position} has an unknown severity "${String(severity)}"`);
+    }
+
+    const entry = {
+        term,
+        isRegex,
+        category,
+        severity,
+        alternatives: Array.isArray(raw.alternatives)
+            ? raw.alternatives.filter((alt: unknown): alt is string => typeof alt === 'string' && alt.trim() !== '')
+            : [],
+        rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+    };
+
+    return typeof raw.id === 'string' && raw.id ? { ...entry, id: raw.id } : createLexiconEntry(entry);
+};
+
+/**
+ * Parse a lexicon JSON file. Accepts either the exported wrapper or a bare array of entries.
+ */
+export const parseLexiconJSON = (json: string): CustomLexiconEntry[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error('Lexicon file is not valid JSON');
+    }
+
+    const entries: unknown = Array.isArray(data)
+        ? data
+        : data && typeof data === 'object' ? (data as { entries?: unknown }).entries : undefined;
+    if (!Array.isArray(entries)) {
+        throw new Error('Lexicon file must contain an array of entries');
+    }
+
+    return entries.map((entry, index) => normalizeLexiconEntry(entry, index + 1));
+};
+
+/**
+ * Merge imported entries into an existing lexicon. Imported entries replace
+ * existing ones with the same term so a shared team file stays authoritative.
+ */
+export const mergeLexicons = (
+    existing: CustomLexiconEntry[],
+    imported: CustomLexiconEntry[]
+): CustomLexiconEntry[] => {
+    const keyOf = (entry: CustomLexiconEntry) => `${entry.isRegex ? 're' : 'term'}:${entry.term.toLowerCase()}`;
+    const importedKeys = new Set(imported.map(keyOf));
+
+    return [...existing.filter(entry => !importedKeys.has(keyOf(entry))), ...imported];
+};
+
+/**
+ * Download the lexicon as a JSON file that can be shared with the team
+ */
+export const exportLexicon = (lexicon: CustomLexiconEntry[], filename: string = 'bias-lexicon.json'): void => {
+    exportToJSON(
+        {
+            version: LEXICON_FILE_VERSION,
+            exportDate: new Date().toISOString(),
+            entries: lexicon,
+        },
+        { filename, pretty: true }
+    );
+};
+
+export default {
+    createLexiconEntry,
+    isValidLexiconPattern,
+    parseLexiconJSON,
+    mergeLexicons,
+    exportLexicon,
+};
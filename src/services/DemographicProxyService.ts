@@ -0,0 +1,178 @@
+/**
+ * Service for detecting details that reveal a candidate's age, gender, nationality,
+ * family status or religion without naming them directly
+ */
+import type { PersonalIdentifier } from './AnalysisService';
+
+// Headings that start the education section, and headings that end it
+const EDUCATION_HEADING_PATTERN = /^\s*(?:education|academic background|academic history|education and training)\s*:?\s*$/i;
+const SECTION_HEADING_PATTERN = /^\s*(?:experience|work experience|professional experience|employment|employment history|skills|technical skills|projects|certifications|awards|publications|interests|volunteering|volunteer experience|references|languages|summary|profile)\s*:?\s*$/i;
+
+// Lines outside the education section that still give away a graduation year
+const GRADUATION_CONTEXT_PATTERN = /\b(?:graduat\w*|class of|alumn\w*|b\.?sc?|b\.?a|m\.?sc?|m\.?a|mba|ph\.?d|bachelor\w*|master\w*|degree|diploma|high school|university|college)\b/i;
+
+const YEAR_PATTERN = /\b(?:19[5-9]\d|20[0-4]\d)\b/g;
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE = `(?:\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{4}-\\d{1,2}-\\d{1,2}|${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}\\.?,?\\s+\\d{4})`;
+const BIRTH_DATE_PATTERN = new RegExp(`\\b(?:date of birth|d\\.?o\\.?b\\.?|born(?: on)?)\\s*:?\\s*(${DATE})`, 'gi');
+
+const AGE_LABEL_PATTERN = /\bage\s*:\s*(\d{2})\b/gi;
+const AGE_PHRASE_PATTERN = /\b\d{2}[\s-](?:years?|yrs?)[\s-]old\b|\b\d{2}\s*y\/o\b/gi;
+
+const PRONOUN_PATTERN = /\(?\b(?:she\/her(?:\/hers)?|he\/him(?:\/his)?|they\/them(?:\/theirs)?|she\/they|he\/they|ze\/(?:hir|zir)(?:\/(?:hirs|zirs))?|xe\/xem(?:\/xyrs)?)\b\)?/gi;
+const PRONOUN_LABEL_PATTERN = /\bpronouns\s*:\s*([^\n|;,]+)/gi;
+
+const NATIONALITY_LABEL_PATTERN = /\b(?:nationality|citizenship|visa status|work authori[sz]ation|immigration status)\s*:\s*([^\n|;]+)/gi;
+const NATIONALITY_PHRASE_PATTERN = /\b(?:[A-Z][A-Za-z.]+\s+(?:citizen|national)(?:ship)?|citizen of (?:the\s+)?[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*|(?:permanent resident|green card holder|green card)|(?:requires?|need(?:s)?|without|no)\s+(?:visa\s+)?sponsorship|(?:H-?1B|L-?1|F-?1|OPT|Tier\s?2|Blue Card)\s+(?:visa|holder|status)|work permit)\b/g;
+
+const MARITAL_LABEL_PATTERN = /\b(?:marital status|family status)\s*:\s*([^\n|;,]+)/gi;
+const MARITAL_PHRASE_PATTERN = /\b(?:(?:happily\s+)?(?:married|divorced|widowed)(?:\s+with\s+(?:\w+\s+)?(?:children|kids|child))?|(?:mother|father|parent)\s+of\s+(?:one|two|three|four|five|\d+)(?:\s+(?:children|kids))?)\b/gi;
+
+// Words that mark an organization as religious or gender-identifying
+const AFFILIATION_KEYWORDS = new Set([
+    // Religious
+    'church', 'christian', 'christians', 'catholic', 'baptist', 'methodist', 'lutheran', 'presbyterian', 'evangelical',
+    'bible', 'ministry', 'ministries', 'chapel', 'parish', 'mosque', 'islamic', 'muslim', 'muslims', 'jewish',
+    'hillel', 'synagogue', 'chabad', 'hindu', 'sikh', 'buddhist', 'temple', 'mormon', 'lds', 'quaker', 'ymca', 'ywca',
+    // Gender-identifying
+    'women', 'woman', 'womens', 'girls', 'girl', 'ladies', 'female', 'men', 'mens', 'sorority', 'fraternity',
+    'brotherhood', 'sisterhood', 'lgbt', 'lgbtq', 'lgbtq+', 'lgbtqia+', 'queer', 'gay', 'lesbian', 'transgender',
+    'pride', 'scouts', 'scout',
+]);
+
+// Lowercase words allowed inside an organization name, e.g. "Fellowship of Christian Athletes", "Women in Tech"
+const AFFILIATION_CONNECTORS = new Set(['of', 'in', 'for', '&']);
+
+// Capitalized words that describe the candidate's role rather than the organization
+const AFFILIATION_ROLE_WORDS = new Set([
+    'member', 'president', 'vice', 'treasurer', 'secretary', 'volunteer', 'mentor', 'founder', 'co-founder', 'captain',
+    'leader', 'organizer', 'chair', 'officer', 'coordinator', 'active', 'former',
+]);
+
+const normalizeAffiliationWord = (word: string): string => word.toLowerCase().replace(/['’]s$|['’]$/, '').replace(/[.,:;()]+$/g, '');
+
+const isCapitalized = (word: string): boolean => /^[A-Z0-9]/.test(word);
+
+/**
+ * Adds every match of a pattern, using the first capture group as the value when present
+ */
+const collectMatches = (text: string, pattern: RegExp, type: string, identifiers: PersonalIdentifier[]) => {
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+        const value = (match[1] || match[0]).trim();
+        if (!value) continue;
+        identifiers.push({
+            type, value, index: match.index + match[0].lastIndexOf(value),
+        });
+    }
+};
+
+/**
+ * Finds years in the education section and on lines about degrees or graduation
+ */
+const findGraduationYears = (text: string): PersonalIdentifier[] => {
+    const identifiers: PersonalIdentifier[] = [];
+    let inEducation = false;
+    let lineStart = 0;
+
+    text.split('\n').forEach(line => {
+        if (EDUCATION_HEADING_PATTERN.test(line)) inEducation = true;
+        else if (SECTION_HEADING_PATTERN.test(line)) inEducation = false;
+
+        if (inEducation || GRADUATION_CONTEXT_PATTERN.test(line)) {
+            YEAR_PATTERN.lastIndex = 0;
+            let match;
+            while ((match = YEAR_PATTERN.exec(line)) !== null) {
+                identifiers.push({
+                    type: 'year', value: match[0], index: lineStart + match.index,
+                });
+            }
+        }
+
+        lineStart += line.length + 1;
+    });
+
+    return identifiers;
+};
+
+/**
+ * Finds organization names such as "Society of Women Engineers" or "Campus Christian Fellowship"
+ * by widening each capitalized keyword to the surrounding capitalized words on the same line
+ */
+const findAffiliations = (text: string): PersonalIdentifier[] => {
+    const identifiers: PersonalIdentifier[] = [];
+    const wordPattern = /[^\s,;:|()]+/g;
+    let lineStart = 0;
+
+    text.split('\n').forEach(line => {
+        const words: { value: string; index: number }[] = [];
+        let match;
+        wordPattern.lastIndex = 0;
+        while ((match = wordPattern.exec(line)) !== null) {
+            words.push({ value: match[0], index: match.index });
+        }
+
+        let lastEnd = -1;
+        words.forEach((word, position) => {
+            if (word.index < lastEnd) return;
+            if (!isCapitalized(word.value) || !AFFILIATION_KEYWORDS.has(normalizeAffiliationWord(word.value))) return;
+
+            let start = position;
+            let end = position;
+            const joins = (a: number, b: number) => line.substring(words[a].index + words[a].value.length, words[b].index).trim() === '';
+            const canExtend = (i: number) => !AFFILIATION_ROLE_WORDS.has(words[i].value.toLowerCase())
+                && (isCapitalized(words[i].value) || AFFILIATION_CONNECTORS.has(words[i].value.toLowerCase()));
+
+            while (start > 0 && joins(start - 1, start) && canExtend(start - 1)) start--;
+            while (end < words.length - 1 && joins(end, end + 1) && canExtend(end + 1)) end++;
+
+            // Connectors only belong to the name when they sit between capitalized words
+            while (start < position && !isCapitalized(words[start].value)) start++;
+            while (end > position && !isCapitalized(words[end].value)) end--;
+
+            const from = words[start].index;
+            const to = words[end].index + words[end].value.replace(/[.]+$/, '').length;
+            identifiers.push({
+                type: 'affiliation', value: line.substring(from, to), index: lineStart + from,
+            });
+            lastEnd = to;
+        });
+
+        lineStart += line.length + 1;
+    });
+
+    return identifiers;
+};
+
+/**
+ * Detect demographic proxies: graduation years, dates of birth, age, pronouns,
+ * nationality or visa status, marital status and religious or gender-identifying affiliations
+ */
+export const detectDemographicProxies = (text: string): PersonalIdentifier[] => {
+    const identifiers: PersonalIdentifier[] = [];
+
+    identifiers.push(...findGraduationYears(text));
+
+    collectMatches(text, BIRTH_DATE_PATTERN, 'birthdate', identifiers);
+    collectMatches(text, AGE_LABEL_PATTERN, 'age', identifiers);
+    collectMatches(text, AGE_PHRASE_PATTERN, 'age', identifiers);
+
+    collectMatches(text, PRONOUN_LABEL_PATTERN, 'pronouns', identifiers);
+    collectMatches(text, PRONOUN_PATTERN, 'pronouns', identifiers);
+
+    collectMatches(text, NATIONALITY_LABEL_PATTERN, 'nationality', identifiers);
+    collectMatches(text, NATIONALITY_PHRASE_PATTERN, 'nationality', identifiers);
+
+    collectMatches(text, MARITAL_LABEL_PATTERN, 'marital', identifiers);
+    collectMatches(text, MARITAL_PHRASE_PATTERN, 'marital', identifiers);
+
+    identifiers.push(...findAffiliations(text));
+
+    return identifiers;
+};
+
+export default {
+    detectDemographicProxies,
+};
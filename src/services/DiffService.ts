@@ -0,0 +1,151 @@
+/**
+ * Service for computing word-level differences between two versions of a text
+ */
+
+export interface DiffChange {
+    id: number;
+    removed: string;
+    added: string;
+}
+
+export type DiffPart =
+    | { type: 'equal'; text: string }
+    | { type: 'change'; change: DiffChange };
+
+/**
+ * Split text into word and whitespace tokens so that joining them restores the text
+ */
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token !== '');
+
+/**
+ * Longest-common-subsequence table over tokens, stored as a flat array
+ */
+const buildLCSTable = (a: string[], b: string[]): Uint32Array => {
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i * width + j] = a[i] === b[j]
+                ? table[(i + 1) * width + j + 1] + 1
+                : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+        }
+    }
+
+    return table;
+};
+
+/**
+ * Compute a word-level diff. Adjacent removals and additions are grouped into a single change.
+ */
+export const diffWords = (original: string, improved: string): DiffPart[] => {
+    const a = tokenize(original);
+    const b = tokenize(improved);
+
+    // Trim the common prefix and suffix to keep the LCS table small
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    const table = buildLCSTable(middleA, middleB);
+    const width = middleB.length + 1;
+
+    const parts: DiffPart[] = [];
+    let nextId = 0;
+
+    const pushEqual = (text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === 'equal') last.text += text;
+        else parts.push({ type: 'equal', text });
+    };
+
+    const pushChange = (removed: string, added: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === 'change') {
+            last.change.removed += removed;
+            last.change.added += added;
+        } else {
+            parts.push({ type: 'change', change: { id: nextId++, removed, added } });
+        }
+    };
+
+    pushEqual(a.slice(0, prefix).join(''));
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+        if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+            pushEqual(middleA[i]);
+            i++;
+            j++;
+        } else if (j < middleB.length && (i === middleA.length || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+            pushChange('', middleB[j]);
+            j++;
+        } else {
+            pushChange(middleA[i], '');
+            i++;
+        }
+    }
+
+    pushEqual(a.slice(a.length - suffix).join(''));
+
+    return parts.filter(part => part.type === 'change' || part.text !== '');
+};
+
+/**
+ * Rebuild the improved text with one change reverted to the original wording
+ */
+export const revertChange = (parts: DiffPart[], changeId: number): string => {
+    return parts.map(part => {
+        if (part.type === 'equal') return part.text;
+        return part.change.id === changeId ? part.change.removed : part.change.added;
+    }).join('');
+};
+
+const escapeHTML = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Render a diff as HTML, either inline or as two side-by-side columns
+ */
+export const diffToHTML = (parts: DiffPart[], mode: 'inline' | 'split' = 'inline'): string => {
+    const del = (text: string) => text ? `<del style="background:#fee2e2;color:#991b1b;">${escapeHTML(text)}</del>` : '';
+    const ins = (text: string) => text ? `<ins style="background:#dcfce7;color:#166534;text-decoration:none;">${escapeHTML(text)}</ins>` : '';
+    const block = (html: string) => `<div style="white-space:pre-wrap;">${html}</div>`;
+
+    if (mode === 'inline') {
+        return block(parts.map(part => part.type === 'equal'
+            ? escapeHTML(part.text)
+            : del(part.change.removed) + ins(part.change.added)
+        ).join(''));
+    }
+
+    const original = parts.map(part => part.type === 'equal' ? escapeHTML(part.text) : del(part.change.removed)).join('');
+    const improved = parts.map(part => part.type === 'equal' ? escapeHTML(part.text) : ins(part.change.added)).join('');
+
+    return `<table><thead><tr><th>Original</th><th>Improved</th></tr></thead>` +
+        `<tbody><tr><td style="vertical-align:top;">${block(original)}</td>` +
+        `<td style="vertical-align:top;">${block(improved)}</td></tr></tbody></table>`;
+};
+
+/**
+ * Count the changes in a diff
+ */
+export const countChanges = (parts: DiffPart[]): number => parts.filter(part => part.type === 'change').length;
+
+export default {
+    diffWords,
+    revertChange,
+    diffToHTML,
+    countChanges,
+};
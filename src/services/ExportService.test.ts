@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { createTextPDF } from './ExportService';
+
+const toBytes = (pdf: string): Uint8Array => {
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Text of each page as read back by pdf.js, one string per line
+const readPages = async (pdf: string): Promise<string[][]> => {
+  const document = await getDocument({ data: toBytes(pdf), verbosity: 0 }).promise;
+  const pages: string[][] = [];
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const page = await document.getPage(pageNumber);
+    const { items } = await page.getTextContent();
+
+    // pdf.js may split a line into several items, so join the items that share a baseline
+    const lines: { y: number; text: string }[] = [];
+    items.forEach(item => {
+      if (!('str' in item)) return;
+      const y = item.transform[5];
+      const line = lines.find(existing => Math.abs(existing.y - y) < 1);
+      if (line) {
+        line.text += item.str;
+      } else {
+        lines.push({ y, text: item.str });
+      }
+    });
+    pages.push(lines.map(line => line.text).filter(text => text.length > 0));
+  }
+  await document.destroy();
+  return pages;
+};
+
+describe('createTextPDF', () => {
+  it('writes a cross-reference table that points at each object', () => {
+    const pdf = createTextPDF('Line one\nLine two', 'Audit report');
+
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)![1]);
+    expect(pdf.substring(startxref, startxref + 5)).toBe('xref\n');
+
+    const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(pdf.substring(startxref))!;
+    expect(Number(first)).toBe(0);
+    const entries = pdf.substring(startxref).split('\n').slice(3, 2 + Number(count));
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.substring(0, 10));
+      expect(pdf.substring(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+
+    // Stream lengths match the bytes between the stream keywords
+    const streamPattern = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g;
+    let match;
+    while ((match = streamPattern.exec(pdf)) !== null) {
+      expect(match[2].length).toBe(Number(match[1]));
+    }
+  });
+
+  it('round-trips text, title and escaped characters through a PDF reader', async () => {
+    const pages = await readPages(createTextPDF('Name: [NAME]\nSalary (USD) \\ bonus\nCafé', 'Audit report'));
+
+    expect(pages).toEqual([['Audit report', 'Name: [NAME]', 'Salary (USD) \\ bonus', 'Café']]);
+  });
+
+  it('wraps long lines and continues onto new pages', async () => {
+    const lines = Array.from({ length: 120 }, (_, index) => `Line ${index + 1}`);
+    const longLine = 'x'.repeat(150);
+    const pages = await readPages(createTextPDF([longLine, ...lines].join('\n'), ''));
+
+    expect(pages.length).toBe(3);
+    const text = pages.reduce((all, page) => all.concat(page), [] as string[]);
+    expect(text.slice(0, 2).join('')).toBe(longLine);
+    expect(text.slice(2)).toEqual(lines);
+  });
+});
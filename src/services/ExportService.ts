@@ -1,5 +1,12 @@
 import * as Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { createZipStream, ZipEntry } from './ZipService';
+
+// File System Access API, available in Chromium browsers
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<{ createWritable: () => Promise<WritableStream<Uint8Array>> }>;
 
 /**
  * Export data to a downloadable CSV file
@@ -132,6 +139,56 @@ export const exportToJSON = (
   downloadFile(jsonContent, filename, 'application/json');
 };
 
+/**
+ * Wrap HTML content in a complete document with basic styles
+ */
+export const createHTMLDocument = (content: string, title: string): string => {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          line-height: 1.6;
+          margin: 20px;
+          color: #333;
+        }
+        h1, h2, h3, h4, h5, h6 {
+          margin-top: 1.5em;
+          margin-bottom: 0.5em;
+        }
+        p {
+          margin-bottom: 1em;
+        }
+        table {
+          border-collapse: collapse;
+          width: 100%;
+          margin-bottom: 1em;
+        }
+        th, td {
+          border: 1px solid #ddd;
+          padding: 8px;
+          text-align: left;
+        }
+        th {
+          background-color: #f2f2f2;
+        }
+        tr:nth-child(even) {
+          background-color: #f9f9f9;
+        }
+      </style>
+    </head>
+    <body>
+      ${content}
+    </body>
+    </html>
+    `;
+};
+
 /**
  * Export HTML content to a downloadable HTML file
  */
@@ -145,61 +202,169 @@ export const exportToHTML = (
   const { filename = 'export.html', includeBasicStyles = true } = options;
   
   // Add basic styling if requested
-  let finalContent = content;
-  
-  if (includeBasicStyles) {
-    finalContent = `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${filename}</title>
-        <style>
-          body {
-            font-family: Arial, sans-serif;
-            line-height: 1.6;
-            margin: 20px;
-            color: #333;
-          }
-          h1, h2, h3, h4, h5, h6 {
-            margin-top: 1.5em;
-            margin-bottom: 0.5em;
-          }
-          p {
-            margin-bottom: 1em;
-          }
-          table {
-            border-collapse: collapse;
-            width: 100%;
-            margin-bottom: 1em;
-          }
-          th, td {
-            border: 1px solid #ddd;
-            padding: 8px;
-            text-align: left;
-          }
-          th {
-            background-color: #f2f2f2;
-          }
-          tr:nth-child(even) {
-            background-color: #f9f9f9;
-          }
-        </style>
-      </head>
-      <body>
-        ${content}
-      </body>
-      </html>
-    `;
-  }
+  const finalContent = includeBasicStyles ? createHTMLDocument(content, filename) : content;
   
   // Create blob and trigger download
   downloadFile(finalContent, filename, 'text/html');
 };
 
+/**
+ * Export files as a downloadable ZIP archive. Where the browser supports it the archive is
+ * streamed straight to the chosen file; otherwise it is collected into a blob first.
+ * Resolves to false if the user cancels the save dialog.
+ */
+export const exportToZip = async (
+  entries: ZipEntry[],
+  options: {
+    filename?: string;
+  } = {}
+): Promise<boolean> => {
+  const { filename = 'export.zip' } = options;
+
+  const fileSystemWindow = window as unknown as { showSaveFilePicker?: SaveFilePicker };
+  if (fileSystemWindow.showSaveFilePicker) {
+    try {
+      const handle = await fileSystemWindow.showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+      });
+      await createZipStream(entries).pipeTo(await handle.createWritable());
+      return true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return false;
+      // The picker is refused once the click that started the export has expired; download instead
+      if (!(error instanceof DOMException && error.name === 'SecurityError')) throw error;
+    }
+  }
+
+  const blob = await new Response(createZipStream(entries), {
+    headers: { 'Content-Type': 'application/zip' },
+  }).blob();
+  downloadBlob(blob, filename);
+  return true;
+};
+
+/**
+ * Export plain text to a downloadable PDF file. The text is set in a fixed-width font, so
+ * column layouts made with spaces are kept, and long lines are wrapped across pages.
+ */
+export const exportToPDF = (
+  content: string,
+  options: {
+    filename?: string;
+    title?: string;
+  } = {}
+): void => {
+  const { filename = 'export.pdf', title = '' } = options;
+
+  const blob = new Blob([createTextPDF(content, title)], { type: 'application/pdf' });
+  downloadBlob(blob, filename);
+};
+
 /* Helper Functions */
 
+// US Letter page, in points
+const PDF_PAGE_WIDTH = 612;
+const PDF_PAGE_HEIGHT = 792;
+const PDF_MARGIN = 50;
+const PDF_FONT_SIZE = 9;
+const PDF_LINE_HEIGHT = 12;
+const PDF_TITLE_SIZE = 14;
+
+/**
+ * Escape text for a PDF string. Characters outside Latin-1 are replaced, as the standard fonts
+ * only cover WinAnsi.
+ */
+const escapePDFText = (text: string): string => {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const character = text[i];
+    if (character === '\\' || character === '(' || character === ')') {
+      result += `\\${character}`;
+    } else if (code >= 32 && code < 127) {
+      result += character;
+    } else if (code >= 160 && code < 256) {
+      result += `\\${code.toString(8)}`;
+    } else {
+      result += code === 9 ? ' ' : '?';
+    }
+  }
+  return result;
+};
+
+/**
+ * Build a PDF document from plain text in Courier, with an optional bold title on the first page
+ */
+export const createTextPDF = (content: string, title: string): string => {
+  const charactersPerLine = Math.floor((PDF_PAGE_WIDTH - PDF_MARGIN * 2) / (PDF_FONT_SIZE * 0.6));
+  const lines: string[] = [];
+  content.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (line.length === 0) {
+      lines.push('');
+      return;
+    }
+    for (let start = 0; start < line.length; start += charactersPerLine) {
+      lines.push(line.substring(start, start + charactersPerLine));
+    }
+  });
+
+  const linesPerPage = Math.floor((PDF_PAGE_HEIGHT - PDF_MARGIN * 2) / PDF_LINE_HEIGHT);
+  const titleLines = title ? 2 : 0;
+  const pages: string[][] = [];
+  let pageLines: string[] = [];
+  lines.forEach(line => {
+    const capacity = pages.length === 0 ? linesPerPage - titleLines : linesPerPage;
+    if (pageLines.length >= capacity) {
+      pages.push(pageLines);
+      pageLines = [];
+    }
+    pageLines.push(line);
+  });
+  pages.push(pageLines);
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and a content object
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((page, index) => {
+    let y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+    let stream = '';
+    if (index === 0 && title) {
+      stream += `BT /F2 ${PDF_TITLE_SIZE} Tf ${PDF_MARGIN} ${y - PDF_TITLE_SIZE} Td (${escapePDFText(title)}) Tj ET\n`;
+      y -= titleLines * PDF_LINE_HEIGHT;
+    }
+    stream += `BT /F1 ${PDF_FONT_SIZE} Tf ${PDF_LINE_HEIGHT} TL ${PDF_MARGIN} ${y - PDF_FONT_SIZE} Td\n`;
+    stream += page.map(line => `(${escapePDFText(line)}) Tj T*`).join('\n');
+    stream += '\nET';
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything written is ASCII, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+};
+
 /**
  * Download a string as a file
  */
@@ -248,4 +413,8 @@ export default {
   exportToText,
   exportToJSON,
   exportToHTML,
+  createHTMLDocument,
+  exportToZip,
+  exportToPDF,
+  createTextPDF,
 };
@@ -90,8 +90,16 @@ export const processExcel = (content: ArrayBuffer): Promise<Record<string, CSVDa
  * Extract text from a PDF file using a Web Worker
  */
 import { WorkerService } from './WorkerService';
+import { splitSectionReplacements } from './AnalysisService';
+import { findScannedPages, getRecognizedPages, recognizePDF } from './OCRService';
+import type { OCRPage, OCRProgress } from './OCRService';
 
-export const processPDF = (content: ArrayBuffer): Promise<string> => {
+export interface ProcessFileOptions {
+    // Called while scanned PDF pages are read with OCR
+    onOCRProgress?: (progress: OCRProgress) => void;
+}
+
+export const processPDF = (content: ArrayBuffer, options: ProcessFileOptions = {}): Promise<string> => {
     return new Promise((resolve, reject) => {
         try {
             // Check if Workers are available in this environment
@@ -99,8 +107,11 @@ export const processPDF = (content: ArrayBuffer): Promise<string> => {
                 throw new Error('Web Workers are not supported in this environment');
             }
 
-            // Use WorkerService to handle the PDF processing
-            WorkerService.executeTask<{content: ArrayBuffer, action: string}, string>('pdfWorker', { content, action: 'extract' })
+            // Scanned pages have no text layer, so they are read with OCR instead
+            findScannedPages(content)
+                .then(scannedPages => scannedPages.length > 0
+                    ? recognizePDF(content, { pageNumbers: scannedPages, onProgress: options.onOCRProgress }).then(result => result.text)
+                    : WorkerService.executeTask<{content: ArrayBuffer, action: string}, string>('pdfWorker', { content, action: 'extract' }))
                 .then(result => {
                     console.log("Processing PDF", result);
                     resolve(result);
@@ -180,6 +191,68 @@ export const createPDFFromText = (text: string): Promise<ArrayBuffer> => {
     });
 };
 
+/**
+ * Extract text from a Word (.docx) file using a Web Worker. Paragraphs become lines,
+ * list items are bulleted and table cells are separated by " | ".
+ */
+export const processDOCX = (content: ArrayBuffer): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        try {
+            // Check if Workers are available in this environment
+            if (typeof Worker === 'undefined') {
+                throw new Error('Web Workers are not supported in this environment');
+            }
+
+            WorkerService.executeTask<{content: ArrayBuffer, action: string}, string>('docxWorker', { content, action: 'extract' })
+                .then(resolve)
+                .catch(error => {
+                    console.error('DOCX worker error:', error);
+                    reject(new Error('Error processing Word document: ' + error.message));
+                });
+        } catch (error) {
+            console.error('Error in processDOCX:', error);
+            reject(error instanceof Error ? error : new Error(String(error)));
+        }
+    });
+};
+
+/**
+ * Write a copy of a Word (.docx) file with each original value replaced, keeping its styling.
+ * Removed sections are replaced paragraph by paragraph. Values that could not be found, e.g.
+ * because they span paragraphs, are returned as unmatched,
+ * and embedded images, which are copied unchanged, are returned as images.
+ */
+export const anonymizeDOCX = (
+    content: ArrayBuffer,
+    replacements: { original: string; replacement: string; type?: string }[]
+): Promise<{ docx: ArrayBuffer; unmatched: string[]; images: string[] }> => {
+    return new Promise((resolve, reject) => {
+        try {
+            // Check if Workers are available in this environment
+            if (typeof Worker === 'undefined') {
+                throw new Error('Web Workers are not supported in this environment');
+            }
+
+            WorkerService.executeTask<
+                {content: ArrayBuffer, replacements: { original: string; replacement: string }[], action: string},
+                { docx: ArrayBuffer; unmatched: string[]; images: string[] }
+            >('docxWorker', {
+                content,
+                replacements: splitSectionReplacements(replacements).map(({ original, replacement }) => ({ original, replacement })),
+                action: 'anonymize'
+            })
+                .then(resolve)
+                .catch(error => {
+                    console.error('DOCX worker error:', error);
+                    reject(new Error('Error writing Word document: ' + error.message));
+                });
+        } catch (error) {
+            console.error('Error in anonymizeDOCX:', error);
+            reject(error instanceof Error ? error : new Error(String(error)));
+        }
+    });
+};
+
 /**
  * Process a text file
  */
@@ -205,7 +278,8 @@ export const getFileExtension = (fileName: string): string => {
  */
 export const processFile = async (
     content: string | ArrayBuffer,
-    fileName: string
+    fileName: string,
+    options: ProcessFileOptions = {}
 ): Promise<any> => {
     const extension = getFileExtension(fileName);
 
@@ -224,18 +298,33 @@ export const processFile = async (
             }
 
             try {
-                return await processPDF(content);
+                return await processPDF(content, options);
             } catch (error) {
                 console.error('PDF processing failed:', error);
                 // Provide a fallback message rather than throwing an error
                 return 'PDF processing failed. Please try a different file format or paste the content directly.';
             }
 
+        case 'docx':
+            if (typeof content === 'string') {
+                throw new Error('Word files must be processed as ArrayBuffer');
+            }
+            return processDOCX(content);
+        case 'doc':
+            // Some .doc files are really .docx, or HTML saved by tools that export "Word" files
+            if (typeof content !== 'string') {
+                const signature = new Uint8Array(content.slice(0, 4));
+                if (signature[0] === 0x50 && signature[1] === 0x4b) {
+                    return processDOCX(content);
+                }
+                if (signature[0] === 0xd0 && signature[1] === 0xcf && signature[2] === 0x11 && signature[3] === 0xe0) {
+                    throw new Error('Word 97-2003 (.doc) files are not supported. Save the file as .docx and try again.');
+                }
+            }
+            return processText(content);
         case 'txt':
         case 'json':
         case 'md':
-        case 'docx':
-        case 'doc':
             return processText(content);
         default:
             throw new Error(`Unsupported file type: ${extension}`);
@@ -270,9 +359,9 @@ export const searchPDF = (content: ArrayBuffer, searchText: string, options: PDF
             }
 
             // Use WorkerService to handle the PDF search
-            WorkerService.executeTask<{content: ArrayBuffer, searchText: string, options: PDFSearchOptions, action: string}, PDFSearchResult[]>(
+            WorkerService.executeTask<{content: ArrayBuffer, searchText: string, options: PDFSearchOptions, ocrPages?: OCRPage[], action: string}, PDFSearchResult[]>(
                 'pdfSearchWorker', 
-                { content, searchText, options, action: 'search' }
+                { content, searchText, options, ocrPages: getRecognizedPages(content), action: 'search' }
             )
                 .then(results => {
                     console.log("PDF search results", results);
@@ -293,6 +382,8 @@ export default {
     processCSV,
     processExcel,
     processPDF,
+    processDOCX,
+    anonymizeDOCX,
     processText,
     getFileExtension,
     processFile,
@@ -0,0 +1,76 @@
+/**
+ * Service for detecting the language of a job description
+ */
+
+export type SupportedLanguage = 'en' | 'es' | 'de' | 'fr';
+
+export interface LanguageDetectionResult {
+    language: SupportedLanguage;
+    // Share of recognized function words that belong to the detected language (0-1)
+    confidence: number;
+    // False when the language was chosen by the user instead of detected
+    detected: boolean;
+}
+
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+    en: 'English',
+    es: 'Spanish',
+    de: 'German',
+    fr: 'French',
+};
+
+// Frequent function words that rarely overlap between the supported languages
+const stopwords: Record<SupportedLanguage, Set<string>> = {
+    en: new Set([
+        'the', 'and', 'of', 'to', 'in', 'is', 'are', 'you', 'we', 'our', 'with', 'for', 'will', 'be',
+        'this', 'that', 'have', 'has', 'your', 'an', 'as', 'on', 'or', 'who', 'what', 'experience'
+    ]),
+    es: new Set([
+        'el', 'la', 'los', 'las', 'y', 'de', 'del', 'que', 'en', 'un', 'una', 'por', 'para', 'con',
+        'es', 'somos', 'nuestro', 'nuestra', 'buscamos', 'tu', 'su', 'se', 'al', 'como', 'experiencia'
+    ]),
+    de: new Set([
+        'der', 'die', 'das', 'und', 'ist', 'mit', 'für', 'wir', 'sie', 'du', 'ein', 'eine', 'einen',
+        'von', 'zu', 'im', 'auf', 'bei', 'unser', 'unsere', 'ihre', 'dein', 'deine', 'suchen', 'nicht', 'erfahrung'
+    ]),
+    fr: new Set([
+        'le', 'la', 'les', 'et', 'des', 'du', 'un', 'une', 'est', 'nous', 'vous', 'pour', 'avec',
+        'dans', 'sur', 'au', 'aux', 'notre', 'nos', 'votre', 'vos', 'qui', 'recherchons', 'poste', 'expérience'
+    ]),
+};
+
+// Fewer recognized words than this is too little evidence to move away from English
+const MIN_EVIDENCE = 3;
+
+/**
+ * Detects the language of the text from the frequency of common function words
+ */
+export const detectLanguage = (text: string): LanguageDetectionResult => {
+    const words = text.toLowerCase().match(new RegExp('\\p{L}+', 'gu')) || [];
+    const counts: Record<SupportedLanguage, number> = { en: 0, es: 0, de: 0, fr: 0 };
+
+    words.forEach(word => {
+        (Object.keys(stopwords) as SupportedLanguage[]).forEach(language => {
+            if (stopwords[language].has(word)) counts[language]++;
+        });
+    });
+
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const [language, count] = (Object.entries(counts) as [SupportedLanguage, number][])
+        .sort(([, countA], [, countB]) => countB - countA)[0];
+
+    if (count < MIN_EVIDENCE) {
+        return { language: 'en', confidence: 0, detected: true };
+    }
+
+    return {
+        language,
+        confidence: Math.round((count / total) * 100) / 100,
+        detected: true,
+    };
+};
+
+export default {
+    LANGUAGE_NAMES,
+    detectLanguage,
+};
@@ -0,0 +1,202 @@
+/**
+ * Per-language rule packs for bias analysis of non-English job descriptions
+ */
+
+import type { BiasCategory, BiasedTerm, SeverityLevel } from './AnalyzeBiasedLanguage';
+import { SupportedLanguage } from './LanguageDetectionService';
+
+/**
+ * A single phrase to flag. The pattern is a regular expression source that is matched
+ * case-insensitively and only on whole words.
+ */
+export interface LanguageRule {
+    id: string;
+    pattern: string;
+    category: BiasCategory;
+    severity: SeverityLevel;
+    alternatives: string[];
+    message: string;
+}
+
+/**
+ * A set of rules for one language, plus optional checks that need more than a pattern
+ */
+export interface LanguageRulePack {
+    language: SupportedLanguage;
+    rules: LanguageRule[];
+    checks?: ((text: string) => BiasedTerm[])[];
+}
+
+/**
+ * Builds a flagged term at the given position in the text
+ */
+const createTerm = (
+    text: string,
+    index: number,
+    term: string,
+    ruleId: string,
+    details: Pick<BiasedTerm, 'category' | 'severity' | 'alternatives' | 'context'>
+): BiasedTerm => {
+    const precedingText = text.substring(0, index);
+
+    return {
+        term,
+        index,
+        line: precedingText.split('\n').length,
+        column: index - precedingText.lastIndexOf('\n'),
+        ruleId,
+        source: 'language-pack',
+        ...details
+    };
+};
+
+/**
+ * Creates a check that flags the job title (the first line of the posting) when it has
+ * no gender marker such as "(m/w/d)"
+ */
+const createJobTitleCheck = (
+    language: SupportedLanguage,
+    markerPattern: RegExp,
+    marker: string,
+    message: string
+) => (text: string): BiasedTerm[] => {
+    const match = /^\s*(\S[^\n]*)/.exec(text);
+    if (!match) return [];
+
+    const title = match[1].trim();
+    const index = match.index + match[0].indexOf(title);
+
+    // Long lines and lines ending in punctuation are body text or headings rather than a title
+    if (title.length > 80 || /[.:!?]$/.test(title) || markerPattern.test(title)) return [];
+
+    return [createTerm(text, index, title, `${language}.job-title-gender-marker`, {
+        category: 'gender',
+        severity: 'high',
+        alternatives: [`${title} ${marker}`],
+        context: message
+    })];
+};
+
+// Matches gender-inclusive suffixes such as "*innen", ":innen", "_innen", "/-innen" and "Innen"
+const GERMAN_INCLUSIVE_SUFFIX = '(?![*:_/]-?innen|Innen)';
+
+const germanRulePack: LanguageRulePack = {
+    language: 'de',
+    rules: [
+        { id: 'mitarbeiter', pattern: `Mitarbeiter${GERMAN_INCLUSIVE_SUFFIX}`, category: 'gender', severity: 'medium', alternatives: ['Mitarbeitende', 'Mitarbeiter*innen'], message: 'Das generische Maskulinum spricht nicht alle Geschlechter an.' },
+        { id: 'bewerber', pattern: `Bewerber${GERMAN_INCLUSIVE_SUFFIX}`, category: 'gender', severity: 'medium', alternatives: ['Bewerbende', 'Bewerber*innen'], message: 'Das generische Maskulinum spricht nicht alle Geschlechter an.' },
+        { id: 'kollegen', pattern: `Kollegen${GERMAN_INCLUSIVE_SUFFIX}`, category: 'gender', severity: 'medium', alternatives: ['Kolleg*innen', 'Team'], message: 'Das generische Maskulinum spricht nicht alle Geschlechter an.' },
+        { id: 'ansprechpartner', pattern: `Ansprechpartner${GERMAN_INCLUSIVE_SUFFIX}`, category: 'gender', severity: 'low', alternatives: ['Ansprechperson', 'Kontakt'], message: 'Eine neutrale Bezeichnung spricht alle Geschlechter an.' },
+        { id: 'fachmann', pattern: 'Fachmann|Fachmänner', category: 'gender', severity: 'high', alternatives: ['Fachkraft', 'Fachkräfte'], message: 'Die Bezeichnung schließt Frauen und nicht-binäre Personen aus.' },
+        { id: 'mannschaft', pattern: 'Mannschaft', category: 'gender', severity: 'low', alternatives: ['Team', 'Belegschaft'], message: 'Eine neutrale Bezeichnung spricht alle Geschlechter an.' },
+        { id: 'junges-team', pattern: 'jung(?:en|es)?\\s+(?:und\\s+dynamisch(?:en|es)?\\s+)?Team', category: 'age', severity: 'high', alternatives: ['motiviertes Team', 'engagiertes Team'], message: 'Hinweise auf das Alter können ältere Bewerbende abschrecken und gegen das AGG verstoßen.' },
+        { id: 'jung-dynamisch', pattern: 'jung\\s+und\\s+dynamisch', category: 'age', severity: 'high', alternatives: ['motiviert', 'engagiert'], message: 'Hinweise auf das Alter können ältere Bewerbende abschrecken und gegen das AGG verstoßen.' },
+        { id: 'berufseinsteiger', pattern: 'Berufseinsteiger(?:in)?', category: 'age', severity: 'low', alternatives: ['Personen mit erster Berufserfahrung'], message: 'Beschreiben Sie die benötigte Erfahrung statt einer Lebensphase.' },
+        { id: 'muttersprache', pattern: 'Muttersprache|Muttersprachler(?:in)?|muttersprachlich(?:e|en|es)?', category: 'race', severity: 'high', alternatives: ['verhandlungssichere Deutschkenntnisse', 'Deutsch auf C1-Niveau'], message: 'Die Herkunft einer Sprache ist kein Kompetenznachweis; beschreiben Sie das benötigte Sprachniveau.' },
+        { id: 'belastbar', pattern: 'belastbar', category: 'ability', severity: 'low', alternatives: ['behält auch in intensiven Phasen den Überblick'], message: 'Pauschale Belastbarkeit kann Menschen mit Behinderung oder chronischen Erkrankungen abschrecken.' },
+    ],
+    checks: [
+        createJobTitleCheck(
+            'de',
+            /\((?:[mwdfx]\s*\/\s*){2}[mwdfx]\)|\(all genders\)|\(gn\)|[*:_]in\b|\/-?in\b/i,
+            '(m/w/d)',
+            'Stellentitel ohne Geschlechterzusatz wie "(m/w/d)" sprechen nicht alle Geschlechter an und verstoßen gegen das AGG.'
+        ),
+    ],
+};
+
+const frenchRulePack: LanguageRulePack = {
+    language: 'fr',
+    rules: [
+        { id: 'candidats', pattern: 'candidats(?![·.-]es)', category: 'gender', severity: 'medium', alternatives: ['candidat·es', 'personnes candidates'], message: 'Le masculin générique ne s\'adresse pas à tout le monde.' },
+        { id: 'collaborateurs', pattern: 'collaborateurs(?!\\s+et\\s+collaboratrices|·rices)', category: 'gender', severity: 'medium', alternatives: ['collaborateurs et collaboratrices', 'équipes'], message: 'Le masculin générique ne s\'adresse pas à tout le monde.' },
+        { id: 'homme-de-terrain', pattern: 'homme\\s+de\\s+terrain', category: 'gender', severity: 'high', alternatives: ['personne de terrain'], message: 'Cette expression exclut les femmes et les personnes non binaires.' },
+        { id: 'jeune-dynamique', pattern: 'jeune\\s+et\\s+dynamique', category: 'age', severity: 'high', alternatives: ['motivé·e', 'dynamique'], message: 'Les références à l\'âge sont discriminatoires et peuvent décourager des profils expérimentés.' },
+        { id: 'equipe-jeune', pattern: '(?:jeune\\s+équipe|équipe\\s+jeune)', category: 'age', severity: 'high', alternatives: ['équipe motivée', 'équipe engagée'], message: 'Les références à l\'âge sont discriminatoires et peuvent décourager des profils expérimentés.' },
+        { id: 'jeune-diplome', pattern: 'jeunes?\\s+diplômée?s?', category: 'age', severity: 'medium', alternatives: ['récemment diplômé·e', 'profil débutant'], message: 'Décrivez le niveau d\'expérience plutôt que l\'âge.' },
+        { id: 'langue-maternelle', pattern: 'langue\\s+maternelle|natif|native', category: 'race', severity: 'high', alternatives: ['niveau C2', 'maîtrise courante'], message: 'Décrivez le niveau de langue attendu plutôt que l\'origine.' },
+        { id: 'bonne-presentation', pattern: 'bonne\\s+présentation', category: 'appearance', severity: 'medium', alternatives: ['sens du contact client'], message: 'L\'apparence physique n\'est pas un critère de recrutement légitime.' },
+    ],
+    checks: [
+        createJobTitleCheck(
+            'fr',
+            /\(?\b[hf]\s*\/\s*[hf]\b\)?|\(x\)|·e\b|\(e\)/i,
+            '(H/F)',
+            'Un intitulé de poste sans mention "(H/F)" ou écriture inclusive ne s\'adresse pas à tout le monde.'
+        ),
+    ],
+};
+
+const spanishRulePack: LanguageRulePack = {
+    language: 'es',
+    rules: [
+        { id: 'los-candidatos', pattern: 'los\\s+candidatos', category: 'gender', severity: 'medium', alternatives: ['las personas candidatas'], message: 'El masculino genérico no se dirige a todas las personas.' },
+        { id: 'el-candidato-ideal', pattern: 'el\\s+candidato\\s+ideal', category: 'gender', severity: 'medium', alternatives: ['la persona ideal', 'el perfil ideal'], message: 'El masculino genérico no se dirige a todas las personas.' },
+        { id: 'equipo-joven', pattern: 'equipo\\s+joven|joven\\s+y\\s+dinámic[oa]', category: 'age', severity: 'high', alternatives: ['equipo motivado', 'equipo dinámico'], message: 'Las referencias a la edad pueden ser discriminatorias.' },
+        { id: 'edad-maxima', pattern: '(?:menor|menores)\\s+de\\s+\\d+\\s+años', category: 'age', severity: 'high', alternatives: [], message: 'Los límites de edad son discriminatorios salvo requisito legal.' },
+        { id: 'buena-presencia', pattern: 'buena\\s+presencia', category: 'appearance', severity: 'high', alternatives: ['trato profesional con clientes'], message: 'La apariencia física no es un criterio de selección legítimo.' },
+        { id: 'nativo', pattern: 'nativ[oa]s?|lengua\\s+materna', category: 'race', severity: 'high', alternatives: ['nivel C2', 'dominio profesional'], message: 'Describa el nivel de idioma necesario en lugar del origen.' },
+    ],
+};
+
+const rulePacks = new Map<SupportedLanguage, LanguageRulePack>([
+    ['de', germanRulePack],
+    ['fr', frenchRulePack],
+    ['es', spanishRulePack],
+]);
+
+/**
+ * Registers a rule pack, replacing any existing pack for the same language
+ */
+export const registerLanguageRulePack = (pack: LanguageRulePack): void => {
+    rulePacks.set(pack.language, pack);
+};
+
+/**
+ * Gets the rule pack for a language, if one is registered
+ */
+export const getLanguageRulePack = (language: SupportedLanguage): LanguageRulePack | undefined => {
+    return rulePacks.get(language);
+};
+
+/**
+ * Analyzes text with a rule pack
+ */
+export const analyzeWithLanguageRulePack = (text: string, pack: LanguageRulePack): BiasedTerm[] => {
+    const results: BiasedTerm[] = [];
+
+    pack.rules.forEach(rule => {
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(`(?<!\\p{L})(?:${rule.pattern})(?!\\p{L})`, 'giu');
+        } catch (error) {
+            console.error(`Invalid pattern in ${pack.language} rule ${rule.id}:`, error);
+            return;
+        }
+
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+
+            results.push(createTerm(text, match.index, match[0], `${pack.language}.${rule.id}`, {
+                category: rule.category,
+                severity: rule.severity,
+                alternatives: rule.alternatives,
+                context: rule.message
+            }));
+        }
+    });
+
+    (pack.checks || []).forEach(check => results.push(...check(text)));
+
+    return results;
+};
+
+export default {
+    registerLanguageRulePack,
+    getLanguageRulePack,
+    analyzeWithLanguageRulePack,
+};
@@ -0,0 +1,269 @@
+/**
+ * Service for checking anonymized text for personal details that were left behind
+ */
+import {
+    analyzePersonalIdentifiers,
+    AnonymizationOptions,
+    AnonymizationReplacement,
+    EMPTY_REDACTION_OVERRIDES,
+    isIdentifierTypeReplaced,
+    RedactionOverrides,
+} from './AnalysisService';
+
+// How a leak was found: a replaced value found again as written or in another case, part of a
+// replaced value such as a surname inside an email handle, a new detection in the output, or a
+// replaced value the PDF or Word export could not find in the uploaded file
+export type LeakKind = 'exact' | 'case-folded' | 'partial' | 'detector' | 'unlocated';
+
+// Uploaded file formats that are exported with their own layout rather than from the text
+export type ExportFileFormat = 'pdf' | 'docx';
+
+export interface AnonymizationLeak {
+    // Stable across re-anonymization, so a waiver still applies after settings change. Built from
+    // a hash of the value, so stored waivers never contain the personal detail itself.
+    id: string;
+    kind: LeakKind;
+    // Identifier type of the value that leaked
+    type: string;
+    // Text found in the anonymized output
+    value: string;
+    // Position in the anonymized text, or -1 for a value not found in an exported file
+    index: number;
+    // Format of the exported file, for leaks of kind 'unlocated'
+    file?: ExportFileFormat;
+}
+
+// Value types whose parts identify a person on their own
+const PARTIAL_MATCH_TYPES = ['name', 'email', 'social'];
+
+// Shorter parts only count as a leak when they stand alone as a word
+const MIN_PARTIAL_LENGTH = 3;
+const MIN_EMBEDDED_PARTIAL_LENGTH = 4;
+
+const KIND_PRIORITY: LeakKind[] = ['exact', 'case-folded', 'partial', 'detector'];
+
+/**
+ * Stable hex hash (32-bit FNV-1a) of a leaked value, for leak ids
+ */
+const hashLeakValue = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const isWordCharacter = (character: string | undefined): boolean => !!character && /[A-Za-z0-9]/.test(character);
+
+// Handles, addresses and links, where a name can appear inside a longer word
+const isHandleLike = (word: string): boolean => /[@/_.\d]/.test(word);
+
+/**
+ * Parts of a replaced value that still identify the person, e.g. "smith" from "Jane Smith" or
+ * "jsmith" from "jsmith@example.com"
+ */
+const getValueParts = (replacement: AnonymizationReplacement): string[] => {
+    const { type, original } = replacement;
+    let source = original;
+
+    if (type === 'email') {
+        source = original.split('@')[0];
+    } else if (type === 'social') {
+        const segments = original.replace(/[?#].*$/, '').split('/').filter(Boolean);
+        source = segments.length > 1 ? segments[segments.length - 1] : '';
+    }
+
+    const parts = source.split(/[^A-Za-zÀ-ɏ]+/);
+    if (type !== 'name') parts.push(source);
+
+    return parts
+        .map(part => part.toLowerCase())
+        .filter((part, index, all) => part.length >= MIN_PARTIAL_LENGTH && part !== original.toLowerCase() && all.indexOf(part) === index);
+};
+
+/**
+ * Re-scan anonymized text for personal details. The text is checked for the replaced values as
+ * written, in any case and in part, and is run through the detectors again. Details the settings,
+ * section rules or the user's restorations keep on purpose are not reported.
+ */
+export const verifyAnonymization = (
+    originalText: string,
+    anonymizedText: string,
+    replacements: AnonymizationReplacement[],
+    options: AnonymizationOptions = {}
+): AnonymizationLeak[] => {
+    const { organizationMappings = [], locales } = options;
+    const overrides: RedactionOverrides = options.redactionOverrides || EMPTY_REDACTION_OVERRIDES;
+    const restoredValues = overrides.restoredValues.map(value => value.toLowerCase());
+
+    // Placeholders in the anonymized text, and the shift from each one back to the original text
+    const placeholders: { start: number; end: number; shift: number }[] = [];
+    let shift = 0;
+    [...replacements].sort((a, b) => a.index - b.index).forEach(({ original, replacement, index }) => {
+        const start = index + shift;
+        shift += replacement.length - original.length;
+        placeholders.push({ start, end: start + replacement.length, shift });
+    });
+
+    const isInPlaceholder = (start: number, end: number): boolean =>
+        placeholders.some(placeholder => start < placeholder.end && end > placeholder.start);
+
+    const toOriginalIndex = (index: number): number => {
+        let offset = 0;
+        placeholders.forEach(placeholder => {
+            if (placeholder.end <= index) offset = placeholder.shift;
+        });
+        return index - offset;
+    };
+
+    // Details found in the original that were left in place on purpose
+    const replacedIndexes = replacements.map(replacement => replacement.index);
+    const keptRanges = analyzePersonalIdentifiers(originalText, { organizationMappings, redactionOverrides: overrides, locales })
+        .personalIdentifiers
+        .filter(identifier => replacedIndexes.indexOf(identifier.index) === -1)
+        .map(identifier => ({ start: identifier.index, end: identifier.index + identifier.value.length }));
+
+    const isKeptOnPurpose = (index: number, value: string): boolean => {
+        if (restoredValues.some(restored => restored.indexOf(value.toLowerCase()) !== -1)) return true;
+
+        const start = toOriginalIndex(index);
+        return keptRanges.some(range => start < range.end && start + value.length > range.start);
+    };
+
+    const leaks: AnonymizationLeak[] = [];
+    const addLeak = (kind: LeakKind, type: string, index: number, length: number) => {
+        const value = anonymizedText.substring(index, index + length);
+        if (isInPlaceholder(index, index + length) || isKeptOnPurpose(index, value)) return;
+
+        leaks.push({ id: `${kind}:${type}:${hashLeakValue(value.toLowerCase())}`, kind, type, value, index });
+    };
+
+    const foldedText = anonymizedText.toLowerCase();
+    const findAll = (needle: string, onMatch: (index: number) => void) => {
+        let index = foldedText.indexOf(needle);
+        while (index !== -1) {
+            onMatch(index);
+            index = foldedText.indexOf(needle, index + needle.length);
+        }
+    };
+
+    replacements.forEach(replacement => {
+        if (replacement.type === 'section') return;
+
+        // The replaced value itself, as written or in another case
+        const value = replacement.original.trim();
+        if (value.length >= 2) {
+            findAll(value.toLowerCase(), index => {
+                const kind = anonymizedText.substr(index, value.length) === value ? 'exact' : 'case-folded';
+                addLeak(kind, replacement.type, index, value.length);
+            });
+        }
+
+        // Parts of it, e.g. a surname inside an email handle or a username inside a link
+        if (PARTIAL_MATCH_TYPES.indexOf(replacement.type) !== -1) {
+            getValueParts(replacement).forEach(part => {
+                findAll(part, index => {
+                    const end = index + part.length;
+                    const isWholeWord = !isWordCharacter(anonymizedText[index - 1]) && !isWordCharacter(anonymizedText[end]);
+                    if (!isWholeWord) {
+                        const wordStart = anonymizedText.lastIndexOf(' ', index) + 1;
+                        const wordEnd = anonymizedText.slice(end).search(/\s/);
+                        const word = anonymizedText.substring(wordStart, wordEnd === -1 ? anonymizedText.length : end + wordEnd);
+                        if (part.length < MIN_EMBEDDED_PARTIAL_LENGTH || !isHandleLike(word)) return;
+                    }
+                    addLeak('partial', replacement.type, index, part.length);
+                });
+            });
+        }
+
+        // Phone numbers written again with different separators
+        if (replacement.type === 'phone') {
+            const digits = replacement.original.replace(/\D/g, '');
+            const numberPattern = /\+?\d[\d\s().-]{5,}\d/g;
+            let match;
+            while (digits.length >= 7 && (match = numberPattern.exec(anonymizedText)) !== null) {
+                const found = match[0].replace(/\D/g, '');
+                if (found.length >= 7 && (digits.indexOf(found) !== -1 || found.indexOf(digits.slice(-7)) !== -1)) {
+                    addLeak('partial', 'phone', match.index, match[0].length);
+                }
+            }
+        }
+    });
+
+    // Anything the detectors find in the output that the settings say should have been replaced
+    analyzePersonalIdentifiers(anonymizedText, { organizationMappings, redactionOverrides: overrides, locales })
+        .personalIdentifiers
+        .filter(identifier => isIdentifierTypeReplaced(identifier.type, options))
+        .forEach(identifier => addLeak('detector', identifier.type, identifier.index, identifier.value.length));
+
+    // Keep one leak per stretch of text, preferring the most certain kind
+    const sorted = leaks.sort((a, b) =>
+        KIND_PRIORITY.indexOf(a.kind) - KIND_PRIORITY.indexOf(b.kind) || b.value.length - a.value.length);
+    const result: AnonymizationLeak[] = [];
+    sorted.forEach(leak => {
+        const overlaps = result.some(kept => leak.index < kept.index + kept.value.length && leak.index + leak.value.length > kept.index);
+        if (!overlaps) result.push(leak);
+    });
+
+    return result.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Leaks for replaced values that the PDF redaction or Word export could not find in the uploaded
+ * file, e.g. because the text is split up oddly or is part of an image. Such a value may still be
+ * in the exported file, so it has to be waived before that file can be exported.
+ */
+export const getExportLeaks = (
+    file: ExportFileFormat,
+    values: string[],
+    replacements: AnonymizationReplacement[]
+): AnonymizationLeak[] => {
+    return values.map(value => {
+        const folded = value.toLowerCase();
+        // Removed sections are searched for line by line, so a value may be part of a replacement
+        const replacement = replacements.find(item => item.original.toLowerCase().indexOf(folded) !== -1);
+
+        return {
+            id: `unlocated:${file}:${hashLeakValue(folded)}`,
+            kind: 'unlocated' as LeakKind,
+            type: replacement ? replacement.type : 'manual',
+            value,
+            index: -1,
+            file,
+        };
+    });
+};
+
+/**
+ * Leaks the user has neither resolved nor waived. Export stays blocked while there are any.
+ */
+export const getUnresolvedLeaks = (leaks: AnonymizationLeak[], overrides: RedactionOverrides): AnonymizationLeak[] => {
+    const waivedLeaks = overrides.waivedLeaks || [];
+    return leaks.filter(leak => waivedLeaks.indexOf(leak.id) === -1);
+};
+
+/**
+ * Describe how a leak was found, for display
+ */
+export const formatLeakKind = (kind: LeakKind): string => {
+    switch (kind) {
+        case 'exact':
+            return 'Replaced value still present';
+        case 'case-folded':
+            return 'Replaced value in a different case';
+        case 'partial':
+            return 'Part of a replaced value';
+        case 'detector':
+            return 'New detection';
+        case 'unlocated':
+            return 'Not found in the exported file';
+    }
+};
+
+export default {
+    verifyAnonymization,
+    getExportLeaks,
+    getUnresolvedLeaks,
+    formatLeakKind,
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+    detectLocaleIdentifiers,
+    isValidAadhaar,
+    isValidCPF,
+    isValidGermanTaxId,
+    isValidNINumber,
+    isValidSSN,
+    isValidVerhoeff,
+} from './LocaleIdentifierService';
+import type { IdentifierLocale } from './LocaleIdentifierService';
+
+// Distinct values found, as a number with a country code is also found by the international pattern
+const findValues = (text: string, locale: IdentifierLocale, type: string): string[] =>
+    Array.from(new Set(detectLocaleIdentifiers(text, [locale])
+        .filter(identifier => identifier.type === type)
+        .map(identifier => identifier.value)));
+
+describe('isValidVerhoeff', () => {
+    it('accepts numbers ending in their Verhoeff check digit', () => {
+        expect(isValidVerhoeff('2363')).toBe(true);
+        expect(isValidVerhoeff('0')).toBe(true);
+    });
+
+    it('rejects a changed digit or swapped neighbours', () => {
+        expect(isValidVerhoeff('2364')).toBe(false);
+        expect(isValidVerhoeff('3263')).toBe(false);
+    });
+});
+
+describe('isValidAadhaar', () => {
+    it('accepts twelve digits with a Verhoeff check digit', () => {
+        expect(isValidAadhaar('2341 2341 2346')).toBe(true);
+        expect(isValidAadhaar('499118665246')).toBe(true);
+    });
+
+    it('rejects a wrong check digit, a leading 0 or 1, and other lengths', () => {
+        expect(isValidAadhaar('2341 2341 2345')).toBe(false);
+        expect(isValidAadhaar('1341 2341 2346')).toBe(false);
+        expect(isValidAadhaar('2341 2341 234')).toBe(false);
+    });
+});
+
+describe('isValidCPF', () => {
+    it('accepts both mod 11 check digits, with or without punctuation', () => {
+        expect(isValidCPF('529.982.247-25')).toBe(true);
+        expect(isValidCPF('52998224725')).toBe(true);
+    });
+
+    it('rejects wrong check digits and runs of one digit', () => {
+        expect(isValidCPF('529.982.247-24')).toBe(false);
+        expect(isValidCPF('529.982.247-15')).toBe(false);
+        expect(isValidCPF('111.111.111-11')).toBe(false);
+    });
+});
+
+describe('isValidGermanTaxId', () => {
+    it('accepts an ISO 7064 MOD 11,10 check digit', () => {
+        expect(isValidGermanTaxId('86095742719')).toBe(true);
+        expect(isValidGermanTaxId('86 095 742 719')).toBe(true);
+    });
+
+    it('rejects a wrong check digit, a leading 0 and other lengths', () => {
+        expect(isValidGermanTaxId('86095742718')).toBe(false);
+        expect(isValidGermanTaxId('06095742719')).toBe(false);
+        expect(isValidGermanTaxId('8609574271')).toBe(false);
+    });
+});
+
+describe('isValidNINumber', () => {
+    it('accepts allocated prefixes, with or without spaces', () => {
+        expect(isValidNINumber('AB 12 34 56 C')).toBe(true);
+        expect(isValidNINumber('ab123456c')).toBe(true);
+    });
+
+    it('rejects prefixes that are never allocated and bad suffixes', () => {
+        expect(isValidNINumber('GB123456A')).toBe(false);
+        expect(isValidNINumber('QQ123456C')).toBe(false);
+        expect(isValidNINumber('AO123456C')).toBe(false);
+        expect(isValidNINumber('AB123456E')).toBe(false);
+    });
+});
+
+describe('isValidSSN', () => {
+    it('accepts issued ranges', () => {
+        expect(isValidSSN('123-45-6789')).toBe(true);
+    });
+
+    it('rejects areas, groups and serials that are never issued', () => {
+        expect(isValidSSN('000-45-6789')).toBe(false);
+        expect(isValidSSN('666-45-6789')).toBe(false);
+        expect(isValidSSN('912-45-6789')).toBe(false);
+        expect(isValidSSN('123-00-6789')).toBe(false);
+        expect(isValidSSN('123-45-0000')).toBe(false);
+    });
+});
+
+describe('detectLocaleIdentifiers', () => {
+    it('finds UK numbers in their usual groupings', () => {
+        expect(findValues('Tel: 020 7946 0958', 'uk', 'phone')).toEqual(['020 7946 0958']);
+        expect(findValues('Mobile 07700 900123 (evenings)', 'uk', 'phone')).toEqual(['07700 900123']);
+        expect(findValues('Office: 0161 496 0123', 'uk', 'phone')).toEqual(['0161 496 0123']);
+        expect(findValues('Call +44 (0)161 496 0123', 'uk', 'phone')).toEqual(['+44 (0)161 496 0123']);
+    });
+
+    it('leaves date ranges and other numbers that look like UK phone numbers alone', () => {
+        expect(findValues('Ref 0958 2019-2021', 'uk', 'phone')).toEqual([]);
+        expect(findValues('Order 0123456789012', 'uk', 'phone')).toEqual([]);
+        expect(findValues('Invoice A-020 7946 0958', 'uk', 'phone')).toEqual([]);
+    });
+
+    it('only reports ID numbers that pass their checks', () => {
+        expect(findValues('CPF: 529.982.247-25', 'br', 'nationalId')).toEqual(['529.982.247-25']);
+        expect(findValues('CPF: 529.982.247-24', 'br', 'nationalId')).toEqual([]);
+        expect(findValues('Aadhaar 2341 2341 2346', 'in', 'nationalId')).toEqual(['2341 2341 2346']);
+        expect(findValues('Aadhaar 2341 2341 2345', 'in', 'nationalId')).toEqual([]);
+        expect(findValues('NI number: AB 12 34 56 C', 'uk', 'nationalId')).toEqual(['AB 12 34 56 C']);
+        expect(findValues('SSN 123-45-6789', 'us', 'nationalId')).toEqual(['123-45-6789']);
+    });
+});
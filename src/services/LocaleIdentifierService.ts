@@ -0,0 +1,277 @@
+/**
+ * Service for detecting phone numbers, addresses, postal codes and national ID or tax numbers
+ * written in the formats of particular countries
+ */
+import type { PersonalIdentifier } from './AnalysisService';
+
+export type IdentifierLocale = 'us' | 'uk' | 'in' | 'de' | 'br';
+
+export interface LocalePack {
+    locale: IdentifierLocale;
+    label: string;
+    // Short list of what the pack detects, for display
+    description: string;
+    detect: (text: string) => PersonalIdentifier[];
+}
+
+export const DEFAULT_IDENTIFIER_LOCALES: IdentifierLocale[] = ['us'];
+
+/**
+ * Adds every match of a pattern that passes validation, using the first capture group as the
+ * value when present
+ */
+const collectMatches = (
+    text: string,
+    pattern: RegExp,
+    type: string,
+    identifiers: PersonalIdentifier[],
+    isValid: (value: string) => boolean = () => true
+) => {
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+        const value = (match[1] || match[0]).trim();
+        if (!value || !isValid(value)) continue;
+        identifiers.push({
+            type, value, index: match.index + match[0].lastIndexOf(value),
+        });
+    }
+};
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+const hasDigitCount = (min: number, max: number) => (value: string): boolean => {
+    const count = digitsOf(value).length;
+    return count >= min && count <= max;
+};
+
+/* Checksums */
+
+const VERHOEFF_MULTIPLICATION = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+    [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+    [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+    [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_PERMUTATION = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+    [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+    [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff check, used by Aadhaar numbers
+ */
+export const isValidVerhoeff = (digits: string): boolean => {
+    let check = 0;
+    digits.split('').reverse().forEach((digit, index) => {
+        check = VERHOEFF_MULTIPLICATION[check][VERHOEFF_PERMUTATION[index % 8][Number(digit)]];
+    });
+    return check === 0;
+};
+
+/**
+ * Brazilian CPF: two mod 11 check digits, and not a run of one repeated digit
+ */
+export const isValidCPF = (value: string): boolean => {
+    const digits = digitsOf(value);
+    if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+    const checkDigit = (length: number): number => {
+        let sum = 0;
+        for (let i = 0; i < length; i++) {
+            sum += Number(digits[i]) * (length + 1 - i);
+        }
+        return (sum * 10) % 11 % 10;
+    };
+
+    return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+};
+
+/**
+ * German tax ID (Steuerliche Identifikationsnummer): ISO 7064 MOD 11,10 check digit
+ */
+export const isValidGermanTaxId = (value: string): boolean => {
+    const digits = digitsOf(value);
+    if (digits.length !== 11 || digits[0] === '0') return false;
+
+    let product = 10;
+    for (let i = 0; i < 10; i++) {
+        let sum = (Number(digits[i]) + product) % 10;
+        if (sum === 0) sum = 10;
+        product = (sum * 2) % 11;
+    }
+    const check = 11 - product;
+
+    return (check === 10 ? 0 : check) === Number(digits[10]);
+};
+
+/**
+ * US Social Security number: area, group and serial ranges that are never issued are rejected
+ */
+export const isValidSSN = (value: string): boolean => {
+    const digits = digitsOf(value);
+    if (digits.length !== 9) return false;
+
+    const area = Number(digits.substring(0, 3));
+    return area !== 0 && area !== 666 && area < 900 && digits.substring(3, 5) !== '00' && digits.substring(5) !== '0000';
+};
+
+/**
+ * UK National Insurance number: prefixes that are never allocated are rejected
+ */
+export const isValidNINumber = (value: string): boolean => {
+    const compact = value.replace(/\s/g, '').toUpperCase();
+    return /^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(compact)
+        && ['BG', 'GB', 'KN', 'NK', 'NT', 'TN', 'ZZ'].indexOf(compact.substring(0, 2)) === -1;
+};
+
+export const isValidAadhaar = (value: string): boolean => {
+    const digits = digitsOf(value);
+    return digits.length === 12 && digits[0] !== '0' && digits[0] !== '1' && isValidVerhoeff(digits);
+};
+
+/* Patterns */
+
+// International numbers in E.164 style, e.g. "+44 20 7946 0958" or "+91-98765-43210"
+const E164_PHONE_PATTERN = /\+[1-9]\d{0,2}(?:[ .-]?(?:\(0\)|\(\d{1,4}\)|\d{1,5})){1,6}(?!\d)/g;
+
+const US_PHONE_PATTERN = /(?:\+1[-. ]?)?(?:\(\d{3}\)|\b\d{3})[-. ]?\d{3}[-. ]?\d{4}\b/g;
+const US_ADDRESS_PATTERN = /\b\d+\s+[A-Za-z\s]+\b(?:Avenue|Ave|Street|St|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Circle|Cir|Place|Pl)\b/gi;
+const US_ZIP_PATTERN = /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g;
+const US_SSN_PATTERN = /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g;
+const US_SSN_LABEL_PATTERN = /\b(?:SSN|Social Security(?: No\.?| Number)?)\s*:?\s*(\d{9})\b/gi;
+
+// Ten digits after the 0 or +44, grouped as UK numbers are written (020 7946 0958, 0161 496 0123,
+// 01632 960123, 07700 900 123), or nine after some five-digit area codes. The number may not
+// continue another number or run on into one, so date ranges such as "0958 2019-2021" are left alone.
+const UK_PHONE_PATTERN = new RegExp(
+    '(?<![\\w+-])(?:\\+44\\s?(?:\\(0\\)\\s?)?|0)' +
+    '(?:\\d{2}[\\s-]?\\d{4}[\\s-]?\\d{4}|\\d{3}[\\s-]?\\d{3}[\\s-]?\\d{4}|\\d{4}[\\s-]?(?:\\d{3}[\\s-]?\\d{3}|\\d{6})|\\d{5}[\\s-]?\\d{4,5})' +
+    '(?!-?\\d)',
+    'g'
+);
+const UK_POSTCODE_PATTERN = /\b(?:GIR ?0AA|[A-PR-UWYZ](?:\d[\dA-HJKPSTUW]?|[A-HK-Y]\d[\dABEHMNPRV-Y]?) ?\d[ABD-HJLNP-UW-Z]{2})\b/g;
+const UK_ADDRESS_PATTERN = /\b\d+[A-Za-z]?,?\s+(?:[A-Z][A-Za-z'-]*\s+){1,3}(?:Close|Crescent|Gardens|Terrace|Grove|Mews|Square|Row|Walk|Road|Street|Lane|Avenue|Drive|Way|Place|Court|Hill|Park|Rise|View)\b/g;
+const UK_NI_PATTERN = /\b[A-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/gi;
+
+const IN_PHONE_PATTERN = /(?:\+91[\s-]?|\b0)?\b[6-9]\d{4}[\s-]?\d{5}\b/g;
+const IN_PIN_LABEL_PATTERN = /\b(?:PIN(?:\s*code)?|Pincode)\s*[:-]?\s*([1-9]\d{2}\s?\d{3})\b/gi;
+const IN_PIN_AFTER_CITY_PATTERN = /\b[A-Z][a-z]+\s*[-,]\s*([1-9]\d{5})\b/g;
+const IN_ADDRESS_PATTERN = /\b(?:(?:Flat|House|Plot|Door)\s+No\.?\s*|H\.\s?No\.?\s*)?\d+[\w/-]*,?\s+(?:[A-Z][a-z]+\s+){0,3}(?:Nagar|Colony|Marg|Layout|Enclave|Vihar|Puram|Bagh|Chowk)\b/g;
+const IN_AADHAAR_PATTERN = /\b[2-9]\d{3}\s?\d{4}\s?\d{4}\b/g;
+const IN_PAN_PATTERN = /\b[A-Z]{3}[PCHFATBLJG][A-Z]\d{4}[A-Z]\b/g;
+
+const DE_PHONE_PATTERN = /(?:\+49[\s-]?(?:\(0\)\s?)?|\b0)[1-9]\d{1,4}(?:[\s/-]?\d){4,9}\b/g;
+const DE_POSTCODE_PATTERN = /\b(?:D-)?\d{5}\s+[A-ZÄÖÜ][a-zäöüß]+(?:\s(?:am|an der|im)\s[A-ZÄÖÜ][a-zäöüß]+)?/g;
+const DE_STREET_PATTERN = /\b[A-Z][a-zäöüß]+(?:-[A-ZÄÖÜ]?[a-zäöüß]+)*(?:straße|strasse|str\.|weg|allee|platz|gasse|ring|damm|ufer)\s+\d+\s?[a-z]?\b/g;
+const DE_STREET_WORD_PATTERN = /\b(?:[A-Z][a-zäöüß-]+\s)+(?:Straße|Strasse|Str\.|Weg|Allee|Platz|Gasse)\s+\d+\s?[a-z]?\b/g;
+const DE_TAX_ID_PATTERN = /\b[1-9]\d\s?\d{3}\s?\d{3}\s?\d{3}\b/g;
+
+const BR_PHONE_PATTERN = /(?:\+55[\s-]?\(?[1-9]\d\)?|\([1-9]\d\))[\s-]?9?\d{4}[\s-]?\d{4}\b/g;
+const BR_CEP_PATTERN = /\b\d{5}-\d{3}\b/g;
+const BR_CEP_LABEL_PATTERN = /\bCEP\s*:?\s*(\d{8})\b/gi;
+const BR_ADDRESS_PATTERN = /\b(?:Rua|R\.|Avenida|Av\.|Travessa|Alameda|Praça|Estrada|Rodovia)\s+[^\n,]{2,60},?\s*(?:n[º°o.]\s*)?\d+/g;
+const BR_CPF_PATTERN = /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g;
+
+export const LOCALE_PACKS: LocalePack[] = [
+    {
+        locale: 'us',
+        label: 'United States',
+        description: 'Phone numbers, street addresses, ZIP codes and Social Security numbers',
+        detect: (text) => {
+            const identifiers: PersonalIdentifier[] = [];
+            collectMatches(text, US_PHONE_PATTERN, 'phone', identifiers);
+            collectMatches(text, US_ADDRESS_PATTERN, 'address', identifiers);
+            collectMatches(text, US_ZIP_PATTERN, 'address', identifiers);
+            collectMatches(text, US_SSN_PATTERN, 'nationalId', identifiers, isValidSSN);
+            collectMatches(text, US_SSN_LABEL_PATTERN, 'nationalId', identifiers, isValidSSN);
+            return identifiers;
+        },
+    },
+    {
+        locale: 'uk',
+        label: 'United Kingdom',
+        description: 'Phone numbers, postcodes, street addresses and National Insurance numbers',
+        detect: (text) => {
+            const identifiers: PersonalIdentifier[] = [];
+            collectMatches(text, UK_PHONE_PATTERN, 'phone', identifiers, hasDigitCount(10, 13));
+            collectMatches(text, UK_POSTCODE_PATTERN, 'address', identifiers);
+            collectMatches(text, UK_ADDRESS_PATTERN, 'address', identifiers);
+            collectMatches(text, UK_NI_PATTERN, 'nationalId', identifiers, isValidNINumber);
+            return identifiers;
+        },
+    },
+    {
+        locale: 'in',
+        label: 'India',
+        description: 'Mobile numbers, PIN codes, addresses, Aadhaar and PAN numbers',
+        detect: (text) => {
+            const identifiers: PersonalIdentifier[] = [];
+            collectMatches(text, IN_AADHAAR_PATTERN, 'nationalId', identifiers, isValidAadhaar);
+            collectMatches(text, IN_PAN_PATTERN, 'nationalId', identifiers);
+            collectMatches(text, IN_PHONE_PATTERN, 'phone', identifiers);
+            collectMatches(text, IN_PIN_LABEL_PATTERN, 'address', identifiers);
+            collectMatches(text, IN_PIN_AFTER_CITY_PATTERN, 'address', identifiers);
+            collectMatches(text, IN_ADDRESS_PATTERN, 'address', identifiers);
+            return identifiers;
+        },
+    },
+    {
+        locale: 'de',
+        label: 'Germany',
+        description: 'Phone numbers, postcodes, street addresses and tax IDs',
+        detect: (text) => {
+            const identifiers: PersonalIdentifier[] = [];
+            collectMatches(text, DE_TAX_ID_PATTERN, 'nationalId', identifiers, isValidGermanTaxId);
+            collectMatches(text, DE_PHONE_PATTERN, 'phone', identifiers, hasDigitCount(7, 15));
+            collectMatches(text, DE_POSTCODE_PATTERN, 'address', identifiers);
+            collectMatches(text, DE_STREET_PATTERN, 'address', identifiers);
+            collectMatches(text, DE_STREET_WORD_PATTERN, 'address', identifiers);
+            return identifiers;
+        },
+    },
+    {
+        locale: 'br',
+        label: 'Brazil',
+        description: 'Phone numbers, CEP postal codes, street addresses and CPF numbers',
+        detect: (text) => {
+            const identifiers: PersonalIdentifier[] = [];
+            collectMatches(text, BR_CPF_PATTERN, 'nationalId', identifiers, isValidCPF);
+            collectMatches(text, BR_PHONE_PATTERN, 'phone', identifiers);
+            collectMatches(text, BR_CEP_PATTERN, 'address', identifiers);
+            collectMatches(text, BR_CEP_LABEL_PATTERN, 'address', identifiers);
+            collectMatches(text, BR_ADDRESS_PATTERN, 'address', identifiers);
+            return identifiers;
+        },
+    },
+];
+
+/**
+ * Find locale-specific identifiers using the selected packs. International numbers with a
+ * country code are found whichever packs are selected.
+ */
+export const detectLocaleIdentifiers = (
+    text: string,
+    locales: IdentifierLocale[] = DEFAULT_IDENTIFIER_LOCALES
+): PersonalIdentifier[] => {
+    const identifiers: PersonalIdentifier[] = [];
+
+    collectMatches(text, E164_PHONE_PATTERN, 'phone', identifiers, hasDigitCount(8, 15));
+    LOCALE_PACKS
+        .filter(pack => locales.indexOf(pack.locale) !== -1)
+        .forEach(pack => identifiers.push(...pack.detect(text)));
+
+    return identifiers;
+};
+
+export default {
+    LOCALE_PACKS,
+    detectLocaleIdentifiers,
+    isValidVerhoeff,
+    isValidCPF,
+    isValidGermanTaxId,
+    isValidSSN,
+    isValidNINumber,
+    isValidAadhaar,
+};
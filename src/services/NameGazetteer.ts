@@ -0,0 +1,113 @@
+/**
+ * Bundled first-name and surname lists used for offline name recognition.
+ * Names are lowercase and drawn from common names across many regions.
+ */
+
+export const FIRST_NAMES = new Set([
+    // English-speaking countries
+    'aaron', 'adam', 'adrian', 'aidan', 'alan', 'albert', 'alex', 'alexander', 'alexandra', 'alice', 'alicia', 'alison',
+    'allison', 'amanda', 'amber', 'amelia', 'amy', 'andrea', 'andrew', 'angela', 'anna', 'anne', 'anthony', 'ashley',
+    'austin', 'barbara', 'benjamin', 'beth', 'betty', 'brandon', 'brenda', 'brian', 'brittany', 'bruce', 'bryan',
+    'caleb', 'cameron', 'carl', 'carol', 'caroline', 'catherine', 'charles', 'charlotte', 'chloe', 'chris', 'christian',
+    'christina', 'christine', 'christopher', 'claire', 'colin', 'connor', 'courtney', 'craig', 'cynthia', 'daniel',
+    'danielle', 'david', 'deborah', 'dennis', 'diana', 'diane', 'donald', 'donna', 'dorothy', 'douglas', 'dylan',
+    'edward', 'elizabeth', 'ella', 'ellen', 'emily', 'emma', 'eric', 'ethan', 'evan', 'frances', 'frank', 'gary',
+    'george', 'gerald', 'gloria', 'grace', 'gregory', 'hannah', 'harold', 'harry', 'heather', 'helen', 'henry', 'ian',
+    'isaac', 'isabella', 'jack', 'jacob', 'jacqueline', 'james', 'jane', 'janet', 'jason', 'jeffrey', 'jennifer',
+    'jeremy', 'jerry', 'jessica', 'joan', 'joe', 'john', 'jonathan', 'jordan', 'joseph', 'joshua', 'joyce', 'judith',
+    'julia', 'julie', 'justin', 'karen', 'katherine', 'kathleen', 'kathryn', 'katie', 'keith', 'kelly', 'kenneth',
+    'kevin', 'kimberly', 'kyle', 'laura', 'lauren', 'lawrence', 'leah', 'liam', 'lily', 'linda', 'lisa', 'logan',
+    'lucas', 'lucy', 'madison', 'margaret', 'maria', 'marie', 'mark', 'martha', 'mary', 'mason', 'matthew', 'megan',
+    'melissa', 'michael', 'michelle', 'natalie', 'nathan', 'nicholas', 'nicole', 'noah', 'oliver', 'olivia', 'pamela',
+    'patricia', 'patrick', 'paul', 'peter', 'rachel', 'raymond', 'rebecca', 'richard', 'robert', 'roger', 'ronald',
+    'rose', 'ruth', 'ryan', 'samantha', 'samuel', 'sandra', 'sara', 'sarah', 'scott', 'sean', 'sharon', 'shirley',
+    'sophia', 'sophie', 'stephanie', 'stephen', 'steven', 'susan', 'teresa', 'thomas', 'timothy', 'tyler', 'victoria',
+    'vincent', 'virginia', 'walter', 'wayne', 'william', 'zachary', 'zoe',
+    // Spanish and Portuguese
+    'alejandro', 'ana', 'andres', 'antonio', 'beatriz', 'camila', 'carla', 'carlos', 'carmen', 'diego', 'eduardo',
+    'elena', 'fernando', 'francisco', 'gabriela', 'gabriel', 'guadalupe', 'isabel', 'javier', 'jorge', 'jose', 'juan',
+    'lucia', 'luis', 'manuel', 'mariana', 'miguel', 'pablo', 'pedro', 'rafael', 'ricardo', 'sofia', 'valentina',
+    'joao', 'thiago', 'mateus', 'larissa', 'fernanda', 'rodrigo', 'bruno',
+    // German, French, Italian and Dutch
+    'andreas', 'anja', 'claudia', 'felix', 'florian', 'jan', 'jonas', 'julian', 'jurgen', 'katrin', 'klaus', 'lukas',
+    'markus', 'maximilian', 'sabine', 'sebastian', 'stefan', 'tobias', 'ursula', 'wolfgang', 'antoine', 'camille',
+    'chloé', 'francois', 'guillaume', 'hugo', 'julien', 'louis', 'mathieu', 'nicolas', 'pierre', 'sylvie', 'thibault',
+    'alessandro', 'chiara', 'francesca', 'giovanni', 'giulia', 'lorenzo', 'marco', 'matteo', 'paolo', 'daan', 'sanne',
+    'pieter', 'willem',
+    // South Asian
+    'aarav', 'aditi', 'aditya', 'akash', 'amit', 'ananya', 'anil', 'anjali', 'arjun', 'deepak', 'divya', 'gaurav',
+    'ishaan', 'kavya', 'krishna', 'lakshmi', 'manish', 'meera', 'neha', 'nikhil', 'pooja', 'priya', 'rahul', 'raj',
+    'rajesh', 'ravi', 'rohan', 'sanjay', 'shreya', 'sunil', 'suresh', 'vijay', 'vikram', 'ayesha', 'fatima', 'imran',
+    'tariq', 'zainab',
+    // East and Southeast Asian
+    'chen', 'hiroshi', 'jia', 'jun', 'kenji', 'li', 'mei', 'min', 'ming', 'sakura', 'wei', 'xin', 'yan', 'ying', 'yuki',
+    'yuto', 'haruto', 'jiwoo', 'minjun', 'seojun', 'jisoo', 'hana', 'linh', 'minh', 'thanh', 'nguyen',
+    // Arabic, Persian and Turkish
+    'ahmed', 'ali', 'amir', 'hassan', 'hussein', 'karim', 'khalid', 'layla', 'mariam', 'mohamed', 'mohammed',
+    'muhammad', 'mustafa', 'nour', 'omar', 'rania', 'youssef', 'yusuf', 'zahra', 'reza', 'darius', 'emre',
+    'mehmet', 'elif', 'zeynep',
+    // African
+    'abebe', 'ade', 'adebayo', 'amara', 'chidi', 'chinedu', 'kwame', 'kofi', 'ngozi', 'nia', 'oluwaseun', 'thabo',
+    'zanele', 'kemi', 'tunde', 'femi',
+    // Slavic
+    'aleksandr', 'anastasia', 'dmitri', 'ekaterina', 'ivan', 'katarzyna', 'marek', 'natalia', 'olga', 'piotr',
+    'sergei', 'tatiana', 'tomasz', 'vladimir', 'yulia',
+]);
+
+export const SURNAMES = new Set([
+    // English-speaking countries
+    'adams', 'allen', 'anderson', 'bailey', 'baker', 'barnes', 'bell', 'bennett', 'brooks', 'brown', 'butler',
+    'campbell', 'carter', 'clark', 'collins', 'cook', 'cooper', 'cox', 'davies', 'davis', 'edwards', 'evans', 'fisher',
+    'foster', 'gray', 'green', 'griffin', 'hall', 'harris', 'hayes', 'hill', 'howard', 'hughes', 'jackson', 'james',
+    'jenkins', 'johnson', 'jones', 'kelly', 'king', 'lee', 'lewis', 'long', 'martin', 'miller', 'mitchell', 'moore',
+    'morgan', 'morris', 'murphy', 'myers', 'nelson', 'o\'brien', 'parker', 'perry', 'peterson', 'phillips', 'powell',
+    'price', 'reed', 'richardson', 'roberts', 'robinson', 'rogers', 'ross', 'russell', 'sanders', 'scott', 'smith',
+    'stewart', 'sullivan', 'taylor', 'thomas', 'thompson', 'turner', 'walker', 'ward', 'watson', 'white', 'williams',
+    'wilson', 'wood', 'wright', 'young',
+    // Spanish and Portuguese
+    'alvarez', 'castillo', 'castro', 'cruz', 'diaz', 'fernandez', 'flores', 'garcia', 'gomez', 'gonzalez', 'gutierrez',
+    'hernandez', 'jimenez', 'lopez', 'martinez', 'morales', 'moreno', 'ortiz', 'perez', 'ramirez', 'ramos', 'reyes',
+    'rivera', 'rodriguez', 'romero', 'ruiz', 'sanchez', 'torres', 'vargas', 'silva', 'santos', 'oliveira', 'souza',
+    'pereira', 'costa', 'almeida', 'ferreira',
+    // German, French, Italian and Dutch
+    'becker', 'fischer', 'hoffmann', 'koch', 'meyer', 'muller', 'müller', 'richter', 'schmidt', 'schneider',
+    'schulz', 'wagner', 'weber', 'wolf', 'bernard', 'dubois', 'durand', 'fontaine', 'lambert', 'laurent', 'lefebvre',
+    'leroy', 'moreau', 'petit', 'rousseau', 'bianchi', 'colombo', 'conti', 'esposito', 'ferrari', 'ricci', 'romano',
+    'rossi', 'russo', 'jansen', 'bakker', 'visser',
+    // South Asian
+    'agarwal', 'bhatt', 'chopra', 'das', 'desai', 'gupta', 'iyer', 'jain', 'joshi', 'kapoor', 'khan', 'kumar', 'mehta',
+    'menon', 'mishra', 'nair', 'patel', 'pillai', 'rao', 'reddy', 'shah', 'sharma', 'singh', 'verma', 'ahmed', 'hussain',
+    'malik', 'qureshi', 'chowdhury', 'rahman',
+    // East and Southeast Asian
+    'chan', 'chang', 'chen', 'cheng', 'huang', 'lam', 'li', 'lin', 'liu', 'ma', 'tan', 'wang', 'wong', 'wu', 'xu',
+    'yang', 'zhang', 'zhao', 'zhou', 'ito', 'kato', 'kobayashi', 'nakamura', 'sato', 'suzuki', 'takahashi', 'tanaka',
+    'watanabe', 'yamamoto', 'choi', 'jung', 'kang', 'kim', 'park', 'yoon', 'nguyen', 'tran', 'pham', 'le', 'hoang',
+    'bautista',
+    // Arabic, Persian and Turkish
+    'abdullah', 'ali', 'aziz', 'haddad', 'hassan', 'ibrahim', 'mansour', 'mohammed', 'nasser', 'saleh', 'hosseini',
+    'karimi', 'rahimi', 'demir', 'kaya', 'yilmaz', 'sahin', 'celik',
+    // African
+    'adeyemi', 'afolabi', 'banda', 'boateng', 'dlamini', 'mensah', 'mwangi', 'ndlovu', 'nkosi', 'obi', 'okafor',
+    'okeke', 'okonkwo', 'osei', 'owusu',
+    // Slavic
+    'ivanov', 'ivanova', 'kowalski', 'kowalska', 'nowak', 'novak', 'petrov', 'petrova', 'popov', 'smirnov',
+    'wisniewski', 'horvat',
+]);
+
+// Capitalized words that often start lines in resumes but are not names
+export const NON_NAME_WORDS = new Set([
+    'about', 'academy', 'achievements', 'activities', 'address', 'administration', 'analyst', 'and', 'architect',
+    'april', 'arts', 'associate', 'august', 'award', 'awards', 'aws', 'bachelor', 'business', 'career', 'certificate',
+    'certifications', 'city', 'cloud', 'college', 'communication', 'company', 'computer', 'consultant', 'contact',
+    'corp', 'corporation', 'current', 'curriculum', 'customer', 'cv', 'data', 'december', 'degree', 'department',
+    'design', 'designer', 'developer', 'development', 'director', 'education', 'email', 'employment', 'end',
+    'engineer', 'engineering', 'experience', 'february', 'for', 'front', 'full', 'github', 'group', 'head', 'history',
+    'honors', 'human', 'inc', 'information', 'institute', 'interests', 'intern', 'january', 'java', 'javascript',
+    'july', 'june', 'junior', 'languages', 'lead', 'linkedin', 'llc', 'ltd', 'management', 'manager', 'march',
+    'marketing', 'master', 'may', 'microsoft', 'mobile', 'national', 'new', 'november', 'objective', 'october', 'of',
+    'office', 'officer', 'personal', 'phone', 'present', 'principal', 'product', 'professional', 'profile', 'program',
+    'project', 'projects', 'publications', 'python', 'qualifications', 'react', 'references', 'relevant', 'research',
+    'resources', 'resume', 'sales', 'school', 'science', 'senior', 'september', 'service', 'services', 'skills',
+    'software', 'specialist', 'stack', 'state', 'street', 'summary', 'systems', 'team', 'technical', 'technology',
+    'the', 'university', 'vitae', 'volunteer', 'web', 'work',
+]);
@@ -0,0 +1,231 @@
+/**
+ * Service for recognizing personal names in resumes without a network model
+ */
+import { FIRST_NAMES, NON_NAME_WORDS, SURNAMES } from './NameGazetteer';
+
+export interface RecognizedName {
+    value: string;
+    index: number;
+    // 0-1, how sure the recognizer is that this is a person's name
+    confidence: number;
+    // A full name found by the recognizer, or a later mention of one (first name, surname, initials)
+    kind: 'primary' | 'mention';
+    // The full name this match refers to, so every mention of one person can be grouped
+    canonical: string;
+}
+
+// Candidates scoring below this are not treated as names
+export const MIN_NAME_CONFIDENCE = 0.5;
+
+// A capitalized word (including all-caps) or an initial such as "J."
+const NAME_TOKEN = "(?:\\p{Lu}[\\p{L}'’-]*\\p{L}|\\p{Lu}\\.)";
+
+// Labels that introduce a name, e.g. "Name: Jane Doe"
+const NAME_LABEL_PATTERN = /(?:^|\b)(?:full name|name|my name is|i am|candidate)\s*:?\s*$/i;
+
+const INITIAL_PATTERN = new RegExp('^\\p{Lu}\\.$', 'u');
+const LETTER_OR_DIGIT_PATTERN = new RegExp('[\\p{L}\\p{N}]', 'u');
+
+const stripDiacritics = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const normalizeToken = (token: string): string => stripDiacritics(token.toLowerCase().replace(/['’]s$/, ''));
+
+const toTitleCase = (value: string): string => value.toLowerCase().replace(/(^|[\s'’-])(\S)/g, (_, separator, char) => separator + char.toUpperCase());
+
+const isInitial = (token: string): boolean => INITIAL_PATTERN.test(token);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isLetterOrDigit = (char: string | undefined): boolean => !!char && LETTER_OR_DIGIT_PATTERN.test(char);
+
+/**
+ * Scores a run of capitalized tokens as a possible name
+ */
+const scoreNameCandidate = (
+    tokens: string[],
+    lineIndex: number,
+    isOwnLine: boolean,
+    textBefore: string
+): number => {
+    const first = normalizeToken(tokens[0]);
+    const last = normalizeToken(tokens[tokens.length - 1]);
+
+    if (tokens.every(isInitial) || tokens.some(token => token.length > 20)) return 0;
+
+    let confidence = 0;
+
+    const firstKnown = FIRST_NAMES.has(first);
+    const lastKnown = SURNAMES.has(last);
+
+    if (firstKnown) confidence += 0.45;
+    if (lastKnown) confidence += 0.3;
+    // An unknown surname after a known first name is still likely a name
+    else if (firstKnown && !isInitial(tokens[tokens.length - 1])) confidence += 0.1;
+
+    // Resumes usually open with the candidate's name
+    if (lineIndex === 0) confidence += 0.35;
+    else if (lineIndex <= 2) confidence += 0.15;
+
+    if (isOwnLine) confidence += 0.1;
+    if (NAME_LABEL_PATTERN.test(textBefore)) confidence += 0.4;
+
+    return Math.min(1, Math.round(confidence * 100) / 100);
+};
+
+/**
+ * Finds full names using the gazetteer, capitalization and position heuristics
+ */
+const findPrimaryNames = (text: string): RecognizedName[] => {
+    const names: RecognizedName[] = [];
+    const runPattern = new RegExp(`${NAME_TOKEN}(?:[ \\t]+${NAME_TOKEN})+`, 'gu');
+    const tokenPattern = new RegExp(NAME_TOKEN, 'gu');
+
+    let lineStart = 0;
+    let nonEmptyLineIndex = 0;
+
+    text.split('\n').forEach(line => {
+        if (line.trim()) {
+            let run;
+            runPattern.lastIndex = 0;
+            while ((run = runPattern.exec(line)) !== null) {
+                if (isLetterOrDigit(line[run.index - 1])) continue;
+
+                // Split the run at words that are never names, e.g. "Jane Doe Software Engineer"
+                const tokens: { value: string; index: number }[] = [];
+                let token;
+                tokenPattern.lastIndex = 0;
+                while ((token = tokenPattern.exec(run[0])) !== null) {
+                    tokens.push({ value: token[0], index: run.index + token.index });
+                }
+
+                const segments: { value: string; index: number }[][] = [[]];
+                tokens.forEach(item => {
+                    if (NON_NAME_WORDS.has(normalizeToken(item.value))) segments.push([]);
+                    else segments[segments.length - 1].push(item);
+                });
+
+                segments.filter(segment => segment.length >= 2).forEach(segment => {
+                    const start = segment[0].index;
+                    const end = segment[segment.length - 1].index + segment[segment.length - 1].value.length;
+                    const value = line.substring(start, end);
+                    const confidence = scoreNameCandidate(
+                        segment.map(item => item.value),
+                        nonEmptyLineIndex,
+                        line.trim() === value,
+                        line.substring(0, start)
+                    );
+
+                    if (confidence >= MIN_NAME_CONFIDENCE) {
+                        names.push({ value, index: lineStart + start, confidence, kind: 'primary', canonical: toTitleCase(value) });
+                    }
+                });
+            }
+            nonEmptyLineIndex++;
+        }
+        lineStart += line.length + 1;
+    });
+
+    return names;
+};
+
+/**
+ * Builds the forms a name can be referred to by later in the text, longest first.
+ * Bare first names and surnames are skipped when the same word also appears in
+ * lowercase, since the capitalized form is then likely an ordinary word at a sentence start.
+ */
+const getNameVariants = (name: string, text: string): { form: string; weight: number }[] => {
+    // Names written in capitals at the top of a resume are usually title case elsewhere
+    const titleCaseName = toTitleCase(name);
+    const parts = titleCaseName.split(/\s+/).filter(token => !isInitial(token));
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    const variants: { form: string; weight: number }[] = [
+        { form: name, weight: 1 },
+        { form: name.toUpperCase(), weight: 1 },
+        { form: titleCaseName, weight: 1 },
+    ];
+
+    if (first && last && first !== last) {
+        variants.push(
+            { form: `${first.charAt(0)}. ${last}`, weight: 0.9 },
+            { form: `${first.charAt(0)}.${last.charAt(0)}.`, weight: 0.8 },
+            { form: `${first.charAt(0)}. ${last.charAt(0)}.`, weight: 0.8 },
+        );
+    }
+
+    parts.forEach(part => {
+        const bare = part.replace(/['’]s$/, '');
+        const usedAsWord = new RegExp(`(?:^|\\s)${escapeRegExp(bare.toLowerCase())}(?=[\\s,;:!?)]|\\.(?!\\S)|$)`).test(text);
+        if (bare.length >= 2 && !usedAsWord) {
+            variants.push({ form: bare, weight: 0.8 }, { form: bare.toUpperCase(), weight: 0.8 });
+        }
+    });
+
+    // Drop duplicate forms, keeping the highest weight
+    const unique = new Map<string, number>();
+    variants.forEach(({ form, weight }) => unique.set(form, Math.max(weight, unique.get(form) || 0)));
+
+    return Array.from(unique.entries())
+        .map(([form, weight]) => ({ form, weight }))
+        .sort((a, b) => b.form.length - a.form.length);
+};
+
+/**
+ * Finds every mention of the detected names, including bare first names, surnames and initials
+ */
+const findNameMentions = (text: string, primaryNames: RecognizedName[]): RecognizedName[] => {
+    const mentions: RecognizedName[] = [];
+    const seen = new Set<string>();
+
+    primaryNames.forEach(primary => {
+        const key = primary.value.toLowerCase();
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        getNameVariants(primary.value, text).forEach(({ form, weight }) => {
+            const pattern = new RegExp(escapeRegExp(form).replace(/\s+/g, '\\s+'), 'gu');
+            let match;
+            while ((match = pattern.exec(text)) !== null) {
+                const before = text[match.index - 1];
+                const after = text[match.index + match[0].length];
+                if (isLetterOrDigit(before) || isLetterOrDigit(after)) continue;
+
+                mentions.push({
+                    value: match[0],
+                    index: match.index,
+                    confidence: Math.round(primary.confidence * weight * 100) / 100,
+                    kind: 'mention',
+                    canonical: primary.canonical,
+                });
+            }
+        });
+    });
+
+    return mentions;
+};
+
+/**
+ * Recognizes names in text. Returns non-overlapping matches sorted by position,
+ * preferring full names over shorter mentions.
+ */
+export const recognizeNames = (text: string): RecognizedName[] => {
+    const primaryNames = findPrimaryNames(text);
+    if (primaryNames.length === 0) return [];
+
+    const candidates = [...primaryNames, ...findNameMentions(text, primaryNames)]
+        .sort((a, b) => a.index - b.index || b.value.length - a.value.length || (a.kind === 'primary' ? -1 : 1));
+
+    const names: RecognizedName[] = [];
+    let lastEnd = -1;
+    candidates.forEach(candidate => {
+        if (candidate.index < lastEnd) return;
+        names.push(candidate);
+        lastEnd = candidate.index + candidate.value.length;
+    });
+
+    return names;
+};
+
+export default {
+    recognizeNames,
+};
@@ -0,0 +1,110 @@
+/**
+ * Service for reading scanned PDF pages, which have no text layer, with in-browser OCR
+ */
+import { WorkerService } from './WorkerService';
+
+// A recognized word, with its box in PDF user space (points, origin at the bottom left)
+export interface OCRWord {
+    text: string;
+    confidence: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface OCRPage {
+    pageNumber: number;
+    width: number;
+    height: number;
+    text: string;
+    words: OCRWord[];
+}
+
+export interface OCRResult {
+    // Text of the whole document, using the text layer on pages that have one
+    text: string;
+    // Only the pages that were recognized
+    pages: OCRPage[];
+}
+
+export interface OCRProgress {
+    pageNumber: number;
+    // Position of the page among the pages being recognized, starting at 1
+    page: number;
+    pageCount: number;
+    status: string;
+    // Progress across all pages being recognized, from 0 to 1
+    progress: number;
+}
+
+export interface OCROptions {
+    // Pages to recognize. Defaults to every page without a text layer.
+    pageNumbers?: number[];
+    // Tesseract language code, e.g. 'eng' or 'eng+deu'. Only languages in TESSERACT_LANGUAGES are bundled.
+    language?: string;
+    onProgress?: (progress: OCRProgress) => void;
+}
+
+// Recognized pages by PDF content, so search and redaction can reuse them without running OCR again
+const recognizedPages = new WeakMap<ArrayBuffer, OCRPage[]>();
+
+/**
+ * Find the pages of a PDF that have no extractable text
+ */
+export const findScannedPages = async (content: ArrayBuffer): Promise<number[]> => {
+    return WorkerService.executeTask<{ content: ArrayBuffer; action: string }, number[]>(
+        'ocrWorker',
+        { content, action: 'detect' }
+    );
+};
+
+/**
+ * Recognize the text of scanned pages with OCR. Progress is reported per page while the
+ * OCR engine runs.
+ */
+export const recognizePDF = async (content: ArrayBuffer, options: OCROptions = {}): Promise<OCRResult> => {
+    if (typeof Worker === 'undefined') {
+        throw new Error('Web Workers are not supported in this environment');
+    }
+
+    const { pageNumbers, language = 'eng', onProgress } = options;
+
+    const result = await WorkerService.executeTask<
+        { content: ArrayBuffer; pageNumbers?: number[]; language: string; action: string },
+        OCRResult,
+        OCRProgress
+    >(
+        'ocrWorker',
+        { content, pageNumbers, language, action: 'recognize' },
+        onProgress
+    );
+
+    recognizedPages.set(content, result.pages);
+
+    return result;
+};
+
+/**
+ * Get the pages recognized earlier for this PDF content, if any
+ */
+export const getRecognizedPages = (content: ArrayBuffer): OCRPage[] | undefined => {
+    return recognizedPages.get(content);
+};
+
+/**
+ * Describe OCR progress for display, e.g. "Recognizing text on page 2 of 3 (45%)"
+ */
+export const formatOCRProgress = (progress: OCRProgress): string => {
+    const percent = Math.round(progress.progress * 100);
+    return progress.pageCount > 1
+        ? `Recognizing text on page ${progress.page} of ${progress.pageCount} (${percent}%)`
+        : `Recognizing text (${percent}%)`;
+};
+
+export default {
+    findScannedPages,
+    recognizePDF,
+    getRecognizedPages,
+    formatOCRProgress,
+};
@@ -0,0 +1,216 @@
+/**
+ * Service for replacing university and employer names with generalized descriptors
+ */
+import type { PersonalIdentifier } from './AnalysisService';
+import { exportToJSON } from './ExportService';
+
+export type OrganizationKind = 'institution' | 'employer';
+
+export interface OrganizationMapping {
+    id: string;
+    name: string;
+    // Other spellings of the same organization, e.g. "MIT" for "Massachusetts Institute of Technology"
+    aliases: string[];
+    kind: OrganizationKind;
+    // Shown in place of the name, e.g. "Large public research university"
+    descriptor: string;
+}
+
+export const ORGANIZATION_KINDS: OrganizationKind[] = ['institution', 'employer'];
+
+// Used for organizations that are detected but have no entry in the mapping table
+export const DEFAULT_DESCRIPTORS: Record<OrganizationKind, string> = {
+    institution: 'Educational institution',
+    employer: 'Employer',
+};
+
+// Version of the exported mapping file format
+const MAPPING_FILE_VERSION = 1;
+
+const ORG_WORD = "[A-Z][A-Za-z'’&.-]*";
+const ORG_NAME = `${ORG_WORD}(?:[ \\t]+(?:(?:of|&|the|for)[ \\t]+)?${ORG_WORD})*`;
+
+// "University of Toronto", "Boston College", "Georgia Institute of Technology", "Lincoln High School"
+const INSTITUTION_PATTERN = new RegExp(
+    `\\b(?:(?:University|College|Institute|Academy|School|Polytechnic)[ \\t]+of[ \\t]+${ORG_NAME}|${ORG_NAME}[ \\t]+(?:University|College|Institute of Technology|Institute|Polytechnic|Academy|High School|School of [A-Z][a-z]+))\\b`,
+    'g'
+);
+
+// "Acme Corp", "Initech, Inc.", "Globex Holdings Ltd"
+const EMPLOYER_PATTERN = new RegExp(
+    `\\b${ORG_NAME},?[ \\t]+(?:Inc|LLC|Ltd|Limited|Corp|Corporation|Co|GmbH|AG|plc|PLC|S\\.A|Pty Ltd|LLP)\\b`,
+    'g'
+);
+
+// Capitalized words that start a sentence or name a degree rather than the organization
+const LEADING_NON_ORGANIZATION_WORDS = /^(?:(?:Graduated|Attended|Studied|Worked|Joined|At|From|B\.?Sc?\.?|M\.?Sc?\.?|B\.?A\.?|M\.?A\.?|MBA|Ph\.?D\.?)\s+)+/;
+
+const LETTER_OR_DIGIT_PATTERN = /[A-Za-z0-9À-ɏ]/;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Create a new mapping entry with a unique ID
+ */
+export const createOrganizationMapping = (mapping: Omit<OrganizationMapping, 'id'>): OrganizationMapping => ({
+    ...mapping,
+    id: `organization-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+});
+
+/**
+ * Format a descriptor as the placeholder written into the anonymized text
+ */
+export const formatDescriptor = (descriptor: string): string => `[${descriptor.trim()}]`;
+
+/**
+ * Find organizations listed in the mapping table, matching the name or any alias as whole words
+ */
+const findMappedOrganizations = (text: string, mappings: OrganizationMapping[]): PersonalIdentifier[] => {
+    const identifiers: PersonalIdentifier[] = [];
+
+    mappings.forEach(mapping => {
+        [mapping.name, ...mapping.aliases].map(form => form.trim()).filter(Boolean).forEach(form => {
+            const pattern = new RegExp(escapeRegExp(form).replace(/\s+/g, '\\s+'), 'gi');
+            let match;
+            while ((match = pattern.exec(text)) !== null) {
+                const before = text[match.index - 1];
+                const after = text[match.index + match[0].length];
+                if ((before && LETTER_OR_DIGIT_PATTERN.test(before)) || (after && LETTER_OR_DIGIT_PATTERN.test(after))) continue;
+
+                identifiers.push({
+                    type: mapping.kind,
+                    value: match[0],
+                    index: match.index,
+                    replacement: formatDescriptor(mapping.descriptor || DEFAULT_DESCRIPTORS[mapping.kind]),
+                });
+            }
+        });
+    });
+
+    return identifiers;
+};
+
+/**
+ * Find institutions and employers that look like organization names but are not in the mapping table
+ */
+const findUnmappedOrganizations = (text: string, pattern: RegExp, kind: OrganizationKind): PersonalIdentifier[] => {
+    const identifiers: PersonalIdentifier[] = [];
+    pattern.lastIndex = 0;
+
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+        const leading = match[0].match(LEADING_NON_ORGANIZATION_WORDS);
+        const offset = leading ? leading[0].length : 0;
+        const value = match[0].substring(offset).trim();
+        if (value.split(/\s+/).length < 2) continue;
+
+        identifiers.push({
+            type: kind,
+            value,
+            index: match.index + offset,
+            replacement: formatDescriptor(DEFAULT_DESCRIPTORS[kind]),
+        });
+    }
+
+    return identifiers;
+};
+
+/**
+ * Detect education institutions and employers. Names in the mapping table get their
+ * descriptor; other detected organizations get the default descriptor for their kind.
+ */
+export const detectOrganizations = (text: string, mappings: OrganizationMapping[] = []): PersonalIdentifier[] => {
+    return [
+        ...findMappedOrganizations(text, mappings),
+        ...findUnmappedOrganizations(text, INSTITUTION_PATTERN, 'institution'),
+        ...findUnmappedOrganizations(text, EMPLOYER_PATTERN, 'employer'),
+    ];
+};
+
+/**
+ * Check whether a detected organization name is already covered by the mapping table
+ */
+export const isMappedOrganization = (name: string, mappings: OrganizationMapping[]): boolean => {
+    const normalized = name.trim().toLowerCase();
+    return mappings.some(mapping => [mapping.name, ...mapping.aliases].some(form => form.trim().toLowerCase() === normalized));
+};
+
+/**
+ * Parse a mapping JSON file. Accepts either the exported wrapper or a bare array of entries.
+ */
+export const parseOrganizationMappingJSON = (json: string): OrganizationMapping[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error('Mapping file is not valid JSON');
+    }
+
+    const entries: unknown = Array.isArray(data)
+        ? data
+        : data && typeof data === 'object' ? (data as { entries?: unknown }).entries : undefined;
+    if (!Array.isArray(entries)) {
+        throw new Error('Mapping file must contain an array of entries');
+    }
+
+    return entries.map((value: unknown, index) => {
+        const position = index + 1;
+        const raw = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+        const { name, kind } = raw;
+        if (typeof name !== 'string' || !name.trim()) {
+            throw new Error(`Entry ${position} has no organization name`);
+        }
+        if (typeof kind !== 'string' || (ORGANIZATION_KINDS as string[]).indexOf(kind) === -1) {
+            throw new Error(`Entry ${position} has an unknown kind "${String(kind)}"`);
+        }
+
+        const mapping = {
+            name: name.trim(),
+            aliases: Array.isArray(raw.aliases)
+                ? raw.aliases.filter((alias: unknown): alias is string => typeof alias === 'string' && alias.trim() !== '')
+                : [],
+            kind: kind as OrganizationKind,
+            descriptor: typeof raw.descriptor === 'string' ? raw.descriptor.trim() : '',
+        };
+
+        return typeof raw.id === 'string' && raw.id ? { ...mapping, id: raw.id } : createOrganizationMapping(mapping);
+    });
+};
+
+/**
+ * Merge imported entries into the table. Imported entries replace existing ones with the same name.
+ */
+export const mergeOrganizationMappings = (
+    existing: OrganizationMapping[],
+    imported: OrganizationMapping[]
+): OrganizationMapping[] => {
+    const importedNames = new Set(imported.map(mapping => mapping.name.toLowerCase()));
+    return [...existing.filter(mapping => !importedNames.has(mapping.name.toLowerCase())), ...imported];
+};
+
+/**
+ * Download the mapping table as a JSON file that can be shared with the team
+ */
+export const exportOrganizationMappings = (
+    mappings: OrganizationMapping[],
+    filename: string = 'organization-mapping.json'
+): void => {
+    exportToJSON(
+        {
+            version: MAPPING_FILE_VERSION,
+            exportDate: new Date().toISOString(),
+            entries: mappings,
+        },
+        { filename, pretty: true }
+    );
+};
+
+export default {
+    createOrganizationMapping,
+    formatDescriptor,
+    detectOrganizations,
+    isMappedOrganization,
+    parseOrganizationMappingJSON,
+    mergeOrganizationMappings,
+    exportOrganizationMappings,
+};
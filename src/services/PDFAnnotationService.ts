@@ -1,6 +1,7 @@
 import serviceWorkerRegistration from './ServiceWorkerRegistrationService';
 import {SearchResult} from './PDFService';
 import {WorkerService} from "./WorkerService";
+import {getRecognizedPages} from "./OCRService";
 
 /**
  * Search for text in PDF
@@ -21,7 +22,8 @@ export const searchText = async (
             content: pdfData,
             action: "search",
             searchText: searchText,
-            options: options
+            options: options,
+            ocrPages: getRecognizedPages(pdfData)
         });
     } catch (error) {
         console.error('Error searching PDF:', error);
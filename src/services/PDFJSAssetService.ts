@@ -0,0 +1,17 @@
+/**
+ * Locations of the pdf.js worker and font data. They are served from the app's own build output,
+ * copied from the installed pdfjs-dist package by the pdfjs-assets plugin in vite.config.ts, so
+ * they always match the library version in package.json and work without network access.
+ */
+
+export const PDFJS_ASSET_BASE = '/pdfjs/';
+
+export const PDFJS_WORKER_SRC = `${PDFJS_ASSET_BASE}build/pdf.worker.min.mjs`;
+
+export const PDFJS_STANDARD_FONT_DATA_URL = `${PDFJS_ASSET_BASE}standard_fonts/`;
+
+export default {
+    PDFJS_ASSET_BASE,
+    PDFJS_WORKER_SRC,
+    PDFJS_STANDARD_FONT_DATA_URL,
+};
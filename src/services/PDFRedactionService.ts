@@ -0,0 +1,121 @@
+/**
+ * Service for redacting identifiers in the original PDF of a resume, keeping its layout
+ */
+import { WorkerService } from './WorkerService';
+import { splitSectionReplacements } from './AnalysisService';
+import { getRecognizedPages } from './OCRService';
+import type { OCRPage } from './OCRService';
+
+export type PDFRedactionStyle = 'box' | 'label';
+
+export interface PDFRedactionTarget {
+    // Text to remove from the PDF
+    text: string;
+    // Placeholder written over the removed text in the 'label' style
+    label: string;
+}
+
+export interface PDFRedactionResult {
+    pdf: ArrayBuffer;
+    // Targets that were not found in the PDF text or in the words recognized by OCR
+    unlocated: string[];
+}
+
+// Box around one located piece of text, in PDF user space
+interface LocatedText {
+    pageNumber: number;
+    text: string;
+    matchId: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Build redaction targets from the replacements made by anonymizeText, with removed sections
+ * searched for line by line
+ */
+export const getRedactionTargets = (
+    replacements: { original: string; replacement: string; type?: string }[]
+): PDFRedactionTarget[] => {
+    return splitSectionReplacements(replacements).map(({ original, replacement }) => ({ text: original, label: replacement }));
+};
+
+// Each distinct target text, with the label of its first target
+const getTargetLabels = (targets: PDFRedactionTarget[]): Map<string, string> => {
+    const labels = new Map<string, string>();
+    targets.forEach(({ text, label }) => {
+        const value = text.trim();
+        if (value && !labels.has(value)) labels.set(value, label);
+    });
+    return labels;
+};
+
+/**
+ * Find every occurrence of each target with the search worker. Scanned pages are searched using
+ * the words recognized when the resume was processed.
+ */
+const locateTargets = async (
+    content: ArrayBuffer,
+    searchTexts: string[]
+): Promise<{ located: LocatedText[]; unlocated: string[] }> => {
+    if (typeof Worker === 'undefined') {
+        throw new Error('Web Workers are not supported in this environment');
+    }
+
+    const located = await WorkerService.executeTask<{ content: ArrayBuffer; searchTexts: string[]; ocrPages?: OCRPage[]; action: string }, LocatedText[]>(
+        'pdfSearchWorker',
+        { content, searchTexts, ocrPages: getRecognizedPages(content), action: 'locate' }
+    );
+
+    const locatedTexts = new Set(located.map(box => box.text));
+    return { located, unlocated: searchTexts.filter(text => !locatedTexts.has(text)) };
+};
+
+/**
+ * Targets that would not be found in a PDF, without redacting it. Lets a batch export check
+ * every file before anything is written.
+ */
+export const findUnlocatedTargets = async (content: ArrayBuffer, targets: PDFRedactionTarget[]): Promise<string[]> => {
+    const { unlocated } = await locateTargets(content, Array.from(getTargetLabels(targets).keys()));
+    return unlocated;
+};
+
+/**
+ * Redact a PDF. Every occurrence of each target is located with the search worker, then the
+ * annotation worker burns the boxes into a re-rendered copy of the document that has no
+ * text layer and no metadata.
+ */
+export const redactPDF = async (
+    content: ArrayBuffer,
+    targets: PDFRedactionTarget[],
+    style: PDFRedactionStyle = 'box'
+): Promise<PDFRedactionResult> => {
+    const labels = getTargetLabels(targets);
+
+    // The workers share one message listener per task, so they run one after the other
+    const { located, unlocated } = await locateTargets(content, Array.from(labels.keys()));
+
+    // A value split across text items is covered by several boxes; only the first gets the label
+    const labelledMatches = new Set<number>();
+    const redactions = located.map(({ pageNumber, text, matchId, x, y, width, height }) => {
+        const isFirstPart = !labelledMatches.has(matchId);
+        labelledMatches.add(matchId);
+
+        return { pageNumber, x, y, width, height, label: isFirstPart ? labels.get(text) : undefined };
+    });
+
+    const pdf = await WorkerService.executeTask<{ pdfBuffer: ArrayBuffer; redactions: typeof redactions; options: { style: PDFRedactionStyle }; action: string }, ArrayBuffer>(
+        'pdfAnnotationWorker',
+        { pdfBuffer: content, redactions, options: { style }, action: 'redact' }
+    );
+
+    return { pdf, unlocated };
+};
+
+export default {
+    getRedactionTargets,
+    findUnlocatedTargets,
+    redactPDF,
+};
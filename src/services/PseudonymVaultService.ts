@@ -0,0 +1,167 @@
+/**
+ * Service for keeping the pseudonym-to-original mapping in an encrypted local vault,
+ * so a recruiter can re-identify a candidate only after the blind review
+ */
+
+export interface PseudonymEntry {
+    pseudonym: string;
+    original: string;
+    type: string;
+}
+
+export interface EncryptedVaultEntry {
+    version: number;
+    fileName: string;
+    createdAt: string;
+    // Base64 encoded PBKDF2 salt, AES-GCM IV and ciphertext
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+const VAULT_STORAGE_KEY = 'resume-anonymizer-key-vault';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 250000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Derive an AES-GCM key from the passphrase
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+/**
+ * Build vault entries from the replacements made by anonymizeText. Several forms of
+ * one name share a pseudonym, so the longest original (usually the full name) is kept.
+ */
+export const buildPseudonymEntries = (
+    replacements: { original: string; replacement: string; type: string }[]
+): PseudonymEntry[] => {
+    const entries = new Map<string, PseudonymEntry>();
+
+    replacements.forEach(({ original, replacement, type }) => {
+        const existing = entries.get(replacement);
+        if (!existing || original.length > existing.original.length) {
+            entries.set(replacement, { pseudonym: replacement, original, type });
+        }
+    });
+
+    return Array.from(entries.values());
+};
+
+/**
+ * Encrypt the pseudonym mapping for one resume under a passphrase
+ */
+export const encryptPseudonyms = async (
+    entries: PseudonymEntry[],
+    passphrase: string,
+    fileName: string
+): Promise<EncryptedVaultEntry> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const encrypted = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(JSON.stringify(entries))
+    );
+
+    return {
+        version: VAULT_VERSION,
+        fileName,
+        createdAt: new Date().toISOString(),
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(encrypted)),
+    };
+};
+
+/**
+ * Decrypt a vault entry. AES-GCM rejects a wrong passphrase, which is reported as such.
+ */
+export const decryptPseudonyms = async (entry: EncryptedVaultEntry, passphrase: string): Promise<PseudonymEntry[]> => {
+    const key = await deriveKey(passphrase, fromBase64(entry.salt));
+
+    let decrypted: ArrayBuffer;
+    try {
+        decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(entry.iv) }, key, fromBase64(entry.data));
+    } catch (error) {
+        throw new Error('Incorrect passphrase');
+    }
+
+    return JSON.parse(new TextDecoder().decode(decrypted));
+};
+
+const readVault = (): Record<string, EncryptedVaultEntry> => {
+    try {
+        const stored = window.localStorage.getItem(VAULT_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.warn('Error reading the pseudonym vault:', error);
+        return {};
+    }
+};
+
+/**
+ * Store the encrypted mapping for a resume, replacing any earlier one
+ */
+export const saveVaultEntry = (resumeId: string, entry: EncryptedVaultEntry): void => {
+    window.localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify({ ...readVault(), [resumeId]: entry }));
+};
+
+/**
+ * Get the encrypted mapping for a resume, if one was stored
+ */
+export const loadVaultEntry = (resumeId: string): EncryptedVaultEntry | null => {
+    return readVault()[resumeId] || null;
+};
+
+/**
+ * Encrypt and store the pseudonyms used in one anonymized resume
+ */
+export const storePseudonyms = async (
+    resumeId: string,
+    fileName: string,
+    replacements: { original: string; replacement: string; type: string }[],
+    passphrase: string
+): Promise<void> => {
+    const entry = await encryptPseudonyms(buildPseudonymEntries(replacements), passphrase, fileName);
+    saveVaultEntry(resumeId, entry);
+};
+
+/**
+ * Put the original values back in place of their pseudonyms
+ */
+export const revealText = (text: string, entries: PseudonymEntry[]): string => {
+    return [...entries]
+        .sort((a, b) => b.pseudonym.length - a.pseudonym.length)
+        .reduce((result, entry) => result.split(entry.pseudonym).join(entry.original), text);
+};
+
+export default {
+    buildPseudonymEntries,
+    encryptPseudonyms,
+    decryptPseudonyms,
+    saveVaultEntry,
+    loadVaultEntry,
+    storePseudonyms,
+    revealText,
+};
@@ -0,0 +1,150 @@
+/**
+ * Service for scoring how easy a job description is to read
+ */
+
+export interface LongSentence {
+    text: string;
+    index: number;
+    wordCount: number;
+}
+
+export interface ReadabilityResult {
+    fleschKincaidGrade: number;
+    averageSentenceLength: number;
+    passiveVoiceRatio: number;
+    acronymDensity: number;
+    jargonDensity: number;
+    wordCount: number;
+    sentenceCount: number;
+    acronyms: string[];
+    jargonTerms: string[];
+    longSentences: LongSentence[];
+}
+
+// Corporate buzzwords and idioms that obscure what the role actually involves
+const jargonPhrases = [
+    'synergy', 'synergies', 'leverage', 'leveraging', 'paradigm', 'bandwidth', 'move the needle',
+    'hit the ground running', 'low-hanging fruit', 'deep dive', 'circle back', 'best-of-breed', 'best in class',
+    'value-add', 'thought leader', 'thought leadership', 'disruptive', 'disrupt', 'ecosystem',
+    'holistic', 'proactive', 'wheelhouse', 'blue-sky', 'game-changer', 'mission-critical',
+    'cutting-edge', 'bleeding-edge', 'world-class', 'self-starter', 'go-getter', 'results-driven', 'dynamic',
+    'fast-paced', 'wear many hats', 'boil the ocean', 'drink the kool-aid', 'take it offline', 'actionable',
+    'ideate', 'operationalize', 'north star', 'empower'
+];
+
+// Acronyms so common they do not hurt comprehension
+const commonAcronyms = new Set(['OK', 'US', 'UK', 'EU', 'CEO', 'CV', 'HR', 'FAQ', 'PM', 'AM']);
+
+// Irregular past participles that commonly follow "to be" in passive constructions
+const irregularParticiples = [
+    'been', 'born', 'brought', 'built', 'chosen', 'done', 'drawn', 'driven', 'given', 'grown', 'held', 'hidden',
+    'kept', 'known', 'led', 'left', 'made', 'met', 'paid', 'put', 'run', 'seen', 'sent', 'set', 'shown', 'sought',
+    'spent', 'taken', 'taught', 'told', 'thought', 'understood', 'won', 'written'
+];
+
+const passivePattern = new RegExp(
+    `\\b(am|is|are|was|were|be|been|being)\\s+(\\w+ly\\s+)?(\\w+ed|${irregularParticiples.join('|')})\\b`,
+    'i'
+);
+
+/**
+ * Estimate the number of syllables in a word
+ */
+const countSyllables = (word: string): number => {
+    const normalized = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (normalized.length <= 3) return 1;
+
+    const trimmed = normalized
+        .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+        .replace(/^y/, '');
+    const vowelGroups = trimmed.match(/[aeiouy]{1,2}/g);
+
+    return Math.max(1, vowelGroups ? vowelGroups.length : 0);
+};
+
+/**
+ * Split text into sentences, treating list items and line breaks as sentence boundaries
+ */
+const splitSentences = (text: string): { text: string; index: number }[] => {
+    const sentences: { text: string; index: number }[] = [];
+    const sentencePattern = /[^.!?\n]+[.!?]*/g;
+
+    let match;
+    while ((match = sentencePattern.exec(text)) !== null) {
+        const raw = match[0];
+        const leading = raw.length - raw.trimStart().length;
+        const sentence = raw.trim().replace(/^[-*•\d.)\s]+/, '');
+
+        if (/[A-Za-z]/.test(sentence)) {
+            sentences.push({ text: raw.trim(), index: match.index + leading });
+        }
+    }
+
+    return sentences;
+};
+
+const getWords = (text: string): string[] => text.match(/[A-Za-z0-9][A-Za-z0-9'’-]*/g) || [];
+
+const round = (value: number, decimals: number = 1): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Analyze text for readability, passive voice, acronyms and jargon
+ */
+export const analyzeReadability = (text: string, options: {
+    longSentenceThreshold?: number
+} = {}): ReadabilityResult => {
+    const { longSentenceThreshold = 25 } = options;
+
+    const sentences = splitSentences(text);
+    const words = getWords(text);
+    const wordCount = words.length;
+    const sentenceCount = Math.max(1, sentences.length);
+
+    // Flesch-Kincaid grade level
+    const syllableCount = words.reduce((total, word) => total + countSyllables(word), 0);
+    const averageSentenceLength = wordCount / sentenceCount;
+    const fleschKincaidGrade = wordCount > 0
+        ? 0.39 * averageSentenceLength + 11.8 * (syllableCount / wordCount) - 15.59
+        : 0;
+
+    // Passive voice, measured per sentence
+    const passiveSentences = sentences.filter(sentence => passivePattern.test(sentence.text)).length;
+
+    // Acronyms: all-caps tokens of two or more letters, optionally pluralized
+    const acronymHits = words.filter(word => /^[A-Z]{2,}s?$/.test(word) && !commonAcronyms.has(word.replace(/s$/, '')));
+
+    // Jargon phrases, matched as whole words
+    const lowerText = text.toLowerCase();
+    const jargonHits: string[] = [];
+    jargonPhrases.forEach(phrase => {
+        const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]+');
+        const matches = lowerText.match(new RegExp(`\\b${escaped}\\b`, 'g'));
+        if (matches) {
+            matches.forEach(() => jargonHits.push(phrase));
+        }
+    });
+
+    const longSentences = sentences
+        .map(sentence => ({ ...sentence, wordCount: getWords(sentence.text).length }))
+        .filter(sentence => sentence.wordCount > longSentenceThreshold);
+
+    return {
+        fleschKincaidGrade: round(Math.max(0, fleschKincaidGrade)),
+        averageSentenceLength: round(averageSentenceLength),
+        passiveVoiceRatio: sentences.length > 0 ? round(passiveSentences / sentences.length, 2) : 0,
+        acronymDensity: wordCount > 0 ? round(acronymHits.length / wordCount, 3) : 0,
+        jargonDensity: wordCount > 0 ? round(jargonHits.length / wordCount, 3) : 0,
+        wordCount,
+        sentenceCount: sentences.length,
+        acronyms: Array.from(new Set(acronymHits)),
+        jargonTerms: Array.from(new Set(jargonHits)),
+        longSentences
+    };
+};
+
+export default {
+    analyzeReadability
+};
@@ -0,0 +1,201 @@
+/**
+ * Service for detecting requirements inflation in job descriptions
+ */
+
+export type RequirementClassification = 'required' | 'preferred';
+
+export interface RequirementItem {
+    text: string;
+    line: string;
+    index: number;
+    section: string;
+    classification: RequirementClassification;
+    yearsOfExperience?: number;
+    requiresDegree: boolean;
+}
+
+export interface RequirementsWarning {
+    message: string;
+    items: RequirementItem[];
+}
+
+export interface RequirementsAnalysis {
+    items: RequirementItem[];
+    requiredCount: number;
+    preferredCount: number;
+    yearsOfExperienceDemands: number;
+    degreeRequirements: number;
+    maxRequiredItems: number;
+    warnings: RequirementsWarning[];
+}
+
+interface RequirementSection {
+    heading: string;
+    classification: RequirementClassification;
+    headingIndex: number;
+    items: RequirementItem[];
+    end: number;
+}
+
+export const DEFAULT_MAX_REQUIRED_ITEMS = 6;
+
+const PREFERRED_HEADING = 'Nice to have:';
+
+// Headings that open a qualifications list
+const requirementsHeadingPattern = /\b(requirements?|qualifications?|must[- ]haves?|what you('ll)? (need|bring)|who you are|skills|experience|about you|nice[- ]to[- ]haves?|bonus( points)?|pluses|preferred|desired)\b/i;
+const preferredHeadingPattern = /\b(preferred|nice[- ]to[- ]haves?|bonus|pluses|desired|desirable|additional)\b/i;
+
+// Markers that classify an individual bullet regardless of its section
+const preferredItemPattern = /\b(preferred|nice[- ]to[- ]have|a plus|is a bonus|bonus points|ideally|desirable|not required)\b/i;
+const requiredItemPattern = /\b(must|required|mandatory|minimum( of)?|at least)\b/i;
+
+const bulletPattern = /^\s*([-*•▪◦‣]|\d+[.)])\s+/;
+const yearsPattern = /(\d+)\s*\+?\s*(?:(?:-|–|to)\s*\d+\s*)?(?:years?|yrs?)\b/i;
+const degreePattern = /\b(bachelor'?s?|master'?s?|ph\.?\s?d\.?|doctorate|mba|b\.?\s?sc?\.?|m\.?\s?sc?\.?|b\.a\.|m\.a\.|degree)\b/i;
+const degreeEquivalentPattern = /\bor (equivalent|comparable|related)( practical| professional| work)? (experience|background)\b/i;
+
+/**
+ * A heading is a short line that names a section, e.g. "Requirements:" or "## Nice to have"
+ */
+const isHeading = (line: string): boolean => {
+    const trimmed = line.trim().replace(/^#+\s*/, '');
+    if (!trimmed || bulletPattern.test(line) || trimmed.length > 60) return false;
+    return trimmed.endsWith(':') || /^#+\s/.test(line.trim()) || (trimmed.split(/\s+/).length <= 5 && !/[.!?]$/.test(trimmed));
+};
+
+/**
+ * Split text into qualification sections with their bullet items
+ */
+const parseSections = (text: string): RequirementSection[] => {
+    const sections: RequirementSection[] = [];
+    let current: RequirementSection | null = null;
+    let offset = 0;
+
+    text.split('\n').forEach(line => {
+        const lineStart = offset;
+        offset += line.length + 1;
+
+        if (isHeading(line)) {
+            const heading = line.trim().replace(/^#+\s*/, '').replace(/:$/, '');
+            current = requirementsHeadingPattern.test(heading)
+                ? {
+                    heading,
+                    classification: preferredHeadingPattern.test(heading) ? 'preferred' : 'required',
+                    headingIndex: lineStart,
+                    items: [],
+                    end: lineStart + line.length,
+                }
+                : null;
+            if (current) sections.push(current);
+            return;
+        }
+
+        if (!current || !line.trim()) return;
+
+        // Only list items belong to a section; a prose paragraph ends it
+        if (!bulletPattern.test(line)) {
+            current = null;
+            return;
+        }
+
+        const itemText = line.replace(bulletPattern, '').trim();
+        const years = itemText.match(yearsPattern);
+        const requiresDegree = degreePattern.test(itemText);
+
+        let classification = current.classification;
+        if (preferredItemPattern.test(itemText)) classification = 'preferred';
+        else if (requiredItemPattern.test(itemText)) classification = 'required';
+
+        current.items.push({
+            text: itemText,
+            line,
+            index: lineStart,
+            section: current.heading,
+            classification,
+            yearsOfExperience: years ? parseInt(years[1], 10) : undefined,
+            requiresDegree,
+        });
+        current.end = lineStart + line.length;
+    });
+
+    return sections;
+};
+
+/**
+ * Analyze the requirements and qualifications sections of a job description
+ */
+export const analyzeRequirements = (text: string, options: {
+    maxRequiredItems?: number
+} = {}): RequirementsAnalysis => {
+    const { maxRequiredItems = DEFAULT_MAX_REQUIRED_ITEMS } = options;
+
+    const items = parseSections(text).flatMap(section => section.items);
+    const required = items.filter(item => item.classification === 'required');
+    const warnings: RequirementsWarning[] = [];
+
+    if (required.length > maxRequiredItems) {
+        // Items listed last are usually the least essential, so suggest those first
+        warnings.push({
+            message: `${required.length} required qualifications exceeds the limit of ${maxRequiredItems}. Long lists of hard requirements deter qualified candidates from applying.`,
+            items: required.slice(maxRequiredItems),
+        });
+    }
+
+    const strictDegrees = required.filter(item => item.requiresDegree && !degreeEquivalentPattern.test(item.text));
+    if (strictDegrees.length > 0) {
+        warnings.push({
+            message: 'Degree requirements without "or equivalent experience" screen out candidates with non-traditional backgrounds.',
+            items: strictDegrees,
+        });
+    }
+
+    return {
+        items,
+        requiredCount: required.length,
+        preferredCount: items.length - required.length,
+        yearsOfExperienceDemands: items.filter(item => item.yearsOfExperience !== undefined).length,
+        degreeRequirements: items.filter(item => item.requiresDegree).length,
+        maxRequiredItems,
+        warnings,
+    };
+};
+
+/**
+ * Move a required item into the "nice to have" section, creating that section if needed
+ */
+export const moveRequirementToPreferred = (text: string, item: RequirementItem): string => {
+    // Identical lines can appear more than once, so use the item's own position when it still matches
+    const lineIndex = text.substr(item.index, item.line.length) === item.line ? item.index : text.indexOf(item.line);
+    if (lineIndex === -1) return text;
+
+    // Remove the item's line from its current section
+    const lineEnd = text.indexOf('\n', lineIndex);
+    const withoutItem = lineEnd === -1
+        ? text.substring(0, lineIndex).replace(/\n$/, '')
+        : text.substring(0, lineIndex) + text.substring(lineEnd + 1);
+
+    // Keep the bullet marker but drop wording that made it mandatory
+    const movedLine = item.line
+        .replace(/\b(must have|must be|is required|are required|required|mandatory)\b\s*/gi, '')
+        .replace(/\s{2,}/g, ' ');
+
+    const sections = parseSections(withoutItem);
+    const preferred = sections.find(section => section.classification === 'preferred');
+
+    if (preferred) {
+        return withoutItem.substring(0, preferred.end) + '\n' + movedLine + withoutItem.substring(preferred.end);
+    }
+
+    // No preferred section yet; open one right after the section the item came from
+    const source = sections.find(section => section.heading === item.section) || sections[sections.length - 1];
+    const insertAt = source ? source.end : withoutItem.length;
+
+    return withoutItem.substring(0, insertAt) +
+        `\n\n${PREFERRED_HEADING}\n${movedLine}` +
+        withoutItem.substring(insertAt);
+};
+
+export default {
+    analyzeRequirements,
+    moveRequirementToPreferred,
+};
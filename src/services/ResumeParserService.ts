@@ -0,0 +1,387 @@
+/**
+ * Service for splitting resume text into sections and structured fields
+ */
+import { recognizeNames } from './NameRecognitionService';
+
+export type ResumeSectionKind =
+    'contact' | 'personal' | 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'interests' | 'references' | 'other';
+
+// A parsed value with how sure the parser is about it, from 0 to 1
+export interface ParsedField {
+    value: string;
+    confidence: number;
+}
+
+export interface ResumeSection {
+    kind: ResumeSectionKind;
+    // Heading as written in the resume, empty for the contact block at the top
+    heading: string;
+    text: string;
+    // Line number of the first line of the section, starting at 0
+    startLine: number;
+    // Character offsets of the section in the text, heading included
+    start: number;
+    end: number;
+}
+
+export interface ResumeContact {
+    name?: ParsedField;
+    email?: ParsedField;
+    phone?: ParsedField;
+    location?: ParsedField;
+    links: ParsedField[];
+}
+
+export interface ExperienceEntry {
+    employer?: ParsedField;
+    title?: ParsedField;
+    startDate?: ParsedField;
+    endDate?: ParsedField;
+    description: string[];
+}
+
+export interface EducationEntry {
+    institution?: ParsedField;
+    degree?: ParsedField;
+    fieldOfStudy?: ParsedField;
+    graduationDate?: ParsedField;
+}
+
+export interface CertificationEntry {
+    name: ParsedField;
+    date?: ParsedField;
+}
+
+export interface SkillField extends ParsedField {
+    // Group label from the resume, e.g. "Languages" in "Languages: Python, Go"
+    category?: string;
+}
+
+export interface ParsedResume {
+    contact: ResumeContact;
+    summary?: ParsedField;
+    experience: ExperienceEntry[];
+    education: EducationEntry[];
+    skills: SkillField[];
+    certifications: CertificationEntry[];
+    sections: ResumeSection[];
+}
+
+// Headings for each section, matched against a whole line
+const SECTION_HEADINGS: { kind: ResumeSectionKind; pattern: RegExp }[] = [
+    { kind: 'personal', pattern: /^personal\s+(?:details|information|info|data|particulars)$/i },
+    { kind: 'summary', pattern: /^(?:professional\s+|career\s+|executive\s+)?(?:summary|profile|objective|about(?:\s+me)?|overview)$/i },
+    { kind: 'experience', pattern: /^(?:(?:work|professional|relevant|employment|career)\s+)?(?:experience|history|employment(?:\s+history)?)$|^work$/i },
+    { kind: 'education', pattern: /^(?:education(?:\s+(?:and|&)\s+training)?|academic\s+(?:background|history|qualifications)|qualifications)$/i },
+    { kind: 'skills', pattern: /^(?:(?:technical|core|key|professional)\s+)?(?:skills|competencies|expertise|technologies|tools)(?:\s+(?:and|&)\s+\w+)?$/i },
+    { kind: 'certifications', pattern: /^(?:certifications?|licen[cs]es?(?:\s+(?:and|&)\s+certifications?)?|certifications?\s+(?:and|&)\s+licen[cs]es?|courses?|training)$/i },
+    { kind: 'interests', pattern: /^(?:(?:personal\s+)?interests?|hobbies(?:\s+(?:and|&)\s+interests)?|interests\s+(?:and|&)\s+hobbies)$/i },
+    { kind: 'references', pattern: /^(?:references?|referees?)(?:\s+available\s+(?:up)?on\s+request)?$/i },
+    { kind: 'other', pattern: /^(?:projects?|awards?|honou?rs?|publications?|volunteer(?:ing)?(?:\s+experience)?|languages?|activities)$/i },
+];
+
+const BULLET_PATTERN = /^\s*[•\-*–·▪●◦►]\s+/;
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE = `(?:${MONTH}\\.?\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE_PATTERN = new RegExp(`\\(?(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)\\)?`, 'i');
+const SINGLE_DATE_PATTERN = new RegExp(`\\b${DATE}\\b`, 'gi');
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/;
+const LINK_PATTERN = /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com\/in|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[\w-]+\/?|\bhttps?:\/\/[^\s|,;]+/gi;
+const LOCATION_PATTERN = /\b[A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)*,\s?(?:[A-Z]{2}\b|[A-Z][a-z]+(?:\s[A-Z][a-z]+)*)/;
+
+// Words that mark a job title, and endings that mark a company name
+const TITLE_WORDS = /\b(?:engineer|developer|manager|analyst|designer|director|intern|consultant|specialist|lead|head|officer|assistant|coordinator|scientist|architect|administrator|associate|representative|teacher|nurse|accountant|advisor|executive|president|founder|technician|researcher|editor|writer|programmer|supervisor|strategist|recruiter|product owner|vp)\b/i;
+const EMPLOYER_SUFFIX = /\b(?:Inc|LLC|Ltd|Limited|Corp|Corporation|Co|GmbH|AG|plc|PLC|LLP|Group|Technologies|Labs|Systems|Solutions|Partners|Agency|Bank|Hospital)\b\.?/;
+
+const INSTITUTION_PATTERN = /\b(?:[A-Z][\w.'&-]*[ \t]+)*(?:University|College|Institute|School|Academy|Polytechnic)(?:[ \t]+(?:of|for|at)[ \t]+[A-Z][\w.'&-]*(?:[ \t]+[A-Z][\w.'&-]*)*)?/;
+const DEGREE_PATTERN = /\b(?:Bachelor(?:'s)?|Master(?:'s)?|Doctor(?:ate)?|Associate(?:'s)?|Ph\.?\s?D\.?|MBA|M\.?\s?B\.?\s?A\.?|B\.?\s?S\.?c?|M\.?\s?S\.?c?|B\.?\s?A\.?|M\.?\s?A\.?|B\.?\s?Eng\.?|M\.?\s?Eng\.?|High School Diploma|Diploma|Certificate|GED)(?![A-Za-z])(?:\s+(?:of|in)\s+(?:Science|Arts|Engineering|Business Administration|Fine Arts))?/;
+const FIELD_OF_STUDY_PATTERN = /\b(?:in|of)\s+([A-Z][A-Za-z&]+(?:\s+(?:and\s+|&\s+)?[A-Z][A-Za-z&]+)*)/;
+
+// Separators between the parts of a job heading, e.g. "Engineer | Acme Corp" or "Engineer, Acme Corp"
+const HEADING_SEPARATOR_PATTERN = /\s+[|—–-]\s+|\s*\|\s*|,\s+|\s+(?:at|@)\s+/;
+
+const findSectionKind = (line: string): ResumeSectionKind | null => {
+    const heading = line.trim().replace(/[:\s]+$/, '');
+    if (!heading || heading.length > 40) return null;
+
+    const match = SECTION_HEADINGS.find(({ pattern }) => pattern.test(heading));
+    return match ? match.kind : null;
+};
+
+const stripBullet = (line: string): string => line.replace(BULLET_PATTERN, '').trim();
+
+const field = (value: string, confidence: number): ParsedField => ({ value: value.trim(), confidence });
+
+/**
+ * Split the text into sections at known headings. Text before the first heading is the contact block.
+ */
+export const segmentResume = (text: string): ResumeSection[] => {
+    const lines = text.split('\n');
+    const sections: ResumeSection[] = [];
+    let current: ResumeSection = { kind: 'contact', heading: '', text: '', startLine: 0, start: 0, end: 0 };
+    const bodyLines: string[] = [];
+    let offset = 0;
+
+    // A section ends at the newline before the next heading
+    const closeSection = (end: number) => {
+        current.text = bodyLines.join('\n').trim();
+        current.end = Math.max(current.start, end);
+        if (current.text || current.heading) sections.push(current);
+        bodyLines.length = 0;
+    };
+
+    lines.forEach((line, index) => {
+        const kind = findSectionKind(line);
+        if (kind) {
+            closeSection(offset - 1);
+            current = { kind, heading: line.trim().replace(/[:\s]+$/, ''), text: '', startLine: index, start: offset, end: offset };
+        } else {
+            bodyLines.push(line);
+        }
+        offset += line.length + 1;
+    });
+    closeSection(text.length);
+
+    return sections;
+};
+
+/**
+ * Find the candidate's name, email, phone, location and profile links in the contact block
+ */
+const parseContact = (text: string): ResumeContact => {
+    const contact: ResumeContact = { links: [] };
+
+    const names = recognizeNames(text).filter(name => name.kind === 'primary');
+    if (names.length > 0) {
+        const best = names.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+        contact.name = field(best.value, best.confidence);
+    } else {
+        // Fall back to a short first line made of capitalized words
+        const firstLine = text.split('\n').map(line => line.trim()).find(Boolean) || '';
+        if (/^[A-Z][\w'’.-]*(?:\s+[A-Z][\w'’.-]*){1,3}$/.test(firstLine)) {
+            contact.name = field(firstLine, 0.5);
+        }
+    }
+
+    const email = text.match(EMAIL_PATTERN);
+    if (email) contact.email = field(email[0], 0.95);
+
+    const phone = text.replace(EMAIL_PATTERN, '').match(PHONE_PATTERN);
+    if (phone && phone[0].replace(/\D/g, '').length >= 7) contact.phone = field(phone[0], 0.85);
+
+    (text.match(LINK_PATTERN) || []).forEach(link => {
+        contact.links.push(field(link, 0.9));
+    });
+
+    const location = text
+        .split('\n')
+        .map(line => line.replace(EMAIL_PATTERN, '').replace(LINK_PATTERN, ''))
+        .map(line => line.match(LOCATION_PATTERN))
+        .find(Boolean);
+    if (location && (!contact.name || !location[0].includes(contact.name.value))) {
+        contact.location = field(location[0], 0.6);
+    }
+
+    return contact;
+};
+
+/**
+ * Group the lines of a section into entries. A new entry starts after a blank line, or at a
+ * heading-like line that follows bullet points or another date range.
+ */
+const groupEntries = (text: string): { headerLines: string[]; bodyLines: string[]; hasDates: boolean }[] => {
+    const entries: { headerLines: string[]; bodyLines: string[]; hasDates: boolean }[] = [];
+    let current: { headerLines: string[]; bodyLines: string[]; hasDates: boolean } | null = null;
+
+    text.split('\n').forEach(rawLine => {
+        const line = rawLine.trim();
+        if (!line) {
+            if (current && current.bodyLines.length > 0) current = null;
+            return;
+        }
+
+        const isBullet = BULLET_PATTERN.test(rawLine);
+        const hasDates = DATE_RANGE_PATTERN.test(line);
+        const looksLikeHeading = !isBullet && line.length <= 100 && (hasDates || TITLE_WORDS.test(line) || EMPLOYER_SUFFIX.test(line) || INSTITUTION_PATTERN.test(line));
+
+        if (!current
+            || (looksLikeHeading && current.bodyLines.length > 0)
+            || (hasDates && current.hasDates && !isBullet)) {
+            current = { headerLines: [], bodyLines: [], hasDates: false };
+            entries.push(current);
+        }
+
+        if (isBullet || (current.headerLines.length >= 3 && !looksLikeHeading)) {
+            current.bodyLines.push(stripBullet(line));
+        } else {
+            current.headerLines.push(line);
+        }
+        current.hasDates = current.hasDates || hasDates;
+    });
+
+    return entries;
+};
+
+/**
+ * Take the first date range out of the heading lines
+ */
+const extractDateRange = (lines: string[]): { startDate?: ParsedField; endDate?: ParsedField; rest: string[] } => {
+    let startDate: ParsedField | undefined;
+    let endDate: ParsedField | undefined;
+
+    const rest = lines.map(line => {
+        if (startDate) return line;
+        const match = line.match(DATE_RANGE_PATTERN);
+        if (!match) return line;
+
+        const dateConfidence = (value: string) => (/^\d{4}$/.test(value) ? 0.8 : 0.9);
+        startDate = field(match[1], dateConfidence(match[1]));
+        endDate = /^(?:present|current|now|today)$/i.test(match[2])
+            ? field('Present', 0.9)
+            : field(match[2], dateConfidence(match[2]));
+
+        return line.replace(match[0], ' ').replace(/\s*[|,—–-]\s*$/, '').replace(/^\s*[|,—–-]\s*/, '').trim();
+    }).filter(Boolean);
+
+    return { startDate, endDate, rest };
+};
+
+const parseExperience = (text: string): ExperienceEntry[] => {
+    return groupEntries(text).map(({ headerLines, bodyLines }) => {
+        const { startDate, endDate, rest } = extractDateRange(headerLines);
+        const entry: ExperienceEntry = { startDate, endDate, description: [...bodyLines] };
+
+        // "Engineer at Acme" says which part is which
+        const atMatch = rest[0] && rest[0].match(/^(.+?)\s+(?:at|@)\s+(.+)$/);
+        if (atMatch) {
+            entry.title = field(atMatch[1], 0.9);
+            entry.employer = field(atMatch[2].split(HEADING_SEPARATOR_PATTERN)[0], 0.85);
+        } else {
+            const parts = rest.slice(0, 2)
+                .flatMap(line => line.split(HEADING_SEPARATOR_PATTERN))
+                .map(part => part.trim())
+                .filter(part => part && !LOCATION_PATTERN.test(part) && !/^(?:remote|hybrid|on-?site)$/i.test(part));
+
+            const titleIndex = parts.findIndex(part => TITLE_WORDS.test(part));
+            const employerIndex = parts.findIndex((part, index) => index !== titleIndex && EMPLOYER_SUFFIX.test(part));
+
+            if (titleIndex >= 0) entry.title = field(parts[titleIndex], 0.85);
+            if (employerIndex >= 0) entry.employer = field(parts[employerIndex], 0.85);
+
+            // Otherwise go by position: the first remaining part is usually the title, then the employer
+            const remaining = parts.filter((_, index) => index !== titleIndex && index !== employerIndex);
+            if (!entry.title && remaining.length > 0) entry.title = field(remaining.shift() as string, 0.5);
+            if (!entry.employer && remaining.length > 0) entry.employer = field(remaining.shift() as string, 0.5);
+        }
+
+        // Heading lines after the title and employer are part of the description
+        entry.description.unshift(...rest.slice(2));
+
+        return entry;
+    }).filter(entry => entry.title || entry.employer);
+};
+
+const parseEducation = (text: string): EducationEntry[] => {
+    return groupEntries(text).map(({ headerLines, bodyLines }) => {
+        const entryText = [...headerLines, ...bodyLines].join('\n');
+        const entry: EducationEntry = {};
+
+        const institution = entryText.match(INSTITUTION_PATTERN);
+        if (institution) entry.institution = field(institution[0], 0.85);
+
+        const degreeLine = [...headerLines, ...bodyLines].find(line => DEGREE_PATTERN.test(line));
+        if (degreeLine) {
+            const degree = degreeLine.match(DEGREE_PATTERN) as RegExpMatchArray;
+            entry.degree = field(degree[0], 0.85);
+
+            const afterDegree = degreeLine.substring((degree.index || 0) + degree[0].length);
+            const fieldOfStudy = afterDegree.match(FIELD_OF_STUDY_PATTERN);
+            if (fieldOfStudy && !INSTITUTION_PATTERN.test(fieldOfStudy[1])) {
+                entry.fieldOfStudy = field(fieldOfStudy[1], 0.6);
+            }
+        }
+
+        // The last date in an education entry is usually the graduation date
+        const { endDate } = extractDateRange(headerLines);
+        const dates = entryText.match(SINGLE_DATE_PATTERN);
+        if (endDate) {
+            entry.graduationDate = endDate;
+        } else if (dates) {
+            entry.graduationDate = field(dates[dates.length - 1], 0.7);
+        }
+
+        return entry;
+    }).filter(entry => entry.institution || entry.degree);
+};
+
+const parseSkills = (text: string): SkillField[] => {
+    const skills: SkillField[] = [];
+
+    text.split('\n').map(stripBullet).filter(Boolean).forEach(line => {
+        const labelled = line.match(/^([A-Z][\w &/-]{1,30}):\s*(.+)$/);
+        const category = labelled ? labelled[1].trim() : undefined;
+        const list = labelled ? labelled[2] : line;
+
+        list.split(/\s*[,;|•·]\s*/).map(skill => skill.trim().replace(/\.$/, '')).filter(Boolean).forEach(skill => {
+            // Long fragments are sentences rather than skills
+            if (skill.split(/\s+/).length > 5) return;
+            skills.push({ ...field(skill, category ? 0.9 : 0.8), category });
+        });
+    });
+
+    return skills;
+};
+
+const parseCertifications = (text: string): CertificationEntry[] => {
+    return text.split('\n').map(stripBullet).filter(Boolean).map(line => {
+        const dates = line.match(SINGLE_DATE_PATTERN);
+        const name = line
+            .replace(SINGLE_DATE_PATTERN, '')
+            .replace(/\(\s*\)|\s*[|,—–-]\s*$/g, '')
+            .trim();
+
+        return {
+            name: field(name || line, 0.8),
+            date: dates ? field(dates[dates.length - 1], 0.8) : undefined,
+        };
+    });
+};
+
+/**
+ * Parse resume text into contact details, summary, experience, education, skills and certifications.
+ * Each field carries a confidence between 0 and 1; fields found by position rather than by a
+ * clear marker get a lower confidence.
+ */
+export const parseResume = (text: string): ParsedResume => {
+    const sections = segmentResume(text);
+    const textOf = (kind: ResumeSectionKind) => sections.filter(section => section.kind === kind).map(section => section.text).join('\n\n');
+
+    const contactText = textOf('contact');
+    const result: ParsedResume = {
+        contact: parseContact(contactText),
+        experience: parseExperience(textOf('experience')),
+        education: parseEducation(textOf('education')),
+        skills: parseSkills(textOf('skills')),
+        certifications: parseCertifications(textOf('certifications')),
+        sections,
+    };
+
+    const summaryText = textOf('summary');
+    if (summaryText) {
+        result.summary = field(summaryText.replace(/\s*\n\s*/g, ' '), 0.9);
+    } else {
+        // Without a heading, a long paragraph in the contact block is probably the summary
+        const paragraph = contactText.split(/\n\s*\n/).find(block => block.split(/\s+/).length >= 20);
+        if (paragraph) result.summary = field(paragraph.replace(/\s*\n\s*/g, ' '), 0.5);
+    }
+
+    return result;
+};
+
+export default {
+    segmentResume,
+    parseResume,
+};
@@ -0,0 +1,60 @@
+/**
+ * Service for managing named scoring policy profiles
+ */
+import { BiasCategory, DEFAULT_SCORING_POLICY, ScoringPolicy } from './AnalyzeBiasedLanguage';
+
+/**
+ * Create a new policy with a unique ID, starting from an existing one
+ */
+export const createScoringPolicy = (name: string, base: ScoringPolicy = DEFAULT_SCORING_POLICY): ScoringPolicy => ({
+    ...base,
+    categoryWeights: { ...base.categoryWeights },
+    severityWeights: { ...base.severityWeights },
+    id: `policy-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    name,
+});
+
+/**
+ * Get all selectable policies. The built-in default always comes first and cannot be edited.
+ */
+export const getAvailablePolicies = (customPolicies: ScoringPolicy[]): ScoringPolicy[] => {
+    return [DEFAULT_SCORING_POLICY, ...customPolicies];
+};
+
+/**
+ * Find the active policy, falling back to the default if it was deleted
+ */
+export const getActivePolicy = (customPolicies: ScoringPolicy[], activePolicyId: string): ScoringPolicy => {
+    return customPolicies.find(policy => policy.id === activePolicyId) || DEFAULT_SCORING_POLICY;
+};
+
+/**
+ * Sum of the category weights. Scores are only on a 0-100 scale when this is 1.
+ */
+export const getCategoryWeightTotal = (policy: ScoringPolicy): number => {
+    const total = Object.values(policy.categoryWeights).reduce((sum, weight) => sum + weight, 0);
+    return Math.round(total * 1000) / 1000;
+};
+
+/**
+ * Scale the category weights so they sum to 1, keeping their proportions
+ */
+export const normalizeCategoryWeights = (policy: ScoringPolicy): ScoringPolicy => {
+    const total = getCategoryWeightTotal(policy);
+    if (total <= 0) return policy;
+
+    const categoryWeights = { ...policy.categoryWeights };
+    (Object.keys(categoryWeights) as BiasCategory[]).forEach(category => {
+        categoryWeights[category] = Math.round((categoryWeights[category] / total) * 1000) / 1000;
+    });
+
+    return { ...policy, categoryWeights };
+};
+
+export default {
+    createScoringPolicy,
+    getAvailablePolicies,
+    getActivePolicy,
+    getCategoryWeightTotal,
+    normalizeCategoryWeights,
+};
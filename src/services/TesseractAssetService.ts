@@ -0,0 +1,25 @@
+/**
+ * Locations of the Tesseract OCR worker, engine and language data. Like the pdf.js assets they
+ * are copied from the installed packages into the app's build output by the tesseract-assets
+ * plugin in vite.config.ts, so OCR works without fetching anything from a CDN.
+ */
+
+export const TESSERACT_ASSET_BASE = '/tesseract/';
+
+export const TESSERACT_WORKER_PATH = `${TESSERACT_ASSET_BASE}worker.min.js`;
+
+// Directory holding the engine builds; Tesseract picks one by the browser's SIMD support
+export const TESSERACT_CORE_PATH = `${TESSERACT_ASSET_BASE}core`;
+
+export const TESSERACT_LANG_PATH = `${TESSERACT_ASSET_BASE}lang`;
+
+// Languages whose trained data is bundled
+export const TESSERACT_LANGUAGES = ['eng'];
+
+export default {
+    TESSERACT_ASSET_BASE,
+    TESSERACT_WORKER_PATH,
+    TESSERACT_CORE_PATH,
+    TESSERACT_LANG_PATH,
+    TESSERACT_LANGUAGES,
+};
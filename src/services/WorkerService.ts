@@ -3,6 +3,9 @@ type WorkerResponse<T> = {
   success: boolean;
   result?: T;
   error?: string;
+  // Set on messages sent before the result, such as 'ready' and 'progress'
+  action?: string;
+  progress?: unknown;
 };
 
 export class WorkerService {
@@ -51,11 +54,13 @@ export class WorkerService {
   }
 
   /**
-   * Execute a task in a worker
+   * Execute a task in a worker. Workers that report progress post
+   * { action: 'progress', progress } messages before the result.
    */
-  static executeTask<T, R>(
+  static executeTask<T, R, P = unknown>(
     workerName: string,
-    data: T
+    data: T,
+    onProgress?: (progress: P) => void
   ): Promise<R> {
     return new Promise((resolve, reject) => {
       try {
@@ -63,7 +68,11 @@ export class WorkerService {
 
         const handleMessage = (event: MessageEvent<WorkerResponse<R>>) => {
           if (event.data && event.data.action === "ready") {
-            console.log('WorkerService.says', event.action);
+            console.log('WorkerService.says', event.data.action);
+            return;
+          }
+          if (event.data && event.data.action === 'progress') {
+            if (onProgress) onProgress(event.data.progress as P);
             return;
           }
           worker.removeEventListener('message', handleMessage);
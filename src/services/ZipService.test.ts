@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createZipStream, getUniqueEntryName } from './ZipService';
+
+interface ParsedEntry {
+    name: string;
+    method: number;
+    crc: number;
+    data: Uint8Array;
+}
+
+const readStream = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> => {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    return readStream(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')));
+};
+
+// Independent CRC-32 (bitwise rather than table-driven) to check the archive against
+const referenceCrc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc ^= data[i];
+        for (let k = 0; k < 8; k++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+        }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Read an archive the way unzip does: from the end of central directory record, through the
+// central directory, to each entry's local header and data
+const parseZip = async (bytes: Uint8Array): Promise<ParsedEntry[]> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    expect(offset + view.getUint32(end + 12, true)).toBe(end);
+
+    const entries: ParsedEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        const method = view.getUint16(offset + 10, true);
+        const crc = view.getUint32(offset + 16, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const size = view.getUint32(offset + 24, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+        expect(view.getUint16(localOffset + 8, true)).toBe(method);
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + localNameLength))).toBe(name);
+
+        const dataStart = localOffset + 30 + localNameLength + view.getUint16(localOffset + 28, true);
+        const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+        const data = method === 0 ? compressed : await inflateRaw(compressed);
+        expect(data.length).toBe(size);
+
+        // The data descriptor after the entry repeats the CRC and sizes
+        const descriptor = dataStart + compressedSize;
+        expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+        expect(view.getUint32(descriptor + 4, true)).toBe(crc);
+        expect(view.getUint32(descriptor + 8, true)).toBe(compressedSize);
+        expect(view.getUint32(descriptor + 12, true)).toBe(size);
+
+        entries.push({ name, method, crc, data });
+        offset += 46 + nameLength;
+    }
+
+    return entries;
+};
+
+describe('createZipStream', () => {
+    it('round-trips deflated and stored entries', async () => {
+        const text = 'Software Engineer\n'.repeat(200);
+        const binary = new Uint8Array(1024).map((_, i) => (i * 31) % 256);
+
+        const archive = await readStream(createZipStream([
+            { name: 'resume-anonymized.txt', content: async () => text },
+            { name: 'résumé/scan.pdf', content: async () => binary, store: true },
+            { name: 'empty.txt', content: async () => '' },
+        ]));
+        const entries = await parseZip(archive);
+
+        expect(entries.map(entry => entry.name)).toEqual(['resume-anonymized.txt', 'résumé/scan.pdf', 'empty.txt']);
+        expect(entries.map(entry => entry.method)).toEqual([8, 0, 8]);
+        expect(new TextDecoder().decode(entries[0].data)).toBe(text);
+        expect(entries[1].data).toEqual(binary);
+        expect(entries[2].data.length).toBe(0);
+        entries.forEach(entry => expect(entry.crc).toBe(referenceCrc32(entry.data)));
+    });
+
+    it('matches the standard CRC-32 check value', async () => {
+        const [entry] = await parseZip(await readStream(createZipStream([
+            { name: 'check.txt', content: async () => '123456789', store: true },
+        ])));
+
+        expect(entry.crc).toBe(0xcbf43926);
+    });
+
+    it('writes an empty archive', async () => {
+        const archive = await readStream(createZipStream([]));
+
+        expect(archive.length).toBe(22);
+        expect(await parseZip(archive)).toEqual([]);
+    });
+});
+
+describe('getUniqueEntryName', () => {
+    it('numbers repeated names before the extension', () => {
+        const used = new Set<string>();
+
+        expect(getUniqueEntryName('resume.txt', used)).toBe('resume.txt');
+        expect(getUniqueEntryName('resume.txt', used)).toBe('resume-2.txt');
+        expect(getUniqueEntryName('resume.txt', used)).toBe('resume-3.txt');
+        expect(getUniqueEntryName('manifest', used)).toBe('manifest');
+        expect(getUniqueEntryName('manifest', used)).toBe('manifest-2');
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * Service for writing ZIP archives in the browser as a stream
+ */
+
+export interface ZipEntry {
+    // Path inside the archive, e.g. "resume-anonymized.txt"
+    name: string;
+    // Called when the entry is written, so only one entry's content is held in memory at a time
+    content: () => Promise<Uint8Array | string>;
+    // Store without compression, for formats that are already compressed such as PDF
+    store?: boolean;
+}
+
+interface CentralDirectoryRecord {
+    name: Uint8Array;
+    method: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+}
+
+// General purpose flags: sizes follow the data in a descriptor (bit 3), names are UTF-8 (bit 11)
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date, as stored in ZIP headers
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const createHeader = (size: number, write: (view: DataView) => void): Uint8Array => {
+    const bytes = new Uint8Array(size);
+    write(new DataView(bytes.buffer));
+    return bytes;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+/**
+ * Create a ZIP archive as a stream. Entries are produced and compressed one at a time as the
+ * stream is read, so archives of several hundred resumes never have to be held in memory at once.
+ * Archives are limited to 65,535 entries and 4 GB, as ZIP64 is not written.
+ */
+export const createZipStream = (entries: ZipEntry[], modified: Date = new Date()): ReadableStream<Uint8Array> => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(modified);
+    const records: CentralDirectoryRecord[] = [];
+    let entryIndex = 0;
+    let offset = 0;
+
+    const writeEntry = async (entry: ZipEntry, controller: ReadableStreamDefaultController<Uint8Array>) => {
+        const name = encoder.encode(entry.name);
+        const content = await entry.content();
+        const data = typeof content === 'string' ? encoder.encode(content) : content;
+        const method = entry.store ? 0 : 8;
+        const crc = crc32(data);
+
+        const localHeader = createHeader(30 + name.length, view => {
+            view.setUint32(0, 0x04034b50, true);
+            view.setUint16(4, ZIP_VERSION, true);
+            view.setUint16(6, ZIP_FLAGS, true);
+            view.setUint16(8, method, true);
+            view.setUint16(10, time, true);
+            view.setUint16(12, date, true);
+            view.setUint16(26, name.length, true);
+        });
+        localHeader.set(name, 30);
+        controller.enqueue(localHeader);
+
+        let compressedSize = 0;
+        if (method === 0) {
+            controller.enqueue(data);
+            compressedSize = data.length;
+        } else {
+            const reader = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw')).getReader();
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                controller.enqueue(value);
+                compressedSize += value.length;
+            }
+        }
+
+        controller.enqueue(createHeader(16, view => {
+            view.setUint32(0, 0x08074b50, true);
+            view.setUint32(4, crc, true);
+            view.setUint32(8, compressedSize, true);
+            view.setUint32(12, data.length, true);
+        }));
+
+        records.push({ name, method, crc, compressedSize, size: data.length, offset });
+        offset += localHeader.length + compressedSize + 16;
+    };
+
+    const writeCentralDirectory = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+        const headers = records.map(record => {
+            const header = createHeader(46 + record.name.length, view => {
+                view.setUint32(0, 0x02014b50, true);
+                view.setUint16(4, ZIP_VERSION, true);
+                view.setUint16(6, ZIP_VERSION, true);
+                view.setUint16(8, ZIP_FLAGS, true);
+                view.setUint16(10, record.method, true);
+                view.setUint16(12, time, true);
+                view.setUint16(14, date, true);
+                view.setUint32(16, record.crc, true);
+                view.setUint32(20, record.compressedSize, true);
+                view.setUint32(24, record.size, true);
+                view.setUint16(28, record.name.length, true);
+                view.setUint32(42, record.offset, true);
+            });
+            header.set(record.name, 46);
+            return header;
+        });
+        const directory = concatBytes(headers);
+
+        controller.enqueue(directory);
+        controller.enqueue(createHeader(22, view => {
+            view.setUint32(0, 0x06054b50, true);
+            view.setUint16(8, records.length, true);
+            view.setUint16(10, records.length, true);
+            view.setUint32(12, directory.length, true);
+            view.setUint32(16, offset, true);
+        }));
+    };
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (entryIndex < entries.length) {
+                await writeEntry(entries[entryIndex++], controller);
+                return;
+            }
+
+            writeCentralDirectory(controller);
+            controller.close();
+        },
+    });
+};
+
+/**
+ * Make archive paths unique by numbering repeated names, e.g. "resume.txt" and "resume-2.txt"
+ */
+export const getUniqueEntryName = (name: string, usedNames: Set<string>): string => {
+    let uniqueName = name;
+    const extensionIndex = name.lastIndexOf('.');
+    const base = extensionIndex > 0 ? name.substring(0, extensionIndex) : name;
+    const extension = extensionIndex > 0 ? name.substring(extensionIndex) : '';
+
+    for (let copy = 2; usedNames.has(uniqueName); copy++) {
+        uniqueName = `${base}-${copy}${extension}`;
+    }
+    usedNames.add(uniqueName);
+
+    return uniqueName;
+};
+
+export default {
+    createZipStream,
+    getUniqueEntryName,
+};
@@ -1,18 +1,46 @@
-import React, {useEffect, useState} from 'react';
+import React, {useEffect, useMemo, useState} from 'react';
 import {useFile} from '../context/FileContext';
 import Card from '../components/common/Card';
 import Button from '../components/common/Button';
 import Tabs, {TabItem} from '../components/common/Tabs';
 import FileUpload from '../components/common/FileUpload';
 import TextArea from '../components/common/TextArea';
-import SuggestionList from './jd-checker/SuggestionList';
+import Select from '../components/common/Select';
+import ImprovedVersion from './jd-checker/ImprovedVersion';
 import PDFAnnotator, {PDFAnnotation} from '../components/PDFAnnotator';
 import useToast from '../hooks/useToast';
-import {analyzeBiasedLanguage} from '../services/AnalyzeBiasedLanguage';
-import {BiasHighlighter} from "./jd-checker/BiasHighlighter";
+import useLocalStorage from '../hooks/useLocalStorage';
+import {
+    analyzeBiasedLanguage,
+    applyTermDecisionChange,
+    BiasAnalysisResult,
+    CustomLexiconEntry,
+    getTermFromKey,
+    ScoringPolicy,
+    TermDecision
+} from '../services/AnalyzeBiasedLanguage';
+import {analyzeRequirements, DEFAULT_MAX_REQUIRED_ITEMS} from '../services/RequirementsAnalysisService';
+import {LANGUAGE_NAMES, SupportedLanguage} from '../services/LanguageDetectionService';
+import AnalysisResults from './jd-checker/AnalysisResults';
+import CustomLexiconEditor from './jd-checker/CustomLexiconEditor';
+import DiffViewer from './jd-checker/DiffViewer';
+import BatchAudit from './jd-checker/BatchAudit';
+import ScoringPolicySettings from './jd-checker/ScoringPolicySettings';
+import {getActivePolicy} from '../services/ScoringPolicyService';
 import {createBiasAnnotations} from "./CreateBiasAnnotations";
+import {formatOCRProgress, recognizePDF} from '../services/OCRService';
+import {PDFJS_WORKER_SRC} from '../services/PDFJSAssetService';
 
 
+// Small non-cryptographic hash used to recognise pasted text as the same document
+const hashText = (text: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+};
+
 // No need to initialize here - PDFAnnotator handles it internally now
 // The worker source is set in the PDFAnnotator component and will be used in extractBasicTextFromPDF
 const JDChecker: React.FC = () => {
@@ -21,15 +49,40 @@ const JDChecker: React.FC = () => {
 
     const [jobDescription, setJobDescription] = useState<string>('');
     const [improvedJobDescription, setImprovedJobDescription] = useState<string>('');
-    const [analysis, setAnalysis] = useState<{
-        biasedTerms: any[]; score: number; categoryScores?: Record<string, number>
-    } | null>(null);
+    const [analysis, setAnalysis] = useState<BiasAnalysisResult | null>(null);
     const [fileId, setFileId] = useState<string | null>(null);
     const [isPDF, setIsPDF] = useState(false);
     const [pdfAnnotations, setPdfAnnotations] = useState<PDFAnnotation[]>([]);
     const [loading, setLoading] = useState(false);
+    // Shown while a scanned PDF is read with OCR
+    const [ocrStatus, setOcrStatus] = useState<string | null>(null);
     // Add a key state to force re-rendering of PDFAnnotator when needed
     const [pdfViewerKey, setPdfViewerKey] = useState<string>(`pdf-viewer-${Date.now()}`);
+    // Organization-specific terms, kept in the browser between sessions
+    const [customLexicon, setCustomLexicon] = useLocalStorage<CustomLexiconEntry[]>('jd-checker-custom-lexicon', []);
+    const [maxRequiredItems, setMaxRequiredItems] = useLocalStorage<number>('jd-checker-max-required-items', DEFAULT_MAX_REQUIRED_ITEMS);
+    // Ignored terms per document (term key to reason), so they stay hidden on re-analysis
+    const [ignoredTermsByDocument, setIgnoredTermsByDocument] = useLocalStorage<Record<string, Record<string, string>>>('jd-checker-ignored-terms', {});
+    const [termDecisions, setTermDecisions] = useState<Record<string, TermDecision>>({});
+    const [language, setLanguage] = useLocalStorage<SupportedLanguage | 'auto'>('jd-checker-language', 'auto');
+    const [scoringPolicies, setScoringPolicies] = useLocalStorage<ScoringPolicy[]>('jd-checker-scoring-policies', []);
+    const [activePolicyId, setActivePolicyId] = useLocalStorage<string>('jd-checker-active-policy', 'default');
+    const activePolicy = getActivePolicy(scoringPolicies, activePolicyId);
+
+    // Uploaded files are identified by name, pasted text by its content
+    const currentFile = fileId ? files.find(f => f.id === fileId) : undefined;
+    const documentKey = currentFile ? `file:${currentFile.name}` : `text:${hashText(jobDescription)}`;
+    const ignoredTerms = ignoredTermsByDocument[documentKey] || {};
+
+    // Requirements are re-parsed as the text changes so moved items drop out of the warnings
+    const requirements = useMemo(
+        () => analyzeRequirements(jobDescription, {maxRequiredItems}),
+        [jobDescription, maxRequiredItems]
+    );
+    const improvedRequirements = useMemo(
+        () => analyzeRequirements(improvedJobDescription, {maxRequiredItems}),
+        [improvedJobDescription, maxRequiredItems]
+    );
 
     // Effect to process uploaded file
     useEffect(() => {
@@ -70,7 +123,15 @@ const JDChecker: React.FC = () => {
                         // Extract text using a simpler approach
                         // Note: We're using a basic text extraction rather than depending
                         // on the separate service since our PDFAnnotator already includes ts-pdf
-                        const pdfText = await extractBasicTextFromPDF(file.content);
+                        let pdfText = await extractBasicTextFromPDF(file.content);
+
+                        // Scanned PDFs have no text layer, so read them with OCR instead
+                        if (!pdfText.trim()) {
+                            const result = await recognizePDF(file.content, {
+                                onProgress: (progress) => setOcrStatus(formatOCRProgress(progress)),
+                            });
+                            pdfText = result.text;
+                        }
 
                         if (pdfText && pdfText.trim()) {
                             setJobDescription(pdfText);
@@ -96,6 +157,7 @@ const JDChecker: React.FC = () => {
             showToast('Error processing file', 'error');
         } finally {
             setLoading(false);
+            setOcrStatus(null);
         }
     };
 
@@ -107,7 +169,7 @@ const JDChecker: React.FC = () => {
 
             // Set the worker source path before using PDF.js
             if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
-                pdfjsLib.GlobalWorkerOptions.workerSrc = window.pdfjsWorkerSrc || 'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs';
+                pdfjsLib.GlobalWorkerOptions.workerSrc = window.pdfjsWorkerSrc || PDFJS_WORKER_SRC;
             }
 
             // Create a copy of the ArrayBuffer to prevent detached buffer issues
@@ -195,9 +257,15 @@ const JDChecker: React.FC = () => {
 
         setLoading(true);
         try {
-            const result = await analyzeBiasedLanguage(jobDescription);
+            const result = await analyzeBiasedLanguage(jobDescription, {
+                customLexicon,
+                ignoredTermKeys: Object.keys(ignoredTerms),
+                language,
+                policy: activePolicy
+            });
             console.log("Analyzed language:", result);
             setAnalysis(result);
+            setTermDecisions({});
             setImprovedJobDescription(jobDescription);
 
             // If it's a PDF, we'll create bias annotations in the PDF
@@ -239,6 +307,34 @@ const JDChecker: React.FC = () => {
         setImprovedJobDescription(updatedText);
     };
 
+    // Record a review decision and apply it to the improved text, keeping manual edits and moved requirements
+    const handleDecisionChange = (key: string, decision: TermDecision | null) => {
+        if (!analysis) return;
+
+        const {[key]: _previous, ...otherDecisions} = termDecisions;
+        const nextDecisions = decision ? {...otherDecisions, [key]: decision} : otherDecisions;
+        setTermDecisions(nextDecisions);
+
+        const updatedText = applyTermDecisionChange(improvedJobDescription, analysis.biasedTerms, termDecisions, key, decision);
+        if (updatedText === null) {
+            showToast(`"${getTermFromKey(key)}" was not found in the improved text, so it was left unchanged`, 'warning');
+        } else {
+            setImprovedJobDescription(updatedText);
+        }
+
+        // Remember ignored terms for this document
+        const {[key]: _ignored, ...otherIgnored} = ignoredTerms;
+        setIgnoredTermsByDocument({
+            ...ignoredTermsByDocument,
+            [documentKey]: decision?.status === 'ignored' ? {...otherIgnored, [key]: decision.reason} : otherIgnored
+        });
+    };
+
+    const handleRestoreIgnored = (key: string) => {
+        const {[key]: _restored, ...otherIgnored} = ignoredTerms;
+        setIgnoredTermsByDocument({...ignoredTermsByDocument, [documentKey]: otherIgnored});
+    };
+
     const handleSaveImproved = async () => {
         if (!fileId) {
             showToast('No file to save to', 'warning');
@@ -346,88 +442,101 @@ const JDChecker: React.FC = () => {
                         helperText="Job Description"
                         onUpload={handleFileUpload}
                     />
-                    <Button
-                        variant="primary"
-                        onClick={handleAnalyze}
-                        isLoading={loading}
-                        disabled={!jobDescription.trim()}
-                    >
-                        Analyze for Bias
-                    </Button>
+                    <div className="flex items-start space-x-2">
+                        <Select
+                            id="jd-language"
+                            fullWidth={false}
+                            value={language}
+                            onChange={(value) => setLanguage(value as SupportedLanguage | 'auto')}
+                            options={[
+                                {value: 'auto', label: 'Detect language'},
+                                ...Object.entries(LANGUAGE_NAMES).map(([value, label]) => ({value, label})),
+                            ]}
+                        />
+                        <Button
+                            variant="primary"
+                            onClick={handleAnalyze}
+                            isLoading={loading}
+                            disabled={!jobDescription.trim()}
+                        >
+                            Analyze for Bias
+                        </Button>
+                    </div>
                 </div>
+                {ocrStatus && (
+                    <p className="text-sm text-neutral-500">{ocrStatus}</p>
+                )}
             </div>),
         }];
 
         if (analysis) {
             tabs.push({
-                id: 'analysis', label: 'Analysis Results', content: (<div className="space-y-6">
-                    <div className="flex justify-between items-center">
-                        <h2 className="text-xl font-semibold text-neutral-800">
-                            Bias Score: {analysis.score}/100
-                        </h2>
-                        <div className="text-sm text-neutral-600">
-                            {analysis.biasedTerms && Array.isArray(analysis.biasedTerms) ? analysis.biasedTerms.length : 0} potential
-                            issues found
-                        </div>
-                    </div>
-
-                    {isPDF ? (<div className="bg-neutral-50 border border-neutral-200 rounded-md p-4">
-                        <p className="text-sm text-neutral-600 mb-3">
-                            Biased terms have been highlighted directly in the PDF. Return to the Editor tab to
-                            view them.
-                        </p>
-                        <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                                const editorTab = document.getElementById('tab-editor');
-                                if (editorTab) editorTab.click();
-                            }}
-                        >
-                            Back to PDF Viewer
-                        </Button>
-                    </div>) : (<BiasHighlighter text={jobDescription} biasedTerms={analysis.biasedTerms}/>)}
-                </div>),
+                id: 'analysis', label: 'Analysis Results', content: (<AnalysisResults
+                    analysis={analysis}
+                    requirements={requirements}
+                    jobDescription={jobDescription}
+                    isPDF={isPDF}
+                    onMaxRequiredItemsChange={setMaxRequiredItems}
+                    onBackToPDF={() => {
+                        const editorTab = document.getElementById('tab-editor');
+                        if (editorTab) editorTab.click();
+                    }}
+                />),
             });
 
             tabs.push({
                 id: 'improved',
                 label: 'Improved Version',
-                content: (<div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
-                    <div className="lg:col-span-3">
-                        <TextArea
-                            label="Improved Job Description"
-                            value={improvedJobDescription}
-                            onChange={(e) => setImprovedJobDescription(e.target.value)}
-                            rows={15}
-                        />
-                        <div className="mt-4 flex justify-end">
-                            <Button
-                                variant="primary"
-                                onClick={handleSaveImproved}
-                                isLoading={loading}
-                            >
-                                {isPDF ? 'Save with PDF' : 'Save Improved Version'}
-                            </Button>
-                        </div>
-                    </div>
-
-                    <div className="lg:col-span-2">
-                        <h3 className="text-lg font-medium text-neutral-800 mb-3">
-                            Suggestions
-                        </h3>
+                content: (<ImprovedVersion
+                    improvedJobDescription={improvedJobDescription}
+                    setImprovedJobDescription={handleUpdateImprovedText}
+                    jobDescription={jobDescription}
+                    biasedTerms={analysis.biasedTerms}
+                    requirements={improvedRequirements}
+                    decisions={termDecisions}
+                    ignoredTerms={ignoredTerms}
+                    onDecisionChange={handleDecisionChange}
+                    onRestoreIgnored={handleRestoreIgnored}
+                    onSave={handleSaveImproved}
+                    loading={loading}
+                    isPDF={isPDF}
+                />),
+            });
 
-                        <SuggestionList
-                            biasedTerms={analysis.biasedTerms}
-                            originalText={jobDescription}
-                            improvedText={improvedJobDescription}
-                            onUpdate={handleUpdateImprovedText}
-                        />
-                    </div>
-                </div>),
+            tabs.push({
+                id: 'changes',
+                label: 'Changes',
+                content: (<DiffViewer
+                    originalText={jobDescription}
+                    improvedText={improvedJobDescription}
+                    onRevert={handleUpdateImprovedText}
+                />),
             });
         }
 
+        tabs.push({
+            id: 'batch',
+            label: 'Batch Audit',
+            content: (<BatchAudit customLexicon={customLexicon} language={language} policy={activePolicy}/>),
+        });
+
+        tabs.push({
+            id: 'policy',
+            label: 'Scoring Policy',
+            content: (<ScoringPolicySettings
+                policies={scoringPolicies}
+                activePolicyId={activePolicy.id}
+                onPoliciesChange={setScoringPolicies}
+                onActivePolicyChange={setActivePolicyId}
+            />),
+        });
+
+        tabs.push({
+            id: 'lexicon',
+            label: `Custom Lexicon${customLexicon.length > 0 ? ` (${customLexicon.length})` : ''}`,
+            content: (<CustomLexiconEditor lexicon={customLexicon} onChange={setCustomLexicon}/>),
+        });
+
         return tabs;
     };
 
@@ -4,20 +4,54 @@ import Tabs, {TabItem} from '../components/common/Tabs';
 import Alert from '../components/common/Alert';
 import {FileInfo, useFile} from '../context/FileContext';
 import useToast from '../hooks/useToast';
+import useLocalStorage from '../hooks/useLocalStorage';
 import ResumeUploader from './resume-anonymizer/ResumeUploader';
 import AnonymizationSettings from './resume-anonymizer/AnonymizationSettings';
 import AnonymizedPreview from './resume-anonymizer/AnonymizedPreview';
 import {BatchExport} from './resume-anonymizer/BatchExport';
-import {processFile} from '../services/FileProcessingService';
-import {analyzePersonalIdentifiers, anonymizeText} from '../services/AnalysisService';
+import OrganizationMappingTable from './resume-anonymizer/OrganizationMappingTable';
+import ParsedResumeView from './resume-anonymizer/ParsedResumeView';
+import {getFileExtension, processFile} from '../services/FileProcessingService';
+import type {PDFRedactionStyle} from '../services/PDFRedactionService';
+import {formatOCRProgress} from '../services/OCRService';
+import {
+    AnonymizationReplacement,
+    analyzePersonalIdentifiers,
+    anonymizeText,
+    EMPTY_REDACTION_OVERRIDES,
+    RedactionOverrides,
+    SectionRule,
+} from '../services/AnalysisService';
+import {isMappedOrganization, OrganizationKind, OrganizationMapping} from '../services/OrganizationMappingService';
+import {storePseudonyms} from '../services/PseudonymVaultService';
+import {AnonymizationLeak, ExportFileFormat, verifyAnonymization} from '../services/LeakVerificationService';
+import type {IdentifierLocale} from '../services/LocaleIdentifierService';
 
 interface AnonymizedResume {
     id: string;
     fileName: string;
     originalText: string;
     anonymizedText: string;
-    identifiers: { type: string; value: string; index: number }[];
+    identifiers: { type: string; value: string; index: number; confidence?: number; replacement?: string }[];
+    replacements: AnonymizationReplacement[];
+    // Personal details the verifier found in the anonymized text
+    leaks: AnonymizationLeak[];
+    // Replaced values the last PDF or Word export could not find in the uploaded file
+    exportLeaks: AnonymizationLeak[];
     settings: AnonymizationSettings;
+    // Manual redactions, restorations and waived leaks, kept when settings change or files are re-processed
+    overrides: RedactionOverrides;
+    decision?: ReviewDecision;
+    // Bytes of the uploaded PDF, used to export a redacted copy with the original layout
+    sourcePdf?: ArrayBuffer;
+    // Bytes of the uploaded Word file, used to export an anonymized copy with the original styling
+    sourceDocx?: ArrayBuffer;
+}
+
+// Outcome of the blind review, recorded before a pseudonymized candidate can be revealed
+export interface ReviewDecision {
+    outcome: 'advance' | 'hold' | 'reject';
+    recordedAt: string;
 }
 
 export interface AnonymizationSettings {
@@ -26,6 +60,19 @@ export interface AnonymizationSettings {
     replacePhones: boolean;
     replaceAddresses: boolean;
     replaceSocial: boolean;
+    replaceGraduationYears: boolean;
+    replaceAge: boolean;
+    replacePronouns: boolean;
+    replaceNationality: boolean;
+    replaceMaritalStatus: boolean;
+    replaceAffiliations: boolean;
+    replaceNationalIds: boolean;
+    generalizeOrganizations: boolean;
+    pseudonymize: boolean;
+    pdfRedactionStyle: PDFRedactionStyle;
+    sectionRules: SectionRule[];
+    // Countries whose phone, address and ID number formats are detected
+    locales: IdentifierLocale[];
 }
 
 const ResumeAnonymizer: React.FC = () => {
@@ -36,13 +83,24 @@ const ResumeAnonymizer: React.FC = () => {
     const [anonymizedResumes, setAnonymizedResumes] = useState<AnonymizedResume[]>([]);
     const [selectedResumeId, setSelectedResumeId] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
+    // Progress message shown while scanned PDFs are read with OCR
+    const [processingStatus, setProcessingStatus] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
 
     // Default anonymization settings
     const [settings, setSettings] = useState<AnonymizationSettings>({
         replaceNames: true, replaceEmails: true, replacePhones: true, replaceAddresses: true, replaceSocial: true,
+        replaceGraduationYears: true, replaceAge: true, replacePronouns: true, replaceNationality: true,
+        replaceMaritalStatus: true, replaceAffiliations: true, replaceNationalIds: true, generalizeOrganizations: true,
+        pseudonymize: false, pdfRedactionStyle: 'box', sectionRules: [], locales: ['us'],
     });
 
+    // Only kept in memory; used to encrypt the pseudonym vault
+    const [vaultPassphrase, setVaultPassphrase] = useState('');
+
+    // User-maintained table of generalized descriptors for universities and employers
+    const [organizationMappings, setOrganizationMappings] = useLocalStorage<OrganizationMapping[]>('resume-anonymizer-organization-mappings', []);
+
     // Update uploaded files when files context changes
     useEffect(() => {
         console.log("Files in context:", files);
@@ -53,6 +111,44 @@ const ResumeAnonymizer: React.FC = () => {
         setUploadedFiles(files);
     }, [files]);
 
+    // Save the pseudonym mapping in the encrypted vault so the candidate can be re-identified later
+    const savePseudonyms = (
+        resumeId: string,
+        fileName: string,
+        replacements: AnonymizationReplacement[],
+        resumeSettings: AnonymizationSettings
+    ) => {
+        if (!resumeSettings.pseudonymize || !vaultPassphrase) return;
+
+        storePseudonyms(resumeId, fileName, replacements, vaultPassphrase).catch((vaultError) => {
+            console.error(`Error saving the key vault for ${fileName}:`, vaultError);
+            showToast(`Could not save the key vault for ${fileName}`, 'error');
+        });
+    };
+
+    // Detect identifiers and anonymize one resume with the given settings and overrides
+    const runAnonymization = (
+        resumeId: string,
+        fileName: string,
+        text: string,
+        resumeSettings: AnonymizationSettings,
+        overrides: RedactionOverrides
+    ) => {
+        const {personalIdentifiers} = analyzePersonalIdentifiers(text, {
+            organizationMappings, redactionOverrides: overrides, locales: resumeSettings.locales,
+        });
+        const options = {
+            ...resumeSettings, organizationMappings, redactionOverrides: overrides, pseudonymSalt: resumeId,
+        };
+        const {anonymizedText, replacements} = anonymizeText(text, options);
+        savePseudonyms(resumeId, fileName, replacements, resumeSettings);
+
+        // Check the result for anything the replacements missed
+        const leaks = verifyAnonymization(text, anonymizedText, replacements, options);
+
+        return {anonymizedText, identifiers: personalIdentifiers, replacements, leaks};
+    };
+
     // Process all uploaded files
     const processResumes = async () => {
         // Get the latest files from context to ensure we have all uploaded files
@@ -68,6 +164,10 @@ const ResumeAnonymizer: React.FC = () => {
         // Update state with the latest files
         setUploadedFiles(currentFiles);
 
+        if (settings.pseudonymize && !vaultPassphrase) {
+            showToast('No vault passphrase set, so pseudonymized candidates cannot be revealed later', 'warning');
+        }
+
         setIsProcessing(true);
         setError(null);
 
@@ -80,16 +180,21 @@ const ResumeAnonymizer: React.FC = () => {
                 try {
                     // Process file to extract text
                     const content = file.content as ArrayBuffer;
-                    const text = await processFile(content, file.name);
+                    const text = await processFile(content, file.name, {
+                        onOCRProgress: (progress) => setProcessingStatus(`${file.name}: ${formatOCRProgress(progress)}`),
+                    });
 
                     // For simplicity, if the result is an object (like CSV data), we'll convert it to text
                     const resumeText = typeof text === 'string' ? text : JSON.stringify(text);
 
-                    // Find personal identifiers
-                    const {personalIdentifiers} = analyzePersonalIdentifiers(resumeText);
+                    // Keep the user's manual edits if this file was processed before
+                    const previous = anonymizedResumes.find(resume => resume.id === file.id);
+                    const overrides = previous ? previous.overrides : EMPTY_REDACTION_OVERRIDES;
 
-                    // Anonymize text
-                    const {anonymizedText} = anonymizeText(resumeText, settings);
+                    // Find personal identifiers and anonymize text
+                    const {anonymizedText, identifiers, replacements, leaks} = runAnonymization(
+                        file.id, file.name, resumeText, settings, overrides
+                    );
 
                     // Add to processed resumes
                     newAnonymizedResumes.push({
@@ -97,8 +202,14 @@ const ResumeAnonymizer: React.FC = () => {
                         fileName: file.name,
                         originalText: resumeText,
                         anonymizedText,
-                        identifiers: personalIdentifiers,
+                        identifiers,
+                        replacements,
+                        leaks,
+                        exportLeaks: [],
                         settings: {...settings},
+                        overrides,
+                        sourcePdf: getFileExtension(file.name) === 'pdf' ? content : undefined,
+                        sourceDocx: getFileExtension(file.name) === 'docx' ? content : undefined,
                     });
                 } catch (fileError) {
                     console.error(`Error processing file ${file.name}:`, fileError);
@@ -119,6 +230,7 @@ const ResumeAnonymizer: React.FC = () => {
             console.error('Error processing resumes:', err);
         } finally {
             setIsProcessing(false);
+            setProcessingStatus(null);
         }
     };
 
@@ -128,11 +240,13 @@ const ResumeAnonymizer: React.FC = () => {
         if (!resumeToUpdate) return;
 
         // Apply new settings to anonymize text
-        const {anonymizedText} = anonymizeText(resumeToUpdate.originalText, newSettings);
+        const result = runAnonymization(
+            resumeId, resumeToUpdate.fileName, resumeToUpdate.originalText, newSettings, resumeToUpdate.overrides
+        );
 
         // Update the resume in the state
         setAnonymizedResumes(prevResumes => prevResumes.map(resume => resume.id === resumeId ? {
-            ...resume, anonymizedText, settings: {...newSettings}
+            ...resume, ...result, settings: {...newSettings}
         } : resume));
     };
 
@@ -150,19 +264,60 @@ const ResumeAnonymizer: React.FC = () => {
     const applySettingsToAll = () => {
         if (anonymizedResumes.length === 0) return;
 
-        setAnonymizedResumes(prevResumes => prevResumes.map(resume => {
-            const {anonymizedText} = anonymizeText(resume.originalText, settings);
-            return {
-                ...resume, anonymizedText, settings: {...settings}
-            };
+        // Anonymize outside the state update, as saving pseudonyms to the vault is a side effect
+        const updatedResumes = anonymizedResumes.map(resume => ({
+            ...resume,
+            ...runAnonymization(resume.id, resume.fileName, resume.originalText, settings, resume.overrides),
+            settings: {...settings},
         }));
 
+        setAnonymizedResumes(prevResumes => prevResumes.map(resume =>
+            updatedResumes.find(updated => updated.id === resume.id) || resume
+        ));
+
         showToast('Settings applied to all resumes', 'success');
     };
 
     // Get the selected resume
     const selectedResume = selectedResumeId ? anonymizedResumes.find(resume => resume.id === selectedResumeId) : null;
 
+    // Re-anonymize a resume after the user adds a manual redaction or restores a value
+    const handleOverridesChange = (resumeId: string, overrides: RedactionOverrides) => {
+        const resumeToUpdate = anonymizedResumes.find(resume => resume.id === resumeId);
+        if (!resumeToUpdate) return;
+
+        const result = runAnonymization(
+            resumeId, resumeToUpdate.fileName, resumeToUpdate.originalText, resumeToUpdate.settings, overrides
+        );
+
+        setAnonymizedResumes(prevResumes => prevResumes.map(resume => resume.id === resumeId ? {
+            ...resume, ...result, overrides
+        } : resume));
+    };
+
+    // Keep what the latest export in a file format could not find, replacing the previous result
+    const handleExportLeaksChange = (resumeId: string, file: ExportFileFormat, leaks: AnonymizationLeak[]) => {
+        setAnonymizedResumes(prevResumes => prevResumes.map(resume => resume.id === resumeId ? {
+            ...resume, exportLeaks: [...resume.exportLeaks.filter(leak => leak.file !== file), ...leaks]
+        } : resume));
+    };
+
+    // Record the blind review outcome for a resume
+    const handleRecordDecision = (resumeId: string, decision: ReviewDecision) => {
+        setAnonymizedResumes(prevResumes => prevResumes.map(resume => resume.id === resumeId ? {
+            ...resume, decision
+        } : resume));
+    };
+
+    // Organizations found in the resumes that the mapping table does not cover yet
+    const unmappedOrganizations: { name: string; kind: OrganizationKind }[] = [];
+    anonymizedResumes.forEach(resume => resume.identifiers.forEach(identifier => {
+        if (identifier.type !== 'institution' && identifier.type !== 'employer') return;
+        if (isMappedOrganization(identifier.value, organizationMappings)) return;
+        if (unmappedOrganizations.some(organization => organization.name.toLowerCase() === identifier.value.toLowerCase())) return;
+        unmappedOrganizations.push({name: identifier.value, kind: identifier.type});
+    }));
+
     // Switch between resumes
     const handleResumeSelect = (resumeId: string) => {
         setSelectedResumeId(resumeId);
@@ -179,6 +334,7 @@ const ResumeAnonymizer: React.FC = () => {
                 }
             }}
             isProcessing={isProcessing}
+            processingStatus={processingStatus}
         />),
     }, {
         id: 'preview', label: 'Preview & Edit', content: (<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -187,6 +343,8 @@ const ResumeAnonymizer: React.FC = () => {
                     settings={settings}
                     onChange={handleSettingsChange}
                     onApplyToAll={applySettingsToAll}
+                    vaultPassphrase={vaultPassphrase}
+                    onVaultPassphraseChange={setVaultPassphrase}
                     disabled={anonymizedResumes.length === 0}
                 />
             </div>
@@ -195,13 +353,33 @@ const ResumeAnonymizer: React.FC = () => {
                     resumes={anonymizedResumes}
                     selectedResumeId={selectedResumeId}
                     onSelectResume={handleResumeSelect}
+                    onRecordDecision={handleRecordDecision}
+                    onOverridesChange={handleOverridesChange}
+                    onExportLeaksChange={handleExportLeaksChange}
                 />
             </div>
         </div>), disabled: anonymizedResumes.length === 0,
+    }, {
+        id: 'structure',
+        label: 'Sections',
+        content: (<ParsedResumeView
+            resumes={anonymizedResumes}
+            selectedResumeId={selectedResumeId}
+            onSelectResume={handleResumeSelect}
+        />),
+        disabled: anonymizedResumes.length === 0,
+    }, {
+        id: 'organizations',
+        label: `Organization Mapping${organizationMappings.length > 0 ? ` (${organizationMappings.length})` : ''}`,
+        content: (<OrganizationMappingTable
+            mappings={organizationMappings}
+            onChange={setOrganizationMappings}
+            unmappedOrganizations={unmappedOrganizations}
+        />),
     }, {
         id: 'export',
         label: 'Export',
-        content: (<BatchExport resumes={anonymizedResumes}/>),
+        content: (<BatchExport resumes={anonymizedResumes} onExportLeaksChange={handleExportLeaksChange}/>),
         disabled: anonymizedResumes.length === 0,
     },];
 
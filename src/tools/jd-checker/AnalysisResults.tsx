@@ -1,36 +1,80 @@
 import React from 'react';
 import Button from '../../components/common/Button';
 import { BiasHighlighter } from './BiasHighlighter';
+import BiasVisualizer from './BiasVisualizer';
+import ReadabilityPanel from './ReadabilityPanel';
+import RequirementsPanel from './RequirementsPanel';
+import { BiasAnalysisResult } from '../../services/AnalyzeBiasedLanguage';
+import { LANGUAGE_NAMES } from '../../services/LanguageDetectionService';
+import { RequirementsAnalysis } from '../../services/RequirementsAnalysisService';
 
 interface AnalysisResultsProps {
-  analysis: {
-    biasedTerms: any[];
-    score: number;
-    categoryScores?: Record<string, number>;
-  };
+  analysis: BiasAnalysisResult;
+  requirements: RequirementsAnalysis;
   jobDescription: string;
   isPDF: boolean;
   onBackToPDF?: () => void;
+  onMaxRequiredItemsChange: (maxRequiredItems: number) => void;
 }
 
 const AnalysisResults: React.FC<AnalysisResultsProps> = ({
   analysis,
+  requirements,
   jobDescription,
   isPDF,
-  onBackToPDF
+  onBackToPDF,
+  onMaxRequiredItemsChange
 }) => {
+  const { language } = analysis;
+  const isEnglish = language.language === 'en';
+
   return (
     <div className="space-y-6">
-      <div className="flex justify-between items-center">
-        <h2 className="text-xl font-semibold text-neutral-800">
-          Bias Score: {analysis.score}/100
-        </h2>
-        <div className="text-sm text-neutral-600">
-          {analysis.biasedTerms && Array.isArray(analysis.biasedTerms) ? analysis.biasedTerms.length : 0} potential
-          issues found
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="p-4 bg-white border border-neutral-200 rounded-md">
+          <div className="flex justify-between items-start">
+            <h2 className="text-xl font-semibold text-neutral-800">
+              Bias Score: {analysis.score}/100
+            </h2>
+            <span
+              className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                analysis.policy.passed ? 'bg-success-100 text-success-800' : 'bg-danger-100 text-danger-800'
+              }`}
+            >
+              {analysis.policy.passed ? 'Pass' : 'Fail'}: {analysis.policy.policyName}
+            </span>
+          </div>
+          <div className="text-sm text-neutral-600">
+            {analysis.biasedTerms && Array.isArray(analysis.biasedTerms) ? analysis.biasedTerms.length : 0} potential
+            issues found
+          </div>
+          {analysis.policy.failedRules.length > 0 && (
+            <ul className="mt-2 text-sm text-danger-700 list-disc list-inside">
+              {analysis.policy.failedRules.map(rule => (
+                <li key={rule}>{rule}</li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-3 text-sm text-neutral-600">{analysis.summary}</p>
+          <p className="mt-3 text-xs text-neutral-500">
+            Language: <span className="font-medium">{LANGUAGE_NAMES[language.language]}</span>
+            {language.detected
+              ? ` (detected, ${Math.round(language.confidence * 100)}% confidence)`
+              : ' (selected)'}
+          </p>
+          {!isEnglish && (
+            <p className="mt-1 text-xs text-neutral-500">
+              Gender-coded wording and readability grades are calibrated for English and may be less
+              reliable for this text.
+            </p>
+          )}
         </div>
+
+        <ReadabilityPanel readability={analysis.readability} />
       </div>
 
+      <RequirementsPanel requirements={requirements} onMaxRequiredItemsChange={onMaxRequiredItemsChange} />
+
       {isPDF ? (
         <div className="bg-neutral-50 border border-neutral-200 rounded-md p-4">
           <p className="text-sm text-neutral-600 mb-3">
@@ -46,8 +90,18 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({
           </Button>
         </div>
       ) : (
-        <BiasHighlighter text={jobDescription} biasedTerms={analysis.biasedTerms} />
+        <BiasHighlighter
+          text={jobDescription}
+          biasedTerms={analysis.biasedTerms}
+          genderCodedTerms={analysis.genderCoding.terms}
+        />
       )}
+
+      <BiasVisualizer
+        biasedTerms={analysis.biasedTerms}
+        genderCoding={isEnglish ? analysis.genderCoding : undefined}
+        scoreBreakdown={analysis.scoreBreakdown}
+      />
     </div>
   );
 };
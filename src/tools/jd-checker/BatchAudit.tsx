@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import Button from '../../components/common/Button';
+import DataTable, { ColumnDefinition } from '../../components/common/DataTable';
+import FileUpload from '../../components/common/FileUpload';
+import Select from '../../components/common/Select';
+import useToast from '../../hooks/useToast';
+import { CSVData, getFileExtension, processFile } from '../../services/FileProcessingService';
+import {
+  BatchAuditRow,
+  BatchPosting,
+  exportBatchAudit,
+  readPostingsFromFiles,
+  readPostingsFromTable,
+  runBatchAudit,
+} from '../../services/BatchAuditService';
+import { CustomLexiconEntry, ScoringPolicy } from '../../services/AnalyzeBiasedLanguage';
+import { SupportedLanguage } from '../../services/LanguageDetectionService';
+
+interface BatchAuditProps {
+  customLexicon: CustomLexiconEntry[];
+  language: SupportedLanguage | 'auto';
+  policy: ScoringPolicy;
+}
+
+type BatchSource = 'files' | 'spreadsheet';
+
+const getScoreClass = (score: number) => {
+  if (score > 25) return 'text-danger-700 font-semibold';
+  if (score > 10) return 'text-warning-700 font-semibold';
+  return 'text-success-700';
+};
+
+const columns: ColumnDefinition<BatchAuditRow>[] = [
+  { header: 'Posting', accessor: 'name', sortable: true },
+  { header: 'Language', accessor: 'language', sortable: true },
+  { header: 'Bias Score', accessor: 'score', sortable: true },
+  { header: 'Policy', accessor: 'policyResult', sortable: true },
+  { header: 'Issues', accessor: 'issueCount', sortable: true },
+  { header: 'High Severity', accessor: 'highSeverityCount', sortable: true },
+  { header: 'Top Categories', accessor: 'topCategories', sortable: true },
+  { header: 'Gender Coding', accessor: 'genderCoding', sortable: true },
+  { header: 'Reading Grade', accessor: 'readingGrade', sortable: true },
+  {
+    header: 'Status',
+    accessor: (row) => row.status === 'ok'
+      ? <span className="text-success-700">OK</span>
+      : <span className="text-danger-700" title={row.error}>Error</span>,
+  },
+];
+
+const BatchAudit: React.FC<BatchAuditProps> = ({ customLexicon, language, policy }) => {
+  const { showToast } = useToast();
+  const [source, setSource] = useState<BatchSource>('files');
+  const [filePostings, setFilePostings] = useState<BatchPosting[]>([]);
+  const [sheets, setSheets] = useState<Record<string, CSVData>>({});
+  const [sheetName, setSheetName] = useState<string>('');
+  const [textColumn, setTextColumn] = useState<string>('');
+  const [nameColumn, setNameColumn] = useState<string>('');
+  const [rows, setRows] = useState<BatchAuditRow[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const sheet = sheets[sheetName];
+  const sheetHeaders = sheet ? sheet.headers : [];
+
+  const postings = useMemo(() => {
+    if (source === 'files') return filePostings;
+    if (!sheet || !textColumn) return [];
+    return readPostingsFromTable(sheet, textColumn, nameColumn || undefined);
+  }, [source, filePostings, sheet, textColumn, nameColumn]);
+
+  const handleFilesUpload = async (files: File[]) => {
+    setReading(true);
+    try {
+      const newPostings = await readPostingsFromFiles(files);
+      // Uploading a file again replaces the earlier copy
+      setFilePostings(previous => [
+        ...previous.filter(posting => !newPostings.some(newPosting => newPosting.name === posting.name)),
+        ...newPostings,
+      ]);
+    } catch (error) {
+      console.error('Error reading postings:', error);
+      showToast('Error reading files', 'error');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleSpreadsheetUpload = async (files: File[]) => {
+    const file = files[0];
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const content = await file.arrayBuffer();
+      const result = await processFile(content, file.name);
+      const parsedSheets: Record<string, CSVData> = getFileExtension(file.name) === 'csv'
+        ? { [file.name]: result as CSVData }
+        : result as Record<string, CSVData>;
+
+      const firstSheet = Object.keys(parsedSheets)[0] || '';
+      const headers = parsedSheets[firstSheet]?.headers || [];
+
+      setSheets(parsedSheets);
+      setSheetName(firstSheet);
+      // Guess the text column from common header names
+      setTextColumn(headers.find(header => /description|text|body|content/i.test(header)) || headers[0] || '');
+      setNameColumn(headers.find(header => /title|name|position|role/i.test(header)) || '');
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      showToast('Error reading spreadsheet', 'error');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleRunAudit = async () => {
+    if (postings.length === 0) return;
+
+    setRows([]);
+    setProgress({ completed: 0, total: postings.length });
+    try {
+      const results = await runBatchAudit(
+        postings,
+        { customLexicon, language, policy },
+        (completed, total) => setProgress({ completed, total })
+      );
+      setRows(results);
+
+      const failed = results.filter(row => row.status === 'error').length;
+      showToast(
+        failed > 0
+          ? `Audited ${results.length - failed} postings, ${failed} could not be analyzed`
+          : `Audited ${results.length} postings`,
+        failed > 0 ? 'warning' : 'success'
+      );
+    } catch (error) {
+      console.error('Error running batch audit:', error);
+      showToast('Error running batch audit', 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const analyzedRows = rows.filter(row => row.status === 'ok');
+  const failedPolicyCount = analyzedRows.filter(row => row.policyResult === 'Fail').length;
+  const averageScore = analyzedRows.length > 0
+    ? Math.round(analyzedRows.reduce((sum, row) => sum + row.score, 0) / analyzedRows.length)
+    : 0;
+
+  const columnOptions = sheetHeaders.map(header => ({ value: header, label: header }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex space-x-2">
+        <Button variant={source === 'files' ? 'primary' : 'outline'} size="sm" onClick={() => setSource('files')}>
+          Files
+        </Button>
+        <Button variant={source === 'spreadsheet' ? 'primary' : 'outline'} size="sm" onClick={() => setSource('spreadsheet')}>
+          Spreadsheet
+        </Button>
+      </div>
+
+      {source === 'files' ? (
+        <div>
+          <FileUpload
+            id="jd-batch-files"
+            label="Upload Job Descriptions"
+            helperText="One job description per file"
+            acceptedFileTypes=".txt,.md,.pdf,.docx"
+            multiple
+            cacheKey="jdBatchAudit"
+            onUpload={handleFilesUpload}
+          />
+          {filePostings.length > 0 && (
+            <div className="mt-2 flex items-center justify-between text-sm text-neutral-600">
+              <span>{filePostings.length} files loaded</span>
+              <Button variant="ghost" size="sm" onClick={() => setFilePostings([])}>
+                Clear
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <FileUpload
+            id="jd-batch-spreadsheet"
+            label="Upload Spreadsheet"
+            helperText="CSV or Excel file with one job description per row"
+            acceptedFileTypes=".csv,.xlsx,.xls"
+            cacheKey="jdBatchAudit"
+            onUpload={handleSpreadsheetUpload}
+          />
+
+          {Object.keys(sheets).length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {Object.keys(sheets).length > 1 && (
+                <Select
+                  id="jd-batch-sheet"
+                  label="Sheet"
+                  value={sheetName}
+                  onChange={setSheetName}
+                  options={Object.keys(sheets).map(name => ({ value: name, label: name }))}
+                />
+              )}
+              <Select
+                id="jd-batch-text-column"
+                label="Job description column"
+                value={textColumn}
+                onChange={setTextColumn}
+                options={columnOptions}
+              />
+              <Select
+                id="jd-batch-name-column"
+                label="Posting name column"
+                value={nameColumn}
+                onChange={setNameColumn}
+                options={[{ value: '', label: 'Row number' }, ...columnOptions]}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-neutral-600">
+          {progress
+            ? `Analyzed ${progress.completed} of ${progress.total} postings…`
+            : `${postings.length} postings ready to audit`}
+        </span>
+        <Button
+          variant="primary"
+          onClick={handleRunAudit}
+          isLoading={progress !== null || reading}
+          disabled={postings.length === 0}
+        >
+          Run Audit
+        </Button>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-neutral-600">
+              Average bias score: <span className={getScoreClass(averageScore)}>{averageScore}/100</span>
+              {' '}across {analyzedRows.length} postings, {failedPolicyCount} failing the {policy.name} policy
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => exportBatchAudit(rows, 'csv')}>
+                Export CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportBatchAudit(rows, 'xlsx')}>
+                Export XLSX
+              </Button>
+            </div>
+          </div>
+
+          <DataTable data={rows} columns={columns} keyField="id" compact />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAudit;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { GenderCodedTerm } from '../../services/AnalyzeBiasedLanguage';
 
 interface BiasHighlighterProps {
   text: string;
@@ -8,17 +9,30 @@ interface BiasHighlighterProps {
     category: string;
     alternatives: string[];
   }[];
+  genderCodedTerms?: GenderCodedTerm[];
 }
 
-export const BiasHighlighter: React.FC<BiasHighlighterProps> = ({ text, biasedTerms }) => {
-  // Sort biased terms by index
-  const sortedTerms = [...biasedTerms].sort((a, b) => a.index - b.index);
+export const BiasHighlighter: React.FC<BiasHighlighterProps> = ({ text, biasedTerms, genderCodedTerms = [] }) => {
+  // Biased terms take precedence over gender-coded words that overlap them
+  const biasedRanges = biasedTerms.map(term => [term.index, term.index + term.term.length]);
+  const codedTerms = genderCodedTerms.filter(coded =>
+    !biasedRanges.some(([start, end]) => coded.index < end && coded.index + coded.term.length > start)
+  );
+
+  // Sort all highlighted terms by index
+  const sortedTerms = [
+    ...biasedTerms.map(term => ({ term: term.term, index: term.index, category: term.category, coding: undefined as string | undefined })),
+    ...codedTerms.map(term => ({ term: term.term, index: term.index, category: undefined as string | undefined, coding: term.coding as string })),
+  ].sort((a, b) => a.index - b.index);
 
   // Create segments of text with highlighted biased terms
-  const segments: { text: string; isBiased: boolean; category?: string; term?: string }[] = [];
+  const segments: { text: string; isBiased: boolean; category?: string; coding?: string; term?: string }[] = [];
   let lastIndex = 0;
 
   sortedTerms.forEach((term) => {
+    // Skip terms overlapping one already highlighted
+    if (term.index < lastIndex) return;
+
     // Add the text before the biased term
     if (term.index > lastIndex) {
       segments.push({
@@ -32,6 +46,7 @@ export const BiasHighlighter: React.FC<BiasHighlighterProps> = ({ text, biasedTe
       text: term.term,
       isBiased: true,
       category: term.category,
+      coding: term.coding,
       term: term.term,
     });
 
@@ -60,6 +75,13 @@ export const BiasHighlighter: React.FC<BiasHighlighterProps> = ({ text, biasedTe
     }
   };
 
+  // Get gender-coding color
+  const getCodingColor = (coding: string): string => {
+    return coding === 'masculine'
+      ? 'bg-teal-100 text-teal-800 border-teal-300 border-dashed'
+      : 'bg-orange-100 text-orange-800 border-orange-300 border-dashed';
+  };
+
   return (
     <div className="p-4 bg-neutral-50 border border-neutral-200 rounded-md h-96 overflow-y-auto">
       <div className="text-sm mb-3 pb-2 border-b border-neutral-200">
@@ -67,13 +89,26 @@ export const BiasHighlighter: React.FC<BiasHighlighterProps> = ({ text, biasedTe
         <span className="inline-block px-2 py-0.5 bg-pink-200 text-pink-800 border border-pink-300 rounded-md mr-2">Gender</span>
         <span className="inline-block px-2 py-0.5 bg-blue-200 text-blue-800 border border-blue-300 rounded-md mr-2">Age</span>
         <span className="inline-block px-2 py-0.5 bg-purple-200 text-purple-800 border border-purple-300 rounded-md mr-2">Race</span>
-        <span className="inline-block px-2 py-0.5 bg-yellow-200 text-yellow-800 border border-yellow-300 rounded-md">Other</span>
+        <span className="inline-block px-2 py-0.5 bg-yellow-200 text-yellow-800 border border-yellow-300 rounded-md mr-2">Other</span>
+        {genderCodedTerms.length > 0 && (
+          <>
+            <span className="inline-block px-2 py-0.5 bg-teal-100 text-teal-800 border border-dashed border-teal-300 rounded-md mr-2">Masculine-coded</span>
+            <span className="inline-block px-2 py-0.5 bg-orange-100 text-orange-800 border border-dashed border-orange-300 rounded-md">Feminine-coded</span>
+          </>
+        )}
       </div>
 
       <div className="whitespace-pre-wrap overflow-y-auto">
         {segments.map((segment, index) => (
           <React.Fragment key={index}>
-            {segment.isBiased ? (
+            {segment.isBiased && segment.coding ? (
+              <span
+                className={`px-1 py-0.5 border rounded-md ${getCodingColor(segment.coding)}`}
+                title={`${segment.coding === 'masculine' ? 'Masculine' : 'Feminine'}-coded word`}
+              >
+                {segment.text}
+              </span>
+            ) : segment.isBiased ? (
               <span
                 className={`px-1 py-0.5 border rounded-md ${getCategoryColor(segment.category || 'other')}`}
                 title={`Category: ${segment.category}`}
@@ -89,6 +124,7 @@ export const BiasHighlighter: React.FC<BiasHighlighterProps> = ({ text, biasedTe
 
       <div className="mt-4  text-sm">
         <span className="font-medium">Found:</span> {biasedTerms.length} potentially biased terms
+        {genderCodedTerms.length > 0 && `, ${genderCodedTerms.length} gender-coded words`}
       </div>
     </div>
   );
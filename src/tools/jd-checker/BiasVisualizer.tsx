@@ -1,18 +1,219 @@
 import React from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import {
+    BiasedTerm,
+    GenderCodingResult,
+    GenderCodingVerdict,
+    ScoreBreakdown
+} from '../../services/AnalyzeBiasedLanguage';
 
-const BiasVisualizer = ({ biasedTerms }) => {
+interface BiasVisualizerProps {
+    biasedTerms: BiasedTerm[];
+    genderCoding?: GenderCodingResult;
+    scoreBreakdown?: ScoreBreakdown;
+}
+
+// Colors for gender-coded wording, kept in sync with BiasHighlighter
+const CODING_COLORS = {
+    masculine: '#14B8A6',
+    feminine: '#F97316'
+};
+
+const VERDICT_LABELS: Record<GenderCodingVerdict, string> = {
+    'strongly-masculine': 'Strongly masculine-coded',
+    'masculine': 'Masculine-coded',
+    'neutral': 'Neutral',
+    'feminine': 'Feminine-coded',
+    'strongly-feminine': 'Strongly feminine-coded'
+};
+
+// Shows the agentic vs. communal balance and the words behind it
+const GenderCodingPanel: React.FC<{ genderCoding: GenderCodingResult }> = ({ genderCoding }) => {
+    const { masculineCount, feminineCount, verdict, terms } = genderCoding;
+    const total = masculineCount + feminineCount;
+    const masculineShare = total > 0 ? (masculineCount / total) * 100 : 50;
+
+    // Group hits by word so repeated terms are listed once with a count
+    const countTerms = (coding: 'masculine' | 'feminine') => Object.entries(
+        terms
+            .filter(term => term.coding === coding)
+            .reduce<Record<string, number>>((acc, term) => {
+                const word = term.term.toLowerCase();
+                acc[word] = (acc[word] || 0) + 1;
+                return acc;
+            }, {})
+    ).sort(([, countA], [, countB]) => countB - countA);
+
+    return (
+        <div className="bg-white p-4 rounded-md border border-neutral-200">
+            <div className="flex justify-between items-center mb-3">
+                <h4 className="text-sm font-medium">Gender-Coded Wording</h4>
+                <span className="text-sm font-medium">{VERDICT_LABELS[verdict]}</span>
+            </div>
+
+            <div className="flex h-3 rounded-full overflow-hidden bg-neutral-100">
+                {total > 0 && (
+                    <>
+                        <div style={{ width: `${masculineShare}%`, backgroundColor: CODING_COLORS.masculine }}/>
+                        <div style={{ width: `${100 - masculineShare}%`, backgroundColor: CODING_COLORS.feminine }}/>
+                    </>
+                )}
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-neutral-500">
+                <span>Masculine-coded: {masculineCount}</span>
+                <span>Feminine-coded: {feminineCount}</span>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                {(['masculine', 'feminine'] as const).map(coding => (
+                    <div key={coding}>
+                        <h5 className="text-xs font-medium mb-2" style={{ color: CODING_COLORS[coding] }}>
+                            {coding === 'masculine' ? 'Masculine-coded words' : 'Feminine-coded words'}
+                        </h5>
+                        {countTerms(coding).length > 0 ? (
+                            <ul className="flex flex-wrap gap-1">
+                                {countTerms(coding).map(([word, count]) => (
+                                    <li
+                                        key={word}
+                                        className="px-2 py-0.5 text-xs rounded-full border"
+                                        style={{ borderColor: CODING_COLORS[coding] }}
+                                    >
+                                        {word}{count > 1 ? ` ×${count}` : ''}
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-xs text-neutral-400 italic">None found</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatNumber = (value: number, digits: number = 2) => {
+    const rounded = value.toFixed(digits);
+    return value > 0 ? `+${rounded}` : rounded;
+};
+
+// Waterfall table showing how each term, the category caps and rounding add up to the score
+const ScoreBreakdownPanel: React.FC<{ breakdown: ScoreBreakdown }> = ({ breakdown }) => {
+    const terms = [...breakdown.terms].sort((a, b) => b.contribution - a.contribution);
+    const adjustments = [
+        ...breakdown.categories
+            .filter(category => Math.abs(category.capAdjustment) >= 0.005)
+            .map(category => ({
+                label: category.rawScore > 100
+                    ? `${capitalize(category.category)} score capped at 100`
+                    : `${capitalize(category.category)} score rounded to ${category.score}`,
+                value: category.capAdjustment
+            })),
+        ...(Math.abs(breakdown.roundingAdjustment) >= 0.005
+            ? [{ label: 'Overall score rounded', value: breakdown.roundingAdjustment }]
+            : [])
+    ];
+
+    const maxContribution = Math.max(breakdown.score, ...terms.map(term => term.contribution), 1);
+    let runningTotal = 0;
+
+    return (
+        <div className="bg-white p-4 rounded-md border border-neutral-200">
+            <div className="flex justify-between items-center mb-1">
+                <h4 className="text-sm font-medium">Score Breakdown</h4>
+                <span className="text-sm font-medium">{breakdown.score}/100</span>
+            </div>
+            <p className="text-xs text-neutral-500 mb-3">
+                Each term adds severity weight × length factor × category weight. The length factor is 1000
+                ÷ {breakdown.wordCount} words = {breakdown.normalizationFactor.toFixed(2)}, so the same term
+                counts for less in a longer description.
+            </p>
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                            <th className="py-1 pr-2 font-medium">Term</th>
+                            <th className="py-1 pr-2 font-medium">Category</th>
+                            <th className="py-1 pr-2 font-medium text-right">Severity</th>
+                            <th className="py-1 pr-2 font-medium text-right">Length</th>
+                            <th className="py-1 pr-2 font-medium text-right">Category weight</th>
+                            <th className="py-1 pr-2 font-medium text-right">Contribution</th>
+                            <th className="py-1 pr-2 font-medium text-right">Running total</th>
+                            <th className="py-1 font-medium w-32"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {terms.map((term, index) => {
+                            const start = runningTotal;
+                            runningTotal += term.contribution;
+
+                            return (
+                                <tr key={term.key || index} className="border-b border-neutral-100">
+                                    <td className="py-1 pr-2 font-medium">{term.term}</td>
+                                    <td className="py-1 pr-2 capitalize">{term.category}</td>
+                                    <td className="py-1 pr-2 text-right">
+                                        {term.severity} ×{term.severityWeight}
+                                    </td>
+                                    <td className="py-1 pr-2 text-right">×{term.normalizationFactor.toFixed(2)}</td>
+                                    <td className="py-1 pr-2 text-right">×{term.categoryWeight}</td>
+                                    <td className="py-1 pr-2 text-right">{formatNumber(term.contribution)}</td>
+                                    <td className="py-1 pr-2 text-right">{runningTotal.toFixed(2)}</td>
+                                    <td className="py-1">
+                                        <div className="relative h-2 bg-neutral-100 rounded">
+                                            <div
+                                                className="absolute h-2 bg-danger-400 rounded"
+                                                style={{
+                                                    left: `${Math.min(100, (start / maxContribution) * 100)}%`,
+                                                    width: `${Math.min(100, (term.contribution / maxContribution) * 100)}%`
+                                                }}
+                                            />
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {adjustments.map(adjustment => {
+                            runningTotal += adjustment.value;
+
+                            return (
+                                <tr key={adjustment.label} className="border-b border-neutral-100 text-neutral-500 italic">
+                                    <td className="py-1 pr-2" colSpan={5}>{adjustment.label}</td>
+                                    <td className="py-1 pr-2 text-right">{formatNumber(adjustment.value)}</td>
+                                    <td className="py-1 pr-2 text-right">{runningTotal.toFixed(2)}</td>
+                                    <td className="py-1"></td>
+                                </tr>
+                            );
+                        })}
+                        <tr className="font-medium">
+                            <td className="py-1 pr-2" colSpan={6}>Bias score</td>
+                            <td className="py-1 pr-2 text-right">{breakdown.score}</td>
+                            <td className="py-1"></td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const BiasVisualizer: React.FC<BiasVisualizerProps> = ({ biasedTerms, genderCoding, scoreBreakdown }) => {
     // Skip rendering if no data
     if (!biasedTerms || biasedTerms.length === 0) {
         return (
-            <div className="flex items-center justify-center p-10 ">
-                No biased terms detected for visualization
+            <div className="w-full space-y-6">
+                <div className="flex items-center justify-center p-10 ">
+                    No biased terms detected for visualization
+                </div>
+                {genderCoding && <GenderCodingPanel genderCoding={genderCoding}/>}
             </div>
         );
     }
 
     // Count biased terms by category
-    const categoryCounts = biasedTerms.reduce((acc, term) => {
+    const categoryCounts = biasedTerms.reduce<Record<string, number>>((acc, term) => {
         const category = term.category.toLowerCase();
         acc[category] = (acc[category] || 0) + 1;
         return acc;
@@ -25,7 +226,7 @@ const BiasVisualizer = ({ biasedTerms }) => {
     }));
 
     // Colors for categories
-    const COLORS = {
+    const COLORS: Record<string, string> = {
         gender: '#EC4899',
         age: '#3B82F6',
         race: '#8B5CF6',
@@ -33,7 +234,7 @@ const BiasVisualizer = ({ biasedTerms }) => {
     };
 
     // Get color based on category name
-    const getColor = (name) => {
+    const getColor = (name: string) => {
         const lowerName = name.toLowerCase();
         return COLORS[lowerName] || COLORS.other;
     };
@@ -110,6 +311,18 @@ const BiasVisualizer = ({ biasedTerms }) => {
                     </div>
                 </div>
             </div>
+
+            {scoreBreakdown && (
+                <div className="mt-6">
+                    <ScoreBreakdownPanel breakdown={scoreBreakdown}/>
+                </div>
+            )}
+
+            {genderCoding && (
+                <div className="mt-6">
+                    <GenderCodingPanel genderCoding={genderCoding}/>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Select from '../../components/common/Select';
+import TextArea from '../../components/common/TextArea';
+import useToast from '../../hooks/useToast';
+import { BiasCategory, CustomLexiconEntry, SeverityLevel } from '../../services/AnalyzeBiasedLanguage';
+import {
+  BIAS_CATEGORIES,
+  SEVERITY_LEVELS,
+  createLexiconEntry,
+  exportLexicon,
+  isValidLexiconPattern,
+  mergeLexicons,
+  parseLexiconJSON,
+} from '../../services/CustomLexiconService';
+
+interface CustomLexiconEditorProps {
+  lexicon: CustomLexiconEntry[];
+  onChange: (lexicon: CustomLexiconEntry[]) => void;
+}
+
+const emptyForm = {
+  term: '',
+  isRegex: false,
+  category: 'other' as BiasCategory,
+  severity: 'medium' as SeverityLevel,
+  alternatives: '',
+  rationale: '',
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const CustomLexiconEditor: React.FC<CustomLexiconEditorProps> = ({ lexicon, onChange }) => {
+  const { showToast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const categoryOptions = BIAS_CATEGORIES.map(category => ({ value: category, label: capitalize(category) }));
+  const severityOptions = SEVERITY_LEVELS.map(severity => ({ value: severity, label: capitalize(severity) }));
+
+  // Add the entry described by the form
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidLexiconPattern(form.term, form.isRegex)) {
+      setFormError(form.isRegex ? 'Enter a valid regular expression' : 'Enter a term or phrase');
+      return;
+    }
+
+    const entry = createLexiconEntry({
+      term: form.term.trim(),
+      isRegex: form.isRegex,
+      category: form.category,
+      severity: form.severity,
+      alternatives: form.alternatives.split(',').map(alt => alt.trim()).filter(Boolean),
+      rationale: form.rationale.trim(),
+    });
+
+    onChange(mergeLexicons(lexicon, [entry]));
+    setForm(emptyForm);
+    setFormError(null);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(lexicon.filter(entry => entry.id !== id));
+  };
+
+  // Import a shared lexicon file and merge it into the current list
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseLexiconJSON(await file.text());
+      onChange(mergeLexicons(lexicon, imported));
+      showToast(`Imported ${imported.length} lexicon ${imported.length === 1 ? 'entry' : 'entries'}`, 'success');
+    } catch (error) {
+      console.error('Error importing lexicon:', error);
+      showToast(error instanceof Error ? error.message : 'Error importing lexicon', 'error');
+    } finally {
+      // Reset the input to allow importing the same file again
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-neutral-800">Custom Lexicon</h3>
+          <p className="text-sm text-neutral-600">
+            Phrases your organization avoids. They are checked alongside the built-in analyzers and saved in this browser.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+            Import JSON
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportLexicon(lexicon)}
+            disabled={lexicon.length === 0}
+          >
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 bg-neutral-50 border border-neutral-200 rounded-md">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+          <div>
+            <Input
+              id="lexicon-term"
+              label={form.isRegex ? 'Regular expression' : 'Term or phrase'}
+              value={form.term}
+              onChange={(e) => setForm({ ...form, term: e.target.value })}
+              placeholder={form.isRegex ? 'e.g. young (and|&) dynamic' : 'e.g. rockstar'}
+              error={formError || undefined}
+            />
+            <label className="flex items-center text-sm -mt-2 mb-4">
+              <input
+                type="checkbox"
+                checked={form.isRegex}
+                onChange={(e) => setForm({ ...form, isRegex: e.target.checked })}
+                className="mr-2"
+              />
+              Treat as regular expression
+            </label>
+          </div>
+          <Input
+            id="lexicon-alternatives"
+            label="Alternatives"
+            value={form.alternatives}
+            onChange={(e) => setForm({ ...form, alternatives: e.target.value })}
+            placeholder="Comma-separated, e.g. expert, skilled engineer"
+          />
+          <Select
+            id="lexicon-category"
+            label="Category"
+            options={categoryOptions}
+            value={form.category}
+            onChange={(value) => setForm({ ...form, category: value as BiasCategory })}
+          />
+          <Select
+            id="lexicon-severity"
+            label="Severity"
+            options={severityOptions}
+            value={form.severity}
+            onChange={(value) => setForm({ ...form, severity: value as SeverityLevel })}
+          />
+        </div>
+        <TextArea
+          id="lexicon-rationale"
+          label="Rationale"
+          value={form.rationale}
+          onChange={(e) => setForm({ ...form, rationale: e.target.value })}
+          placeholder="Why this phrase should be avoided"
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" variant="primary" size="sm">
+            Add to Lexicon
+          </Button>
+        </div>
+      </form>
+
+      {lexicon.length === 0 ? (
+        <div className="text-center py-6 text-sm text-neutral-500">
+          No custom terms yet. Add one above or import a team lexicon.
+        </div>
+      ) : (
+        <ul className="divide-y divide-neutral-200 border border-neutral-200 rounded-md">
+          {lexicon.map(entry => (
+            <li key={entry.id} className="p-3 flex items-start justify-between">
+              <div>
+                <div className="font-medium">
+                  {entry.isRegex ? <code>/{entry.term}/</code> : entry.term}
+                  <span className="ml-2 inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-neutral-100 text-neutral-700">
+                    {capitalize(entry.category)} · {capitalize(entry.severity)}
+                  </span>
+                </div>
+                {entry.alternatives.length > 0 && (
+                  <div className="mt-1 text-sm text-neutral-600">
+                    Alternatives: {entry.alternatives.join(', ')}
+                  </div>
+                )}
+                {entry.rationale && (
+                  <div className="mt-1 text-sm text-neutral-400 italic">{entry.rationale}</div>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(entry.id)}
+                className="text-danger-600"
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CustomLexiconEditor;
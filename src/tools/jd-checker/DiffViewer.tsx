@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Button from '../../components/common/Button';
+import { countChanges, diffToHTML, diffWords, DiffPart, revertChange } from '../../services/DiffService';
+import { exportToHTML } from '../../services/ExportService';
+
+interface DiffViewerProps {
+  originalText: string;
+  improvedText: string;
+  onRevert: (updatedText: string) => void;
+}
+
+type DiffMode = 'inline' | 'split';
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ originalText, improvedText, onRevert }) => {
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const parts = useMemo(() => diffWords(originalText, improvedText), [originalText, improvedText]);
+  const changeIds = useMemo(
+    () => parts.flatMap(part => (part.type === 'change' ? [part.change.id] : [])),
+    [parts]
+  );
+  const activeChangeId = activeIndex >= 0 ? changeIds[activeIndex] : undefined;
+
+  // The diff is recomputed after every edit, so drop a selection that no longer exists
+  useEffect(() => {
+    if (activeIndex >= changeIds.length) setActiveIndex(changeIds.length - 1);
+  }, [changeIds.length, activeIndex]);
+
+  const goToChange = (index: number) => {
+    if (changeIds.length === 0) return;
+    const wrapped = (index + changeIds.length) % changeIds.length;
+    setActiveIndex(wrapped);
+
+    const target = containerRef.current?.querySelector(`[data-change-id="${changeIds[wrapped]}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().split('T')[0];
+    const content = `
+      <h1>Job Description Changes</h1>
+      <p>${countChanges(parts)} change(s) between the original and the improved job description.</p>
+      ${diffToHTML(parts, mode)}
+      <h2>Sign-off</h2>
+      <p>Reviewed by: ______________________________</p>
+      <p>Date: ______________________________</p>
+    `;
+
+    exportToHTML(content, { filename: `job-description-changes-${date}.html` });
+  };
+
+  const changeClass = (id: number) =>
+    `relative group rounded px-0.5 ${id === activeChangeId ? 'ring-2 ring-primary-400' : ''}`;
+
+  const renderRevertButton = (id: number) => (
+    <button
+      type="button"
+      title="Revert this change"
+      className="ml-0.5 px-1 text-xs text-neutral-500 bg-white border border-neutral-300 rounded hidden group-hover:inline"
+      onClick={() => onRevert(revertChange(parts, id))}
+    >
+      ↺
+    </button>
+  );
+
+  const renderRemoved = (text: string) =>
+    text ? <del className="bg-danger-100 text-danger-800">{text}</del> : null;
+
+  const renderAdded = (text: string) =>
+    text ? <ins className="bg-success-100 text-success-800 no-underline">{text}</ins> : null;
+
+  const renderInline = () => (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {parts.map((part, index) => part.type === 'equal' ? (
+        <span key={index}>{part.text}</span>
+      ) : (
+        <span key={index} data-change-id={part.change.id} className={changeClass(part.change.id)}>
+          {renderRemoved(part.change.removed)}
+          {renderAdded(part.change.added)}
+          {renderRevertButton(part.change.id)}
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderSide = (side: 'original' | 'improved', withAnchors: boolean) =>
+    parts.map((part: DiffPart, index) => {
+      if (part.type === 'equal') return <span key={index}>{part.text}</span>;
+
+      const { id, removed, added } = part.change;
+      return (
+        <span
+          key={index}
+          data-change-id={withAnchors ? id : undefined}
+          className={changeClass(id)}
+        >
+          {side === 'original' ? renderRemoved(removed) : renderAdded(added)}
+          {side === 'improved' && renderRevertButton(id)}
+        </span>
+      );
+    });
+
+  const renderSplit = () => (
+    <div className="grid grid-cols-2 gap-4 text-sm leading-relaxed">
+      <div>
+        <h4 className="text-xs font-medium uppercase text-neutral-500 mb-2">Original</h4>
+        <div className="whitespace-pre-wrap">{renderSide('original', false)}</div>
+      </div>
+      <div>
+        <h4 className="text-xs font-medium uppercase text-neutral-500 mb-2">Improved</h4>
+        <div className="whitespace-pre-wrap">{renderSide('improved', true)}</div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center space-x-2">
+          <Button variant={mode === 'inline' ? 'primary' : 'outline'} size="sm" onClick={() => setMode('inline')}>
+            Inline
+          </Button>
+          <Button variant={mode === 'split' ? 'primary' : 'outline'} size="sm" onClick={() => setMode('split')}>
+            Split
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-neutral-600">
+            {changeIds.length === 0
+              ? 'No changes'
+              : activeIndex >= 0
+                ? `Change ${activeIndex + 1} of ${changeIds.length}`
+                : `${changeIds.length} change${changeIds.length === 1 ? '' : 's'}`}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => goToChange(activeIndex - 1)} disabled={changeIds.length === 0}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => goToChange(activeIndex + 1)} disabled={changeIds.length === 0}>
+            Next change
+          </Button>
+          {activeChangeId !== undefined && (
+            <Button variant="ghost" size="sm" onClick={() => onRevert(revertChange(parts, activeChangeId))}>
+              Revert
+            </Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={handleExport}>
+            Export HTML
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="p-4 bg-white border border-neutral-200 rounded-md max-h-[600px] overflow-y-auto">
+        {mode === 'inline' ? renderInline() : renderSplit()}
+      </div>
+    </div>
+  );
+};
+
+export default DiffViewer;
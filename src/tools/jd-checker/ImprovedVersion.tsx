@@ -1,13 +1,21 @@
-import React from 'react';
+import React, { useState } from 'react';
 import TextArea from '../../components/common/TextArea';
 import Button from '../../components/common/Button';
 import SuggestionList from './SuggestionList';
+import TermReviewList from './TermReviewList';
+import { BiasedTerm, TermDecision } from '../../services/AnalyzeBiasedLanguage';
+import { RequirementsAnalysis } from '../../services/RequirementsAnalysisService';
 
 interface ImprovedVersionProps {
   improvedJobDescription: string;
   setImprovedJobDescription: (text: string) => void;
   jobDescription: string;
-  biasedTerms: any[];
+  biasedTerms: BiasedTerm[];
+  requirements?: RequirementsAnalysis;
+  decisions: Record<string, TermDecision>;
+  ignoredTerms: Record<string, string>;
+  onDecisionChange: (key: string, decision: TermDecision | null) => void;
+  onRestoreIgnored: (key: string) => void;
   onSave: () => void;
   loading: boolean;
   isPDF: boolean;
@@ -18,10 +26,17 @@ const ImprovedVersion: React.FC<ImprovedVersionProps> = ({
   setImprovedJobDescription,
   jobDescription,
   biasedTerms,
+  requirements,
+  decisions,
+  ignoredTerms,
+  onDecisionChange,
+  onRestoreIgnored,
   onSave,
   loading,
   isPDF
 }) => {
+  const [mode, setMode] = useState<'suggestions' | 'review'>('suggestions');
+
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setImprovedJobDescription(e.target.value);
   };
@@ -47,16 +62,45 @@ const ImprovedVersion: React.FC<ImprovedVersionProps> = ({
       </div>
 
       <div className="lg:col-span-2">
-        <h3 className="text-lg font-medium text-neutral-800 mb-3">
-          Suggestions
-        </h3>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-medium text-neutral-800">
+            {mode === 'suggestions' ? 'Suggestions' : 'Review Terms'}
+          </h3>
+          <div className="flex space-x-2">
+            <Button
+              variant={mode === 'suggestions' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setMode('suggestions')}
+            >
+              Suggestions
+            </Button>
+            <Button
+              variant={mode === 'review' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setMode('review')}
+            >
+              Review
+            </Button>
+          </div>
+        </div>
 
-        <SuggestionList
-          biasedTerms={biasedTerms}
-          originalText={jobDescription}
-          improvedText={improvedJobDescription}
-          onUpdate={setImprovedJobDescription}
-        />
+        {mode === 'suggestions' ? (
+          <SuggestionList
+            biasedTerms={biasedTerms}
+            originalText={jobDescription}
+            improvedText={improvedJobDescription}
+            requirements={requirements}
+            onUpdate={setImprovedJobDescription}
+          />
+        ) : (
+          <TermReviewList
+            biasedTerms={biasedTerms}
+            decisions={decisions}
+            ignoredTerms={ignoredTerms}
+            onDecisionChange={onDecisionChange}
+            onRestoreIgnored={onRestoreIgnored}
+          />
+        )}
       </div>
     </div>
   );
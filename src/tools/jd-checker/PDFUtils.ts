@@ -1,6 +1,7 @@
 /**
  * Utility functions for PDF processing
  */
+import { PDFJS_WORKER_SRC } from '../../services/PDFJSAssetService';
 
 /**
  * Extract text from a PDF document
@@ -14,7 +15,7 @@ export const extractBasicTextFromPDF = async (pdfData: ArrayBuffer): Promise<str
 
     // Set the worker source path before using PDF.js
     if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
-      pdfjsLib.GlobalWorkerOptions.workerSrc = window.pdfjsWorkerSrc || 'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs';
+      pdfjsLib.GlobalWorkerOptions.workerSrc = window.pdfjsWorkerSrc || PDFJS_WORKER_SRC;
     }
 
     // Create a copy of the ArrayBuffer to prevent detached buffer issues
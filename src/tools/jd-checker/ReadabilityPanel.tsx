@@ -0,0 +1,104 @@
+import React from 'react';
+import { ReadabilityResult } from '../../services/ReadabilityService';
+
+interface ReadabilityPanelProps {
+  readability: ReadabilityResult;
+}
+
+interface Metric {
+  label: string;
+  value: string;
+  target: string;
+  ok: boolean;
+}
+
+const formatPercent = (ratio: number): string => `${Math.round(ratio * 1000) / 10}%`;
+
+const ReadabilityPanel: React.FC<ReadabilityPanelProps> = ({ readability }) => {
+  const metrics: Metric[] = [
+    {
+      label: 'Grade level',
+      value: readability.fleschKincaidGrade.toFixed(1),
+      target: 'Aim for 10 or below',
+      ok: readability.fleschKincaidGrade <= 10,
+    },
+    {
+      label: 'Avg. sentence length',
+      value: `${readability.averageSentenceLength.toFixed(1)} words`,
+      target: 'Aim for 20 words or fewer',
+      ok: readability.averageSentenceLength <= 20,
+    },
+    {
+      label: 'Passive voice',
+      value: formatPercent(readability.passiveVoiceRatio),
+      target: 'Aim for under 10% of sentences',
+      ok: readability.passiveVoiceRatio < 0.1,
+    },
+    {
+      label: 'Acronyms',
+      value: formatPercent(readability.acronymDensity),
+      target: 'Spell out acronyms on first use',
+      ok: readability.acronymDensity < 0.02,
+    },
+    {
+      label: 'Jargon',
+      value: formatPercent(readability.jargonDensity),
+      target: 'Prefer plain descriptions of the work',
+      ok: readability.jargonDensity < 0.01,
+    },
+  ];
+
+  return (
+    <div className="p-4 bg-white border border-neutral-200 rounded-md h-full">
+      <h3 className="text-lg font-medium text-neutral-800 mb-3">Readability</h3>
+
+      <dl className="grid grid-cols-2 gap-3">
+        {metrics.map(metric => (
+          <div key={metric.label} className="p-2 bg-neutral-50 border border-neutral-200 rounded-md">
+            <dt className="text-xs text-neutral-500">{metric.label}</dt>
+            <dd className={`text-lg font-semibold ${metric.ok ? 'text-success-700' : 'text-warning-700'}`}>
+              {metric.value}
+            </dd>
+            <dd className="text-xs text-neutral-400">{metric.target}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {(readability.acronyms.length > 0 || readability.jargonTerms.length > 0) && (
+        <div className="mt-4 text-sm space-y-1">
+          {readability.acronyms.length > 0 && (
+            <p>
+              <span className="font-medium">Acronyms:</span> {readability.acronyms.join(', ')}
+            </p>
+          )}
+          {readability.jargonTerms.length > 0 && (
+            <p>
+              <span className="font-medium">Jargon:</span> {readability.jargonTerms.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {readability.longSentences.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium mb-2">
+            Long sentences ({readability.longSentences.length})
+          </h4>
+          <ul className="space-y-2 max-h-48 overflow-y-auto">
+            {readability.longSentences.map(sentence => (
+              <li
+                key={sentence.index}
+                className="p-2 text-sm bg-warning-50 border border-warning-200 rounded-md"
+              >
+                <span className="text-xs font-medium text-warning-800">{sentence.wordCount} words: </span>
+                <span className="italic">{sentence.text}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReadabilityPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import Input from '../../components/common/Input';
+import { RequirementsAnalysis } from '../../services/RequirementsAnalysisService';
+
+interface RequirementsPanelProps {
+  requirements: RequirementsAnalysis;
+  onMaxRequiredItemsChange: (maxRequiredItems: number) => void;
+}
+
+const RequirementsPanel: React.FC<RequirementsPanelProps> = ({ requirements, onMaxRequiredItemsChange }) => {
+  const overLimit = requirements.requiredCount > requirements.maxRequiredItems;
+
+  const stats = [
+    { label: 'Required', value: requirements.requiredCount, highlight: overLimit },
+    { label: 'Nice to have', value: requirements.preferredCount, highlight: false },
+    { label: 'Years-of-experience demands', value: requirements.yearsOfExperienceDemands, highlight: false },
+    { label: 'Degree requirements', value: requirements.degreeRequirements, highlight: false },
+  ];
+
+  return (
+    <div className="p-4 bg-white border border-neutral-200 rounded-md">
+      <div className="flex justify-between items-start">
+        <h3 className="text-lg font-medium text-neutral-800">Requirements</h3>
+        <div className="w-40">
+          <Input
+            id="max-required-items"
+            type="number"
+            min={1}
+            label="Max required items"
+            value={requirements.maxRequiredItems}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value) && value > 0) onMaxRequiredItemsChange(value);
+            }}
+          />
+        </div>
+      </div>
+
+      {requirements.items.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          No requirements or qualifications list was found. Use a heading such as "Requirements:" followed by bullet points.
+        </p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-2 bg-neutral-50 border border-neutral-200 rounded-md">
+                <dt className="text-xs text-neutral-500">{stat.label}</dt>
+                <dd className={`text-lg font-semibold ${stat.highlight ? 'text-warning-700' : 'text-neutral-800'}`}>
+                  {stat.value}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          {requirements.warnings.map((warning, index) => (
+            <div key={index} className="mt-3 p-2 text-sm bg-warning-50 border border-warning-200 text-warning-800 rounded-md">
+              {warning.message}
+            </div>
+          ))}
+
+          <ul className="mt-4 space-y-1 text-sm max-h-60 overflow-y-auto">
+            {requirements.items.map(item => (
+              <li key={item.index} className="flex items-start">
+                <span
+                  className={`shrink-0 mr-2 px-2 py-0.5 text-xs font-medium rounded-full ${
+                    item.classification === 'required'
+                      ? 'bg-neutral-200 text-neutral-800'
+                      : 'bg-success-100 text-success-800'
+                  }`}
+                >
+                  {item.classification === 'required' ? 'Required' : 'Nice to have'}
+                </span>
+                <span>
+                  {item.text}
+                  {item.yearsOfExperience !== undefined && (
+                    <span className="ml-1 text-xs text-neutral-400">({item.yearsOfExperience}+ yrs)</span>
+                  )}
+                  {item.requiresDegree && (
+                    <span className="ml-1 text-xs text-neutral-400">(degree)</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RequirementsPanel;
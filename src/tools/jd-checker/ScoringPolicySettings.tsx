@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Select from '../../components/common/Select';
+import { BiasCategory, ScoringPolicy, SeverityLevel } from '../../services/AnalyzeBiasedLanguage';
+import { BIAS_CATEGORIES, SEVERITY_LEVELS } from '../../services/CustomLexiconService';
+import {
+  createScoringPolicy,
+  getActivePolicy,
+  getAvailablePolicies,
+  getCategoryWeightTotal,
+  normalizeCategoryWeights,
+} from '../../services/ScoringPolicyService';
+
+interface ScoringPolicySettingsProps {
+  policies: ScoringPolicy[];
+  activePolicyId: string;
+  onPoliciesChange: (policies: ScoringPolicy[]) => void;
+  onActivePolicyChange: (policyId: string) => void;
+}
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Parse a non-negative number from an input, or null if it is not one
+const parseNonNegative = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+interface PolicyNumberInputProps {
+  id: string;
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  step?: number;
+  helperText?: string;
+  disabled?: boolean;
+}
+
+// Keeps what is typed as a draft so the field can be cleared and retyped; the value is checked and
+// saved on blur, and an invalid entry is put back to the saved value
+const PolicyNumberInput: React.FC<PolicyNumberInputProps> = ({ value, onCommit, ...props }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const handleBlur = () => {
+    const parsed = parseNonNegative(draft);
+    if (parsed === null) {
+      setDraft(String(value));
+    } else if (parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <Input
+      {...props}
+      type="number"
+      min={0}
+      value={draft}
+      error={draft.trim() !== '' && parseNonNegative(draft) === null ? 'Enter a number of 0 or more' : undefined}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={handleBlur}
+    />
+  );
+};
+
+const ScoringPolicySettings: React.FC<ScoringPolicySettingsProps> = ({
+  policies,
+  activePolicyId,
+  onPoliciesChange,
+  onActivePolicyChange,
+}) => {
+  const activePolicy = getActivePolicy(policies, activePolicyId);
+  const isEditable = policies.some(policy => policy.id === activePolicy.id);
+  const weightTotal = getCategoryWeightTotal(activePolicy);
+
+  const updatePolicy = (changes: Partial<ScoringPolicy>) => {
+    onPoliciesChange(policies.map(policy => (policy.id === activePolicy.id ? { ...policy, ...changes } : policy)));
+  };
+
+  const handleDuplicate = () => {
+    const policy = createScoringPolicy(`${activePolicy.name} (copy)`, activePolicy);
+    onPoliciesChange([...policies, policy]);
+    onActivePolicyChange(policy.id);
+  };
+
+  const handleDelete = () => {
+    onPoliciesChange(policies.filter(policy => policy.id !== activePolicy.id));
+    onActivePolicyChange('default');
+  };
+
+  const handleCategoryWeightChange = (category: BiasCategory, weight: number) => {
+    updatePolicy({ categoryWeights: { ...activePolicy.categoryWeights, [category]: weight } });
+  };
+
+  const handleSeverityWeightChange = (severity: SeverityLevel, weight: number) => {
+    updatePolicy({ severityWeights: { ...activePolicy.severityWeights, [severity]: weight } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-64">
+          <Select
+            id="scoring-policy"
+            label="Active policy"
+            value={activePolicy.id}
+            onChange={onActivePolicyChange}
+            options={getAvailablePolicies(policies).map(policy => ({ value: policy.id, label: policy.name }))}
+          />
+        </div>
+        <div className="mb-4 flex space-x-2">
+          <Button variant="outline" size="sm" onClick={handleDuplicate}>
+            Duplicate
+          </Button>
+          {isEditable && (
+            <Button variant="danger" size="sm" onClick={handleDelete}>
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!isEditable && (
+        <p className="text-sm text-neutral-600">
+          The default policy cannot be edited. Duplicate it to create a policy for your organization.
+        </p>
+      )}
+
+      {isEditable && (
+        <Input
+          id="scoring-policy-name"
+          label="Policy name"
+          value={activePolicy.name}
+          onChange={(e) => updatePolicy({ name: e.target.value })}
+        />
+      )}
+
+      <div>
+        <h3 className="text-lg font-medium text-neutral-800 mb-2">Pass/fail thresholds</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <PolicyNumberInput
+            id="scoring-policy-max-score"
+            label="Maximum bias score"
+            helperText="Descriptions scoring above this fail the policy"
+            value={activePolicy.maxOverallScore}
+            disabled={!isEditable}
+            onCommit={(value) => updatePolicy({ maxOverallScore: value })}
+          />
+          <PolicyNumberInput
+            id="scoring-policy-max-high"
+            step={1}
+            label="Maximum high-severity terms"
+            value={activePolicy.maxHighSeverityTerms}
+            disabled={!isEditable}
+            onCommit={(value) => updatePolicy({ maxHighSeverityTerms: Math.floor(value) })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-medium text-neutral-800">Category weights</h3>
+          <span className={`text-sm ${weightTotal === 1 ? 'text-neutral-500' : 'text-warning-700'}`}>
+            Total: {weightTotal}
+          </span>
+        </div>
+        {weightTotal !== 1 && (
+          <div className="mb-3 p-2 flex items-center justify-between text-sm bg-warning-50 border border-warning-200 text-warning-800 rounded-md">
+            <span>Category weights should add up to 1 to keep scores between 0 and 100.</span>
+            {isEditable && (
+              <Button variant="outline" size="sm" onClick={() => updatePolicy(normalizeCategoryWeights(activePolicy))}>
+                Normalize
+              </Button>
+            )}
+          </div>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {BIAS_CATEGORIES.map(category => (
+            <PolicyNumberInput
+              key={category}
+              id={`scoring-policy-category-${category}`}
+              step={0.05}
+              label={capitalize(category)}
+              value={activePolicy.categoryWeights[category]}
+              disabled={!isEditable}
+              onCommit={(weight) => handleCategoryWeightChange(category, weight)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-medium text-neutral-800 mb-2">Severity weights</h3>
+        <div className="grid grid-cols-3 gap-4">
+          {SEVERITY_LEVELS.map(severity => (
+            <PolicyNumberInput
+              key={severity}
+              id={`scoring-policy-severity-${severity}`}
+              step={0.1}
+              label={capitalize(severity)}
+              value={activePolicy.severityWeights[severity]}
+              disabled={!isEditable}
+              onCommit={(weight) => handleSeverityWeightChange(severity, weight)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-neutral-400">Changes apply the next time you analyze a job description.</p>
+    </div>
+  );
+};
+
+export default ScoringPolicySettings;
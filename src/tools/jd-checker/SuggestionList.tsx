@@ -1,5 +1,6 @@
 import React from 'react';
 import Button from "../../components/common/Button";
+import { moveRequirementToPreferred, RequirementsAnalysis } from '../../services/RequirementsAnalysisService';
 
 interface SuggestionListProps {
   biasedTerms: {
@@ -7,9 +8,12 @@ interface SuggestionListProps {
     index: number;
     category: string;
     alternatives: string[];
+    context?: string;
+    source?: string;
   }[];
   originalText: string;
   improvedText: string;
+  requirements?: RequirementsAnalysis;
   onUpdate: (updatedText: string) => void;
 }
 
@@ -17,6 +21,7 @@ const SuggestionList: React.FC<SuggestionListProps> = ({
   biasedTerms,
   originalText,
   improvedText,
+  requirements,
   onUpdate,
 }) => {
   // Get category label
@@ -78,6 +83,30 @@ const SuggestionList: React.FC<SuggestionListProps> = ({
 
   return (
     <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2">
+      {requirements?.warnings.map((warning, index) => (
+        <div key={`requirements-${index}`} className="p-3 bg-white border border-warning-200 rounded-md shadow-sm">
+          <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-warning-100 text-warning-800">
+            Requirements inflation
+          </span>
+          <div className="mt-2 text-sm">{warning.message}</div>
+          <div className="mt-3 space-y-2">
+            {warning.items.map(item => (
+              <div key={item.index} className="flex items-center justify-between gap-2">
+                <span className="text-sm italic">{item.text}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="shrink-0"
+                  onClick={() => onUpdate(moveRequirementToPreferred(improvedText, item))}
+                >
+                  Move to nice to have
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
       {biasedTerms.map((term, index) => (
         <div key={index} className="p-3 bg-white border border-neutral-200 rounded-md shadow-sm">
           <div className="flex items-start justify-between">
@@ -89,6 +118,11 @@ const SuggestionList: React.FC<SuggestionListProps> = ({
               >
                 {getCategoryLabel(term.category)}
               </span>
+              {term.source === 'custom' && (
+                <span className="ml-2 inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-neutral-100 text-neutral-700">
+                  Organization lexicon
+                </span>
+              )}
               <div className="mt-2 font-medium">{term.term}</div>
               <div className="mt-1 text-sm text-neutral-400">
                 <span className="font-medium"></span>{' '}
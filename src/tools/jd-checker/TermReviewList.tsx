@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import { BiasedTerm, getTermFromKey, TermDecision } from '../../services/AnalyzeBiasedLanguage';
+
+interface TermReviewListProps {
+  biasedTerms: BiasedTerm[];
+  decisions: Record<string, TermDecision>;
+  ignoredTerms: Record<string, string>; // term key to reason, remembered for this document
+  onDecisionChange: (key: string, decision: TermDecision | null) => void;
+  onRestoreIgnored: (key: string) => void;
+}
+
+// A term that is being edited or ignored needs a free-text field before the decision is made
+type PendingInput = { key: string; mode: 'edit' | 'ignore'; value: string };
+
+const TermReviewList: React.FC<TermReviewListProps> = ({
+  biasedTerms,
+  decisions,
+  ignoredTerms,
+  onDecisionChange,
+  onRestoreIgnored,
+}) => {
+  const [pending, setPending] = useState<PendingInput | null>(null);
+
+  const reviewedCount = biasedTerms.filter(term => term.key && decisions[term.key]).length;
+
+  // Ignored terms that are no longer part of the current analysis
+  const previouslyIgnored = Object.entries(ignoredTerms)
+    .filter(([key]) => !biasedTerms.some(term => term.key === key));
+
+  const handleConfirmPending = () => {
+    if (!pending || !pending.value.trim()) return;
+
+    onDecisionChange(
+      pending.key,
+      pending.mode === 'edit'
+        ? { status: 'accepted', replacement: pending.value.trim() }
+        : { status: 'ignored', reason: pending.value.trim() }
+    );
+    setPending(null);
+  };
+
+  const renderDecision = (term: BiasedTerm, decision: TermDecision) => (
+    <div className="mt-2 flex items-center justify-between gap-2 text-sm">
+      {decision.status === 'accepted' ? (
+        <span>
+          Replaced with <span className="font-medium text-success-700">"{decision.replacement}"</span>
+        </span>
+      ) : (
+        <span className="text-neutral-500">
+          Ignored: <span className="italic">{decision.reason}</span>
+        </span>
+      )}
+      <Button variant="ghost" size="sm" onClick={() => onDecisionChange(term.key!, null)}>
+        Undo
+      </Button>
+    </div>
+  );
+
+  const renderPendingInput = (term: BiasedTerm) => (
+    <div className="mt-2 flex items-start gap-2">
+      <Input
+        id={`term-review-${term.key}`}
+        autoFocus
+        value={pending!.value}
+        placeholder={pending!.mode === 'edit' ? 'Replacement text' : 'Reason for ignoring'}
+        onChange={(e) => setPending({ ...pending!, value: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleConfirmPending();
+          if (e.key === 'Escape') setPending(null);
+        }}
+      />
+      <Button variant="primary" size="sm" onClick={handleConfirmPending} disabled={!pending!.value.trim()}>
+        {pending!.mode === 'edit' ? 'Apply' : 'Ignore'}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setPending(null)}>
+        Cancel
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2">
+      <p className="text-sm text-neutral-600">
+        {reviewedCount} of {biasedTerms.length} terms reviewed. Each decision is applied to the current improved
+        version, so your own edits to it are kept.
+      </p>
+
+      {biasedTerms.map(term => {
+        if (!term.key) return null;
+        const decision = decisions[term.key];
+        const isPending = pending?.key === term.key;
+
+        return (
+          <div
+            key={term.key}
+            className={`p-3 border rounded-md shadow-sm ${decision ? 'bg-neutral-50 border-neutral-200' : 'bg-white border-neutral-200'}`}
+          >
+            <div className="font-medium">{term.term}</div>
+            <div className="mt-1 text-sm text-neutral-400 italic">{term.context}</div>
+
+            {decision ? renderDecision(term, decision) : isPending ? renderPendingInput(term) : (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {term.alternatives.map(alternative => (
+                  <Button
+                    key={alternative}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDecisionChange(term.key!, { status: 'accepted', replacement: alternative })}
+                  >
+                    {alternative}
+                  </Button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPending({ key: term.key!, mode: 'edit', value: term.alternatives[0] || term.term })}
+                >
+                  Edit…
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPending({ key: term.key!, mode: 'ignore', value: '' })}
+                >
+                  Ignore…
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {previouslyIgnored.length > 0 && (
+        <div className="p-3 bg-neutral-50 border border-neutral-200 rounded-md">
+          <h4 className="text-sm font-medium mb-2">Ignored for this document</h4>
+          <ul className="space-y-1">
+            {previouslyIgnored.map(([key, reason]) => (
+              <li key={key} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  <span className="font-medium">{getTermFromKey(key)}</span>
+                  <span className="ml-1 text-neutral-500 italic">{reason}</span>
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => onRestoreIgnored(key)}>
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-neutral-400">Restored terms reappear the next time you analyze.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TermReviewList;
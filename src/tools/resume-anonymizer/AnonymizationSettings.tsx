@@ -1,19 +1,67 @@
 import React from 'react';
 import Card from '../../components/common/Card';
 import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Select from '../../components/common/Select';
 import { AnonymizationSettings as Settings } from '../ResumeAnonymizer';
+import type { PDFRedactionStyle } from '../../services/PDFRedactionService';
+import { createSectionRule, SectionRule, SectionRuleAction } from '../../services/AnalysisService';
+import type { ResumeSectionKind } from '../../services/ResumeParserService';
+import { IdentifierLocale, LOCALE_PACKS } from '../../services/LocaleIdentifierService';
 
 interface AnonymizationSettingsProps {
     settings: Settings;
     onChange: (settings: Settings) => void;
     onApplyToAll: () => void;
+    vaultPassphrase: string;
+    onVaultPassphraseChange: (passphrase: string) => void;
     disabled?: boolean;
 }
 
+const SECTION_OPTIONS: { value: ResumeSectionKind; label: string }[] = [
+    { value: 'contact', label: 'Header / contact block' },
+    { value: 'personal', label: 'Personal Details' },
+    { value: 'summary', label: 'Summary' },
+    { value: 'experience', label: 'Experience' },
+    { value: 'education', label: 'Education' },
+    { value: 'skills', label: 'Skills' },
+    { value: 'certifications', label: 'Certifications' },
+    { value: 'interests', label: 'Interests' },
+    { value: 'references', label: 'References' },
+    { value: 'other', label: 'Other sections' },
+];
+
+const SECTION_ACTION_OPTIONS: { value: SectionRuleAction; label: string }[] = [
+    { value: 'remove', label: 'Remove section' },
+    { value: 'keep', label: 'Keep selected details' },
+    { value: 'mask', label: 'Always mask selected details' },
+];
+
+// Identifier types a keep or mask rule can name
+const SECTION_RULE_TYPES: { value: string; label: string }[] = [
+    { value: 'name', label: 'Names' },
+    { value: 'email', label: 'Emails' },
+    { value: 'phone', label: 'Phones' },
+    { value: 'address', label: 'Addresses' },
+    { value: 'social', label: 'Social media' },
+    { value: 'nationalId', label: 'ID numbers' },
+    { value: 'employer', label: 'Employers' },
+    { value: 'institution', label: 'Universities' },
+    { value: 'year', label: 'Years' },
+    { value: 'birthdate', label: 'Birth dates' },
+    { value: 'age', label: 'Ages' },
+    { value: 'pronouns', label: 'Pronouns' },
+    { value: 'nationality', label: 'Nationality' },
+    { value: 'marital', label: 'Marital status' },
+    { value: 'affiliation', label: 'Affiliations' },
+];
+
 const AnonymizationSettings: React.FC<AnonymizationSettingsProps> = ({
                                                                          settings,
                                                                          onChange,
                                                                          onApplyToAll,
+                                                                         vaultPassphrase,
+                                                                         onVaultPassphraseChange,
                                                                          disabled = false,
                                                                      }) => {
     // Handle checkbox change
@@ -25,6 +73,42 @@ const AnonymizationSettings: React.FC<AnonymizationSettingsProps> = ({
         });
     };
 
+    const toggleLocale = (locale: IdentifierLocale) => {
+        onChange({
+            ...settings,
+            locales: settings.locales.indexOf(locale) === -1
+                ? [...settings.locales, locale]
+                : settings.locales.filter(item => item !== locale),
+        });
+    };
+
+    const handleAddSectionRule = () => {
+        onChange({
+            ...settings,
+            sectionRules: [...settings.sectionRules, createSectionRule({ section: 'interests', action: 'remove', types: [] })],
+        });
+    };
+
+    const handleSectionRuleChange = (id: string, changes: Partial<SectionRule>) => {
+        onChange({
+            ...settings,
+            sectionRules: settings.sectionRules.map(rule => rule.id === id ? { ...rule, ...changes } : rule),
+        });
+    };
+
+    const handleRemoveSectionRule = (id: string) => {
+        onChange({
+            ...settings,
+            sectionRules: settings.sectionRules.filter(rule => rule.id !== id),
+        });
+    };
+
+    const toggleSectionRuleType = (rule: SectionRule, type: string) => {
+        handleSectionRuleChange(rule.id, {
+            types: rule.types.indexOf(type) === -1 ? [...rule.types, type] : rule.types.filter(item => item !== type),
+        });
+    };
+
     return (
         <Card
             title="Anonymization Settings"
@@ -121,6 +205,296 @@ const AnonymizationSettings: React.FC<AnonymizationSettingsProps> = ({
                     <p className="text-xs text-neutral-500 ml-6">Replaces social media links with [SOCIAL MEDIA]</p>
                 </div>
 
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-national-ids"
+                            name="replaceNationalIds"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replaceNationalIds}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-national-ids" className="ml-2 block text-sm text-neutral-700">
+                            National ID and Tax Numbers
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces numbers such as SSN, NI number, Aadhaar and CPF with [ID NUMBER]</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="generalize-organizations"
+                            name="generalizeOrganizations"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.generalizeOrganizations}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="generalize-organizations" className="ml-2 block text-sm text-neutral-700">
+                            Universities and Employers
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces organization names with descriptors from the Organization Mapping tab</p>
+                </div>
+
+                <div className="pt-4 mt-4 border-t border-neutral-200">
+                    <h4 className="text-sm font-medium text-neutral-700">Locale Packs</h4>
+                    <p className="text-xs text-neutral-500">
+                        Countries whose phone, address and ID number formats are detected. International numbers starting with + are always detected.
+                    </p>
+                </div>
+
+                {LOCALE_PACKS.map(pack => (
+                    <div key={pack.locale} className="space-y-2">
+                        <div className="flex items-center">
+                            <input
+                                id={`locale-${pack.locale}`}
+                                type="checkbox"
+                                className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                                checked={settings.locales.indexOf(pack.locale) !== -1}
+                                onChange={() => toggleLocale(pack.locale)}
+                                disabled={disabled}
+                            />
+                            <label htmlFor={`locale-${pack.locale}`} className="ml-2 block text-sm text-neutral-700">
+                                {pack.label}
+                            </label>
+                        </div>
+                        <p className="text-xs text-neutral-500 ml-6">{pack.description}</p>
+                    </div>
+                ))}
+
+                <div className="pt-4 mt-4 border-t border-neutral-200">
+                    <h4 className="text-sm font-medium text-neutral-700">Demographic Details</h4>
+                    <p className="text-xs text-neutral-500">Details that can reveal age, gender, nationality or religion</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-graduation-years"
+                            name="replaceGraduationYears"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replaceGraduationYears}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-graduation-years" className="ml-2 block text-sm text-neutral-700">
+                            Graduation Years
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces years in the education section with [YEAR]</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-age"
+                            name="replaceAge"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replaceAge}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-age" className="ml-2 block text-sm text-neutral-700">
+                            Age and Date of Birth
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces ages and birth dates with [AGE] and [DATE OF BIRTH]</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-pronouns"
+                            name="replacePronouns"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replacePronouns}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-pronouns" className="ml-2 block text-sm text-neutral-700">
+                            Pronouns
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces stated pronouns such as she/her with [PRONOUNS]</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-nationality"
+                            name="replaceNationality"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replaceNationality}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-nationality" className="ml-2 block text-sm text-neutral-700">
+                            Nationality and Visa Status
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces citizenship, nationality and visa details with [NATIONALITY]</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-marital-status"
+                            name="replaceMaritalStatus"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replaceMaritalStatus}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-marital-status" className="ml-2 block text-sm text-neutral-700">
+                            Marital and Family Status
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces marital status and mentions of children with [MARITAL STATUS]</p>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="replace-affiliations"
+                            name="replaceAffiliations"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.replaceAffiliations}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="replace-affiliations" className="ml-2 block text-sm text-neutral-700">
+                            Religious and Gender-Identifying Affiliations
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">Replaces organizations such as churches, sororities and women's clubs with [AFFILIATION]</p>
+                </div>
+
+                <div className="pt-4 mt-4 border-t border-neutral-200 space-y-2">
+                    <div className="flex items-center">
+                        <input
+                            id="pseudonymize"
+                            name="pseudonymize"
+                            type="checkbox"
+                            className="h-4 w-4 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                            checked={settings.pseudonymize}
+                            onChange={handleCheckboxChange}
+                            disabled={disabled}
+                        />
+                        <label htmlFor="pseudonymize" className="ml-2 block text-sm text-neutral-700">
+                            Pseudonymize
+                        </label>
+                    </div>
+                    <p className="text-xs text-neutral-500 ml-6">
+                        Gives each distinct value its own ID, e.g. Candidate-7F3A or [EMAIL-1], so it can be revealed after review
+                    </p>
+                    {settings.pseudonymize && (
+                        <div className="ml-6">
+                            <Input
+                                id="vault-passphrase"
+                                type="password"
+                                label="Vault passphrase"
+                                helperText="Encrypts the pseudonym mapping stored in this browser. It is not saved."
+                                value={vaultPassphrase}
+                                onChange={(e) => onVaultPassphraseChange(e.target.value)}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="pt-4 mt-4 border-t border-neutral-200 space-y-3">
+                    <div>
+                        <h4 className="text-sm font-medium text-neutral-700">Section Rules</h4>
+                        <p className="text-xs text-neutral-500">
+                            Override the settings above inside one section, e.g. remove Interests or keep employers in Experience
+                        </p>
+                    </div>
+
+                    {settings.sectionRules.map(rule => (
+                        <div key={rule.id} className="p-3 border border-neutral-200 rounded-md">
+                            <div className="flex space-x-2">
+                                <Select
+                                    id={`${rule.id}-section`}
+                                    aria-label="Section"
+                                    options={SECTION_OPTIONS}
+                                    value={rule.section}
+                                    onChange={(value) => handleSectionRuleChange(rule.id, { section: value as ResumeSectionKind })}
+                                    disabled={disabled}
+                                />
+                                <Select
+                                    id={`${rule.id}-action`}
+                                    aria-label="Action"
+                                    options={SECTION_ACTION_OPTIONS}
+                                    value={rule.action}
+                                    onChange={(value) => handleSectionRuleChange(rule.id, { action: value as SectionRuleAction })}
+                                    disabled={disabled}
+                                />
+                            </div>
+                            {rule.action !== 'remove' && (
+                                <div className="flex flex-wrap gap-2 mb-3">
+                                    {SECTION_RULE_TYPES.map(type => (
+                                        <button
+                                            key={type.value}
+                                            type="button"
+                                            className={`px-2 py-1 text-xs rounded-full ${
+                                                rule.types.indexOf(type.value) !== -1
+                                                    ? 'bg-primary-100 text-primary-700'
+                                                    : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+                                            }`}
+                                            onClick={() => toggleSectionRuleType(rule, type.value)}
+                                            disabled={disabled}
+                                        >
+                                            {type.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRemoveSectionRule(rule.id)}
+                                disabled={disabled}
+                            >
+                                Remove Rule
+                            </Button>
+                        </div>
+                    ))}
+
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleAddSectionRule}
+                        disabled={disabled}
+                    >
+                        Add Section Rule
+                    </Button>
+                </div>
+
+                <div className="pt-4 mt-4 border-t border-neutral-200">
+                    <Select
+                        id="pdf-redaction-style"
+                        label="PDF redaction"
+                        options={[
+                            { value: 'box', label: 'Black boxes' },
+                            { value: 'label', label: 'Placeholder labels' },
+                        ]}
+                        value={settings.pdfRedactionStyle}
+                        onChange={(value) => onChange({ ...settings, pdfRedactionStyle: value as PDFRedactionStyle })}
+                        helperText="How identifiers are covered when a PDF resume is exported with its original layout"
+                        disabled={disabled}
+                    />
+                </div>
+
                 <div className="pt-4 mt-4 border-t border-neutral-200">
                     <Button
                         variant="outline"
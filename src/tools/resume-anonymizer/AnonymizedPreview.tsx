@@ -1,55 +1,120 @@
 import React, { useState } from 'react';
-import { createPDFFromText } from '../../services/FileProcessingService';
+import { anonymizeDOCX, createPDFFromText } from '../../services/FileProcessingService';
+import { getRedactionTargets, redactPDF } from '../../services/PDFRedactionService';
 import Card from '../../components/common/Card';
 import Button from '../../components/common/Button';
 import Tabs, { TabItem } from '../../components/common/Tabs';
-import { AnonymizationSettings } from '../ResumeAnonymizer';
+import useToast from '../../hooks/useToast';
+import { AnonymizationReplacement, RedactionOverrides } from '../../services/AnalysisService';
+import {
+    AnonymizationLeak,
+    ExportFileFormat,
+    formatLeakKind,
+    getExportLeaks,
+    getUnresolvedLeaks,
+} from '../../services/LeakVerificationService';
+import { AnonymizationSettings, ReviewDecision } from '../ResumeAnonymizer';
+import IdentityReveal from './IdentityReveal';
 
 interface AnonymizedResume {
     id: string;
     fileName: string;
     originalText: string;
     anonymizedText: string;
-    identifiers: { type: string; value: string; index: number }[];
+    identifiers: { type: string; value: string; index: number; confidence?: number; replacement?: string }[];
+    replacements: AnonymizationReplacement[];
+    leaks: AnonymizationLeak[];
+    exportLeaks: AnonymizationLeak[];
     settings: AnonymizationSettings;
+    overrides: RedactionOverrides;
+    decision?: ReviewDecision;
+    sourcePdf?: ArrayBuffer;
+    sourceDocx?: ArrayBuffer;
 }
 
 interface AnonymizedPreviewProps {
     resumes: AnonymizedResume[];
     selectedResumeId: string | null;
     onSelectResume: (resumeId: string) => void;
+    onRecordDecision: (resumeId: string, decision: ReviewDecision) => void;
+    onOverridesChange: (resumeId: string, overrides: RedactionOverrides) => void;
+    onExportLeaksChange: (resumeId: string, file: ExportFileFormat, leaks: AnonymizationLeak[]) => void;
 }
 
+// Shown instead of personal details while a pseudonymized resume is still blind
+const HIDDEN_VALUE = '••••••';
+
+// Trigger a browser download of a generated file
+const downloadBlob = (blob: Blob, fileName: string) => {
+    // Create a download link
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+
+    // Trigger the download
+    document.body.appendChild(link);
+    link.click();
+
+    // Clean up
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
 const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                                                                  resumes,
                                                                  selectedResumeId,
                                                                  onSelectResume,
+                                                                 onRecordDecision,
+                                                                 onOverridesChange,
+                                                                 onExportLeaksChange,
                                                              }) => {
+    const { showToast } = useToast();
     const [viewMode, setViewMode] = useState<'anonymized' | 'original' | 'diff'>('anonymized');
     const [isExporting, setIsExporting] = useState(false);
-    
-    // Function to handle PDF export
-    const handleExportPDF = async (text: string) => {
+    // Text with pseudonyms restored from the key vault, by resume ID
+    const [revealedTexts, setRevealedTexts] = useState<Record<string, string>>({});
+    // Text the user has selected in the anonymized view and may redact
+    const [pendingRedaction, setPendingRedaction] = useState<string | null>(null);
+
+    // Values the export could not find in the uploaded file become leaks, and the file is only
+    // downloaded once each of them has been waived
+    const checkExportLeaks = (resume: AnonymizedResume, file: ExportFileFormat, values: string[]): boolean => {
+        const exportLeaks = getExportLeaks(file, values, resume.replacements);
+        onExportLeaksChange(resume.id, file, exportLeaks);
+
+        const unresolved = getUnresolvedLeaks(exportLeaks, resume.overrides).length;
+        if (unresolved > 0) {
+            showToast(
+                `${unresolved} ${unresolved === 1 ? 'value was' : 'values were'} not found in the ${file === 'pdf' ? 'PDF' : 'Word document'} and may still be in it. Check the possible leaks and waive them to export.`,
+                'warning'
+            );
+        }
+        return unresolved === 0;
+    };
+
+    // Function to handle PDF export. Uploaded PDFs are redacted in place to keep their layout.
+    const handleExportPDF = async (resume: AnonymizedResume) => {
         try {
             setIsExporting(true);
-            const pdfBuffer = await createPDFFromText(text);
+
+            let pdfBuffer: ArrayBuffer;
+            if (resume.sourcePdf) {
+                const { pdf, unlocated } = await redactPDF(
+                    resume.sourcePdf,
+                    getRedactionTargets(resume.replacements),
+                    resume.settings.pdfRedactionStyle
+                );
+                pdfBuffer = pdf;
+
+                if (!checkExportLeaks(resume, 'pdf', unlocated)) return;
+            } else {
+                pdfBuffer = await createPDFFromText(resume.anonymizedText);
+            }
             
             // Create a blob from the PDF buffer
             const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
-            
-            // Create a download link
-            const url = URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = `anonymized-resume-${Date.now()}.pdf`;
-            
-            // Trigger the download
-            document.body.appendChild(link);
-            link.click();
-            
-            // Clean up
-            document.body.removeChild(link);
-            URL.revokeObjectURL(url);
+            downloadBlob(blob, `anonymized-resume-${Date.now()}.pdf`);
         } catch (error) {
             console.error('Error exporting PDF:', error);
             alert('Failed to export PDF. Please try again.');
@@ -58,6 +123,32 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
         }
     };
 
+    // Write the uploaded Word file back out with the replacements applied, keeping its styling
+    const handleExportDOCX = async (resume: AnonymizedResume) => {
+        if (!resume.sourceDocx) return;
+
+        try {
+            setIsExporting(true);
+            const { docx, unmatched, images } = await anonymizeDOCX(resume.sourceDocx, resume.replacements);
+
+            if (!checkExportLeaks(resume, 'docx', unmatched)) return;
+            if (images.length > 0) {
+                showToast(
+                    `The Word document contains ${images.length} ${images.length === 1 ? 'image' : 'images'}, such as a photo, that ${images.length === 1 ? 'was' : 'were'} not anonymized. Check the exported file before sharing it.`,
+                    'warning'
+                );
+            }
+
+            const blob = new Blob([docx], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+            downloadBlob(blob, `${resume.fileName.replace(/\.docx$/i, '')}-anonymized.docx`);
+        } catch (error) {
+            console.error('Error exporting DOCX:', error);
+            showToast('Failed to export the Word document. Please try again.', 'error');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     if (resumes.length === 0) {
         return (
             <Card>
@@ -95,11 +186,121 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                 return 'Physical Address';
             case 'social':
                 return 'Social Media Profile';
+            case 'year':
+                return 'Graduation Year';
+            case 'birthdate':
+                return 'Date of Birth';
+            case 'age':
+                return 'Age';
+            case 'pronouns':
+                return 'Pronouns';
+            case 'nationality':
+                return 'Nationality / Visa Status';
+            case 'marital':
+                return 'Marital / Family Status';
+            case 'affiliation':
+                return 'Affiliation';
+            case 'nationalId':
+                return 'National ID / Tax Number';
+            case 'manual':
+                return 'Manual Redaction';
+            case 'institution':
+                return 'Education Institution';
+            case 'employer':
+                return 'Employer';
             default:
                 return type.charAt(0).toUpperCase() + type.slice(1);
         }
     };
 
+    // Pseudonymized resumes stay blind until the reviewer reveals them
+    const revealedText = revealedTexts[selectedResume.id];
+    const isBlind = selectedResume.settings.pseudonymize && !revealedText;
+    const activeViewMode = isBlind ? 'anonymized' : viewMode;
+
+    const handleReveal = (text: string | null) => {
+        setRevealedTexts(prev => {
+            const next = { ...prev };
+            if (text === null) delete next[selectedResume.id];
+            else next[selectedResume.id] = text;
+            return next;
+        });
+    };
+
+    const { manualRedactions, restoredValues, waivedLeaks } = selectedResume.overrides;
+    // Leaks in the text block every export; values missing from an exported file are listed with
+    // them, and are checked again each time that file is exported
+    const unresolvedLeaks = getUnresolvedLeaks([...selectedResume.leaks, ...selectedResume.exportLeaks], selectedResume.overrides);
+    const hasUnresolvedTextLeaks = getUnresolvedLeaks(selectedResume.leaks, selectedResume.overrides).length > 0;
+
+    // Offer to redact whatever the user selects in the anonymized text
+    const handleTextSelection = () => {
+        const selected = window.getSelection()?.toString().trim();
+        setPendingRedaction(selected || null);
+    };
+
+    const handleAddRedaction = () => {
+        if (!pendingRedaction) return;
+
+        if (!selectedResume.originalText.includes(pendingRedaction)) {
+            showToast('Select text that has not already been replaced', 'warning');
+            return;
+        }
+
+        onOverridesChange(selectedResume.id, {
+            manualRedactions: [...manualRedactions.filter(value => value !== pendingRedaction), pendingRedaction],
+            restoredValues: restoredValues.filter(value => value !== pendingRedaction),
+            waivedLeaks,
+        });
+        setPendingRedaction(null);
+    };
+
+    // A leak is resolved by redacting the leaked text everywhere, or waived to accept it as it is
+    const handleRedactLeak = (leak: AnonymizationLeak) => {
+        onOverridesChange(selectedResume.id, {
+            manualRedactions: [...manualRedactions.filter(value => value !== leak.value), leak.value],
+            restoredValues: restoredValues.filter(value => value !== leak.value),
+            waivedLeaks,
+        });
+    };
+
+    const handleWaiveLeak = (leak: AnonymizationLeak) => {
+        onOverridesChange(selectedResume.id, {
+            manualRedactions,
+            restoredValues,
+            waivedLeaks: [...waivedLeaks.filter(id => id !== leak.id), leak.id],
+        });
+    };
+
+    // Clicking a replacement puts the original text back
+    const handleRestore = (replacement: AnonymizationReplacement) => {
+        onOverridesChange(selectedResume.id, replacement.type === 'manual' ? {
+            manualRedactions: manualRedactions.filter(value => value !== replacement.original),
+            restoredValues,
+            waivedLeaks,
+        } : {
+            manualRedactions,
+            restoredValues: [...restoredValues.filter(value => value !== replacement.original), replacement.original],
+            waivedLeaks,
+        });
+    };
+
+    const handleUndoOverride = (value: string, kind: 'redaction' | 'restoration' | 'waiver') => {
+        onOverridesChange(selectedResume.id, {
+            manualRedactions: kind === 'redaction' ? manualRedactions.filter(item => item !== value) : manualRedactions,
+            restoredValues: kind === 'restoration' ? restoredValues.filter(item => item !== value) : restoredValues,
+            waivedLeaks: kind === 'waiver' ? waivedLeaks.filter(item => item !== value) : waivedLeaks,
+        });
+    };
+
+    // Waived leaks are shown by the text that leaked, if it is still in the output, and only by
+    // their type while the resume is blind. Ids hold a hash rather than the text.
+    const formatWaivedLeak = (id: string): string => {
+        const leak = [...selectedResume.leaks, ...selectedResume.exportLeaks].find(item => item.id === id);
+        if (!leak) return 'no longer found';
+        return isBlind ? `${formatIdentifierType(leak.type)} ${HIDDEN_VALUE}` : leak.value;
+    };
+
     // Tabs for navigation between resumes
     const resumeTabs: TabItem[] = resumes.map((resume) => ({
         id: resume.id,
@@ -137,39 +338,97 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                         <span className="text-lg font-medium text-neutral-800">{selectedResume.fileName}</span>
                         <div className="flex space-x-2">
                             <Button
-                                variant={viewMode === 'original' ? 'primary' : 'outline'}
+                                variant={activeViewMode === 'original' ? 'primary' : 'outline'}
                                 size="sm"
                                 onClick={() => setViewMode('original')}
+                                disabled={isBlind}
                             >
                                 Original
                             </Button>
                             <Button
-                                variant={viewMode === 'anonymized' ? 'primary' : 'outline'}
+                                variant={activeViewMode === 'anonymized' ? 'primary' : 'outline'}
                                 size="sm"
                                 onClick={() => setViewMode('anonymized')}
                             >
                                 Anonymized
                             </Button>
                             <Button
-                                variant={viewMode === 'diff' ? 'primary' : 'outline'}
+                                variant={activeViewMode === 'diff' ? 'primary' : 'outline'}
                                 size="sm"
                                 onClick={() => setViewMode('diff')}
+                                disabled={isBlind}
                             >
                                 Diff View
                             </Button>
                             <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => handleExportPDF(selectedResume.anonymizedText)}
+                                onClick={() => handleExportPDF(selectedResume)}
+                                isLoading={isExporting}
+                                disabled={hasUnresolvedTextLeaks}
                             >
-                                Export PDF
+                                {selectedResume.sourcePdf ? 'Export Redacted PDF' : 'Export PDF'}
                             </Button>
+                            {selectedResume.sourceDocx && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleExportDOCX(selectedResume)}
+                                    isLoading={isExporting}
+                                    disabled={hasUnresolvedTextLeaks}
+                                >
+                                    Export DOCX
+                                </Button>
+                            )}
                         </div>
                     </div>
                 }
             >
                 <div className="space-y-4">
-                    {selectedResume.identifiers.length > 0 && (
+                    {selectedResume.settings.pseudonymize && (
+                        <IdentityReveal
+                            key={selectedResume.id}
+                            resumeId={selectedResume.id}
+                            anonymizedText={selectedResume.anonymizedText}
+                            decision={selectedResume.decision}
+                            isRevealed={!!revealedText}
+                            onRecordDecision={(decision) => onRecordDecision(selectedResume.id, decision)}
+                            onReveal={handleReveal}
+                        />
+                    )}
+
+                    {unresolvedLeaks.length > 0 && (
+                        <div className="p-3 bg-danger-50 border border-danger-200 rounded-md">
+                            <h4 className="text-sm font-medium text-danger-800">Possible Leaks ({unresolvedLeaks.length})</h4>
+                            <p className="text-xs text-danger-700 mb-2">
+                                These details are still in the anonymized text, or may still be in an exported file. Export is blocked until each one is redacted or waived.
+                            </p>
+                            <ul className="divide-y divide-danger-100 max-h-40 overflow-y-auto">
+                                {unresolvedLeaks.map(leak => (
+                                    <li key={`${leak.id}-${leak.index}`} className="py-1.5 flex items-center justify-between text-sm">
+                                        <span className="mr-2 truncate">
+                                            <span className="font-mono text-neutral-800">{isBlind ? HIDDEN_VALUE : leak.value}</span>
+                                            <span className="ml-2 text-xs text-neutral-500">
+                                                {formatIdentifierType(leak.type)} · {formatLeakKind(leak.kind)}
+                                            </span>
+                                        </span>
+                                        <div className="flex space-x-2 shrink-0">
+                                            {leak.kind !== 'unlocated' && (
+                                                <Button variant="primary" size="sm" onClick={() => handleRedactLeak(leak)}>
+                                                    Redact
+                                                </Button>
+                                            )}
+                                            <Button variant="ghost" size="sm" onClick={() => handleWaiveLeak(leak)}>
+                                                Waive
+                                            </Button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {!isBlind && selectedResume.identifiers.length > 0 && (
                         <div className="p-3 bg-neutral-50 border border-neutral-200 rounded-md">
                             <h4 className="text-sm font-medium text-neutral-700 mb-2">Detected Identifiers</h4>
                             <div className="text-sm max-h-40 overflow-y-auto">
@@ -178,6 +437,7 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                                     <tr>
                                         <th className="px-3 py-2 text-left text-xs font-medium text-neutral-700 uppercase tracking-wider">Type</th>
                                         <th className="px-3 py-2 text-left text-xs font-medium text-neutral-700 uppercase tracking-wider">Value</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-neutral-700 uppercase tracking-wider">Confidence</th>
                                     </tr>
                                     </thead>
                                     <tbody className="bg-white divide-y divide-neutral-200">
@@ -189,6 +449,9 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                                             <td className="px-3 py-2 whitespace-nowrap text-sm text-neutral-500">
                                                 {identifier.value}
                                             </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-neutral-500">
+                                                {identifier.confidence !== undefined ? `${Math.round(identifier.confidence * 100)}%` : '—'}
+                                            </td>
                                         </tr>
                                     ))}
                                     </tbody>
@@ -198,19 +461,52 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                     )}
 
                     <div className="border border-neutral-200 rounded-md bg-white">
-                        {viewMode === 'original' && (
+                        {activeViewMode === 'original' && (
                             <div className="p-4 text-sm font-mono whitespace-pre-wrap h-96 overflow-y-auto">
                                 {selectedResume.originalText}
                             </div>
                         )}
 
-                        {viewMode === 'anonymized' && (
+                        {activeViewMode === 'anonymized' && revealedText && (
                             <div className="p-4 text-sm font-mono whitespace-pre-wrap h-96 overflow-y-auto">
-                                {selectedResume.anonymizedText}
+                                {revealedText}
                             </div>
                         )}
 
-                        {viewMode === 'diff' && (
+                        {activeViewMode === 'anonymized' && !revealedText && (
+                            <>
+                                <div className="px-4 py-2 flex items-center justify-between border-b border-neutral-200 bg-neutral-50 text-xs text-neutral-500">
+                                    {pendingRedaction ? (
+                                        <>
+                                            <span className="truncate mr-2">Redact "{pendingRedaction}" everywhere in this resume?</span>
+                                            <div className="flex space-x-2 shrink-0">
+                                                <Button variant="primary" size="sm" onClick={handleAddRedaction}>
+                                                    Redact
+                                                </Button>
+                                                <Button variant="ghost" size="sm" onClick={() => setPendingRedaction(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <span>Select text to redact it, or click a replacement to restore the original.</span>
+                                    )}
+                                </div>
+                                <div
+                                    className="p-4 text-sm font-mono whitespace-pre-wrap h-96 overflow-y-auto"
+                                    onMouseUp={handleTextSelection}
+                                >
+                                    <RedactableText
+                                        original={selectedResume.originalText}
+                                        replacements={selectedResume.replacements}
+                                        showOriginals={!isBlind}
+                                        onRestore={handleRestore}
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        {activeViewMode === 'diff' && (
                             <div className="p-4 text-sm font-mono whitespace-pre-wrap h-96 overflow-y-auto">
                                 <DiffView
                                     original={selectedResume.originalText}
@@ -220,17 +516,106 @@ const AnonymizedPreview: React.FC<AnonymizedPreviewProps> = ({
                             </div>
                         )}
                     </div>
+
+                    {(manualRedactions.length > 0 || restoredValues.length > 0 || waivedLeaks.length > 0) && (
+                        <div className="p-3 bg-neutral-50 border border-neutral-200 rounded-md">
+                            <h4 className="text-sm font-medium text-neutral-700 mb-2">Manual Edits</h4>
+                            <div className="flex flex-wrap gap-2">
+                                {manualRedactions.map(value => (
+                                    <span key={`redaction-${value}`} className="inline-flex items-center px-2 py-1 text-xs rounded-full bg-danger-50 text-danger-700">
+                                        Redacted: {isBlind ? HIDDEN_VALUE : value}
+                                        <button
+                                            type="button"
+                                            className="ml-1 font-bold"
+                                            title="Undo"
+                                            onClick={() => handleUndoOverride(value, 'redaction')}
+                                        >
+                                            ×
+                                        </button>
+                                    </span>
+                                ))}
+                                {restoredValues.map(value => (
+                                    <span key={`restoration-${value}`} className="inline-flex items-center px-2 py-1 text-xs rounded-full bg-success-50 text-success-700">
+                                        Restored: {isBlind ? HIDDEN_VALUE : value}
+                                        <button
+                                            type="button"
+                                            className="ml-1 font-bold"
+                                            title="Undo"
+                                            onClick={() => handleUndoOverride(value, 'restoration')}
+                                        >
+                                            ×
+                                        </button>
+                                    </span>
+                                ))}
+                                {waivedLeaks.map(id => (
+                                    <span key={`waiver-${id}`} className="inline-flex items-center px-2 py-1 text-xs rounded-full bg-warning-50 text-warning-700">
+                                        Leak waived: {formatWaivedLeak(id)}
+                                        <button
+                                            type="button"
+                                            className="ml-1 font-bold"
+                                            title="Undo"
+                                            onClick={() => handleUndoOverride(id, 'waiver')}
+                                        >
+                                            ×
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             </Card>
         </div>
     );
 };
 
+// Anonymized text rebuilt from the original, with each replacement clickable to restore it
+const RedactableText: React.FC<{
+    original: string;
+    replacements: AnonymizationReplacement[];
+    showOriginals: boolean;
+    onRestore: (replacement: AnonymizationReplacement) => void;
+}> = ({ original, replacements, showOriginals, onRestore }) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    [...replacements].sort((a, b) => a.index - b.index).forEach((replacement) => {
+        if (replacement.index < cursor) return;
+
+        parts.push(<React.Fragment key={`text-${cursor}`}>{original.substring(cursor, replacement.index)}</React.Fragment>);
+        // Sections removed by a section rule come back by changing the rule, not by clicking them
+        parts.push(replacement.type === 'section' ? (
+            <span
+                key={`replacement-${replacement.index}`}
+                className="px-0.5 rounded bg-neutral-100 text-neutral-500"
+                title="Removed by a section rule"
+            >
+                {replacement.replacement}
+            </span>
+        ) : (
+            <button
+                key={`replacement-${replacement.index}`}
+                type="button"
+                className="px-0.5 rounded bg-primary-50 text-primary-700 hover:bg-success-100 hover:line-through"
+                title={showOriginals ? `Click to restore "${replacement.original}"` : 'Click to restore'}
+                onClick={() => onRestore(replacement)}
+            >
+                {replacement.replacement}
+            </button>
+        ));
+        cursor = replacement.index + replacement.original.length;
+    });
+
+    parts.push(<React.Fragment key={`text-${cursor}`}>{original.substring(cursor)}</React.Fragment>);
+
+    return <>{parts}</>;
+};
+
 // Component to highlight differences between original and anonymized text
 const DiffView: React.FC<{
     original: string;
     anonymized: string;
-    identifiers: { type: string; value: string; index: number }[];
+    identifiers: { type: string; value: string; index: number; confidence?: number; replacement?: string }[];
 }> = ({ original, anonymized, identifiers }) => {
     // Simple way to highlight replaced content
     // This is a basic approach - a real diff would use a proper diff algorithm
@@ -258,6 +643,19 @@ const DiffView: React.FC<{
             case 'social':
                 replacement = '[SOCIAL MEDIA]';
                 break;
+            case 'birthdate':
+                replacement = '[DATE OF BIRTH]';
+                break;
+            case 'marital':
+                replacement = '[MARITAL STATUS]';
+                break;
+            case 'nationalId':
+                replacement = '[ID NUMBER]';
+                break;
+            case 'institution':
+            case 'employer':
+                replacement = identifier.replacement || '[ORGANIZATION]';
+                break;
             default:
                 replacement = `[${identifier.type.toUpperCase()}]`;
         }
@@ -2,11 +2,30 @@ import React, { useState } from 'react';
 import Card from '../../components/common/Card';
 import Select from '../../components/common/Select';
 import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
 import DataTable, { ColumnDefinition } from '../../components/common/DataTable';
 import useToast from '../../hooks/useToast';
+import useLocalStorage from '../../hooks/useLocalStorage';
 import { AnonymizationSettings } from '../ResumeAnonymizer';
-import { exportToText, exportToHTML, exportToCSV, exportToJSON } from '../../services/ExportService';
+import {
+    exportToText,
+    exportToHTML,
+    exportToCSV,
+    exportToJSON,
+    exportToZip,
+    createHTMLDocument,
+} from '../../services/ExportService';
 import { createPDFFromText } from '../../services/FileProcessingService';
+import { findUnlocatedTargets, getRedactionTargets, redactPDF } from '../../services/PDFRedactionService';
+import { AnonymizationReplacement, RedactionOverrides } from '../../services/AnalysisService';
+import {
+    AnonymizationLeak,
+    ExportFileFormat,
+    getExportLeaks,
+    getUnresolvedLeaks,
+} from '../../services/LeakVerificationService';
+import { getUniqueEntryName, ZipEntry } from '../../services/ZipService';
+import { createAuditReport, exportAuditReport } from '../../services/AnonymizationAuditService';
 import { saveAs } from 'file-saver';
 
 interface AnonymizedResume {
@@ -14,17 +33,149 @@ interface AnonymizedResume {
     fileName: string;
     originalText: string;
     anonymizedText: string;
-    identifiers: { type: string; value: string; index: number }[];
+    identifiers: { type: string; value: string; index: number; confidence?: number; replacement?: string }[];
+    replacements: AnonymizationReplacement[];
+    leaks: AnonymizationLeak[];
+    exportLeaks: AnonymizationLeak[];
     settings: AnonymizationSettings;
+    overrides: RedactionOverrides;
+    sourcePdf?: ArrayBuffer;
+    sourceDocx?: ArrayBuffer;
 }
 
 interface BatchExportProps {
     resumes: AnonymizedResume[];
+    onExportLeaksChange: (resumeId: string, file: ExportFileFormat, leaks: AnonymizationLeak[]) => void;
 }
 
 type ExportFormat = 'txt' | 'html' | 'csv' | 'json' | 'zip' | 'pdf';
 
-export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
+// Formats that can be bundled into a ZIP archive, one file per resume
+type BundleFormat = 'txt' | 'html' | 'json' | 'pdf';
+
+const BUNDLE_FORMATS: { value: BundleFormat; label: string }[] = [
+    { value: 'txt', label: 'Text' },
+    { value: 'html', label: 'HTML' },
+    { value: 'json', label: 'JSON' },
+    { value: 'pdf', label: 'PDF' },
+];
+
+const toHTMLContent = (text: string): string => `<pre>${text.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`;
+
+const countIdentifierTypes = (identifiers: AnonymizedResume['identifiers']): Record<string, number> => {
+    return identifiers.reduce((acc, curr) => {
+        acc[curr.type] = (acc[curr.type] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>);
+};
+
+// Redact the uploaded PDF in place, or create a PDF from the anonymized text
+const createResumePDF = async (resume: AnonymizedResume): Promise<{ pdf: ArrayBuffer; unlocated: string[] }> => {
+    if (resume.sourcePdf) {
+        return redactPDF(resume.sourcePdf, getRedactionTargets(resume.replacements), resume.settings.pdfRedactionStyle);
+    }
+    return { pdf: await createPDFFromText(resume.anonymizedText), unlocated: [] };
+};
+
+// Leaks of a resume, with those of its uploaded PDF taken from this export's check when it ran
+const getResumeLeaks = (resume: AnonymizedResume, pdfExportLeaks?: AnonymizationLeak[]): AnonymizationLeak[] => [
+    ...resume.leaks,
+    ...(pdfExportLeaks
+        ? [...resume.exportLeaks.filter(leak => leak.file !== 'pdf'), ...pdfExportLeaks]
+        : resume.exportLeaks),
+];
+
+/**
+ * ZIP entries for each resume in each format, followed by a manifest.json of the settings used and
+ * the identifiers found. Files, including redacted PDFs, are only created when the archive reaches them.
+ * Resumes are named by their position in the batch, as upload file names often contain the
+ * candidate's name.
+ */
+const createBundleEntries = (
+    resumes: AnonymizedResume[],
+    formats: BundleFormat[],
+    pdfExportLeaks: Record<string, AnonymizationLeak[]>,
+    callbacks: { onEntryWritten: () => void }
+): ZipEntry[] => {
+    const exportDate = new Date().toISOString();
+    const usedNames = new Set<string>(['manifest.json']);
+    const unlocatedCounts: Record<string, number> = {};
+    const numberWidth = String(resumes.length).length;
+    const labels = resumes.map((_, index) => `Resume ${String(index + 1).padStart(numberWidth, '0')}`);
+
+    const files = resumes.map((resume, index) => formats.map(format => ({
+        resume, label: labels[index], format, name: getUniqueEntryName(`${labels[index]}-anonymized.${format}`, usedNames),
+    })));
+
+    const entries: ZipEntry[] = [];
+    files.forEach(resumeFiles => resumeFiles.forEach(({ resume, label, format, name }) => {
+        entries.push({
+            name,
+            store: format === 'pdf',
+            content: async () => {
+                let content: Uint8Array | string;
+                switch (format) {
+                    case 'txt':
+                        content = resume.anonymizedText;
+                        break;
+                    case 'html':
+                        content = createHTMLDocument(toHTMLContent(resume.anonymizedText), name);
+                        break;
+                    case 'json':
+                        content = JSON.stringify(
+                            { file: label, content: resume.anonymizedText, exportDate },
+                            null,
+                            2
+                        );
+                        break;
+                    case 'pdf': {
+                        const { pdf, unlocated } = await createResumePDF(resume);
+                        unlocatedCounts[resume.id] = unlocated.length;
+                        content = new Uint8Array(pdf);
+                        break;
+                    }
+                }
+                callbacks.onEntryWritten();
+                return content;
+            },
+        });
+    }));
+
+    // Written last, so it can record the PDF values that could not be located
+    entries.push({
+        name: 'manifest.json',
+        content: async () => JSON.stringify({
+            exportDate,
+            formats,
+            count: resumes.length,
+            resumes: resumes.map((resume, index) => {
+                const extensionIndex = resume.fileName.lastIndexOf('.');
+                const leaks = getResumeLeaks(resume, pdfExportLeaks[resume.id]);
+
+                return {
+                    file: labels[index],
+                    fileType: extensionIndex > 0 ? resume.fileName.substring(extensionIndex + 1).toLowerCase() : '',
+                    files: files[index].map(file => file.name),
+                    settings: resume.settings,
+                    identifiersFound: {
+                        count: resume.identifiers.length,
+                        types: countIdentifierTypes(resume.identifiers),
+                    },
+                    replacements: resume.replacements.length,
+                    leakCheck: {
+                        found: leaks.length,
+                        waived: leaks.length - getUnresolvedLeaks(leaks, resume.overrides).length,
+                    },
+                    ...(resume.id in unlocatedCounts ? { pdfValuesNotLocated: unlocatedCounts[resume.id] } : {}),
+                };
+            }),
+        }, null, 2),
+    });
+
+    return entries;
+};
+
+export const BatchExport: React.FC<BatchExportProps> = ({ resumes, onExportLeaksChange }) => {
     if (resumes.length === 0) {
         return (
             <Card>
@@ -54,6 +205,11 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
     const { showToast } = useToast();
     const [exportFormat, setExportFormat] = useState<ExportFormat>('txt');
     const [isExporting, setIsExporting] = useState(false);
+    const [exportProgress, setExportProgress] = useState<{ written: number; total: number } | null>(null);
+    const [bundleFormats, setBundleFormats] = useState<BundleFormat[]>(['txt', 'html', 'json', 'pdf']);
+    // Recorded in audit reports; remembered in this browser
+    const [operator, setOperator] = useLocalStorage<string>('resume-anonymizer-operator', '');
+    const [isCreatingReport, setIsCreatingReport] = useState(false);
     const [selectedResumes, setSelectedResumes] = useState<string[]>([]);
     const [selectAll, setSelectAll] = useState(false);
 
@@ -72,6 +228,65 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
         setSelectAll(!selectAll);
     };
 
+    const toggleBundleFormat = (format: BundleFormat) => {
+        setBundleFormats(prev => prev.includes(format)
+            ? prev.filter(item => item !== format)
+            : BUNDLE_FORMATS.map(option => option.value).filter(value => value === format || prev.includes(value)));
+    };
+
+    // Values the redaction could not find in the uploaded PDF become leaks of the resume, which
+    // have to be waived on the Preview & Edit tab before the PDF can be exported
+    const recordPDFExportLeaks = (resume: AnonymizedResume, unlocated: string[]): AnonymizationLeak[] => {
+        const exportLeaks = getExportLeaks('pdf', unlocated, resume.replacements);
+        onExportLeaksChange(resume.id, 'pdf', exportLeaks);
+        return exportLeaks;
+    };
+
+    const showUnlocatedWarning = (fileNames: string[]) => {
+        showToast(
+            `Some values in ${fileNames.join(', ')} were not found in the PDF and may still be in it. Waive them on the Preview & Edit tab before exporting.`,
+            'warning'
+        );
+    };
+
+    // Stream the resumes into one ZIP archive. Resolves to false if the user cancelled the save
+    // dialog or a PDF was held back.
+    const exportBundle = async (resumeData: AnonymizedResume[], formats: BundleFormat[], filename: string) => {
+        // Every uploaded PDF is searched before the archive is opened, so a held-back PDF never
+        // leaves a partly written file behind. Redaction itself waits until the archive reaches it.
+        const pdfExportLeaks: Record<string, AnonymizationLeak[]> = {};
+        const unlocatedFiles: string[] = [];
+        if (formats.includes('pdf')) {
+            for (const resume of resumeData) {
+                if (!resume.sourcePdf) continue;
+                const unlocated = await findUnlocatedTargets(resume.sourcePdf, getRedactionTargets(resume.replacements));
+                pdfExportLeaks[resume.id] = recordPDFExportLeaks(resume, unlocated);
+                if (getUnresolvedLeaks(pdfExportLeaks[resume.id], resume.overrides).length > 0) {
+                    unlocatedFiles.push(resume.fileName);
+                }
+            }
+        }
+        if (unlocatedFiles.length > 0) {
+            showUnlocatedWarning(unlocatedFiles);
+            return false;
+        }
+
+        let written = 0;
+        const total = resumeData.length * formats.length;
+        setExportProgress({ written, total });
+
+        try {
+            return await exportToZip(
+                createBundleEntries(resumeData, formats, pdfExportLeaks, {
+                    onEntryWritten: () => setExportProgress({ written: ++written, total }),
+                }),
+                { filename }
+            );
+        } finally {
+            setExportProgress(null);
+        }
+    };
+
     // Toggle individual resume selection
     const toggleResumeSelection = (resumeId: string) => {
         if (selectedResumes.includes(resumeId)) {
@@ -85,6 +300,37 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
         }
     };
 
+    // Audit report for the whole batch, with hashes and counts but no personal details
+    const handleAuditReport = async (format: 'pdf' | 'json') => {
+        if (!operator.trim()) {
+            showToast('Enter the operator name for the audit report', 'warning');
+            return;
+        }
+
+        setIsCreatingReport(true);
+
+        try {
+            exportAuditReport(await createAuditReport(resumes, operator), format);
+            showToast('Audit report exported', 'success');
+        } catch (error) {
+            console.error('Audit report error:', error);
+            showToast('Error creating the audit report', 'error');
+        } finally {
+            setIsCreatingReport(false);
+        }
+    };
+
+    // Resumes with leaks that have not been redacted or waived in the preview cannot be exported
+    const findBlockedResumes = (resumeData: AnonymizedResume[]) =>
+        resumeData.filter(resume => getUnresolvedLeaks(resume.leaks, resume.overrides).length > 0);
+
+    const showBlockedWarning = (blockedResumes: AnonymizedResume[]) => {
+        showToast(
+            `Resolve or waive the possible leaks in ${blockedResumes.map(resume => resume.fileName).join(', ')} on the Preview & Edit tab before exporting`,
+            'warning'
+        );
+    };
+
     // Column definitions for the data table
     const columns: ColumnDefinition<AnonymizedResume>[] = [
         {
@@ -109,11 +355,30 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
             accessor: (item) => item.identifiers.length.toString(),
             sortable: true,
         },
+        {
+            header: 'Leak Check',
+            accessor: (item) => {
+                const leaks = [...item.leaks, ...item.exportLeaks];
+                const unresolved = getUnresolvedLeaks(leaks, item.overrides).length;
+                if (unresolved > 0) {
+                    return (
+                        <span className="px-2 py-1 text-xs rounded-full bg-danger-100 text-danger-800">
+                            {unresolved} possible {unresolved === 1 ? 'leak' : 'leaks'}
+                        </span>
+                    );
+                }
+                return (
+                    <span className="px-2 py-1 text-xs rounded-full bg-success-100 text-success-800">
+                        {leaks.length > 0 ? 'Waived' : 'Passed'}
+                    </span>
+                );
+            },
+        },
         {
             header: 'Anonymization',
             accessor: (item) => {
                 const enabledSettings = Object.entries(item.settings)
-                    .filter(([_, enabled]) => enabled)
+                    .filter(([_, enabled]) => enabled === true)
                     .map(([key, _]) => key.replace('replace', ''))
                     .join(', ');
                 return enabledSettings || 'None';
@@ -140,7 +405,7 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
         { value: 'csv', label: 'CSV File (all resumes in one file)' },
         { value: 'json', label: 'JSON File (all resumes in one file)' },
         { value: 'pdf', label: 'PDF Files (.pdf)' },
-        { value: 'zip', label: 'ZIP Archive (all formats)' }
+        { value: 'zip', label: 'ZIP Archive (selected formats)' }
     ];
 
     // Helper function to export a single resume
@@ -148,6 +413,11 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
         const { fileName, anonymizedText } = resume;
         const baseName = fileName.split('.')[0];
 
+        if (findBlockedResumes([resume]).length > 0) {
+            showBlockedWarning([resume]);
+            return;
+        }
+
         setIsExporting(true);
 
         try {
@@ -157,7 +427,7 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
                     break;
                 case 'html':
                     exportToHTML(
-                        `<pre>${anonymizedText.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`,
+                        toHTMLContent(anonymizedText),
                         { filename: `${baseName}-anonymized.html`, includeBasicStyles: true }
                     );
                     break;
@@ -173,16 +443,23 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
                         { filename: `${baseName}-anonymized.json`, pretty: true }
                     );
                     break;
-                case 'pdf':
-                    // Create PDF from anonymized text
-                    const pdfBuffer = await createPDFFromText(anonymizedText);
-                    const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
+                case 'pdf': {
+                    const { pdf, unlocated } = await createResumePDF(resume);
+                    if (getUnresolvedLeaks(recordPDFExportLeaks(resume, unlocated), resume.overrides).length > 0) {
+                        showUnlocatedWarning([fileName]);
+                        return;
+                    }
+                    const blob = new Blob([pdf], { type: 'application/pdf' });
                     saveAs(blob, `${baseName}-anonymized.pdf`);
                     break;
+                }
                 case 'zip':
-                    // In a real implementation, this would create a zip with multiple formats
-                    showToast('ZIP export for single resumes is not implemented in this demo.', 'info');
-                    return;
+                    if (bundleFormats.length === 0) {
+                        showToast('Please select at least one format for the ZIP archive', 'warning');
+                        return;
+                    }
+                    if (!await exportBundle([resume], bundleFormats, `${baseName}-anonymized.zip`)) return;
+                    break;
             }
 
             showToast(`Exported ${fileName} successfully`, 'success');
@@ -201,55 +478,38 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
             return;
         }
 
+        const selectedResumeData = resumes.filter(resume =>
+            selectedResumes.includes(resume.id)
+        );
+
+        const blockedResumes = findBlockedResumes(selectedResumeData);
+        if (blockedResumes.length > 0) {
+            showBlockedWarning(blockedResumes);
+            return;
+        }
+
+        // One file per resume: a single resume is downloaded directly, several are bundled into a ZIP archive
+        const isPerResumeFormat = exportFormat === 'txt' || exportFormat === 'html' || exportFormat === 'pdf';
+        if (isPerResumeFormat && selectedResumeData.length === 1) {
+            await handleSingleExport(selectedResumeData[0]);
+            return;
+        }
+
+        if (exportFormat === 'zip' && bundleFormats.length === 0) {
+            showToast('Please select at least one format for the ZIP archive', 'warning');
+            return;
+        }
+
         setIsExporting(true);
 
         try {
-            const selectedResumeData = resumes.filter(resume =>
-                selectedResumes.includes(resume.id)
-            );
+            const date = new Date().toISOString().slice(0, 10);
 
             switch (exportFormat) {
                 case 'txt':
-                    if (selectedResumeData.length === 1) {
-                        // Single export
-                        const resume = selectedResumeData[0];
-                        exportToText(resume.anonymizedText, {
-                            filename: `${resume.fileName.split('.')[0]}-anonymized.txt`
-                        });
-                    } else {
-                        // For multiple files, we'd typically use a zip library
-                        // For this demo, we'll do individual exports with a small delay
-                        for (const resume of selectedResumeData) {
-                            exportToText(resume.anonymizedText, {
-                                filename: `${resume.fileName.split('.')[0]}-anonymized.txt`
-                            });
-                            await new Promise(resolve => setTimeout(resolve, 300));
-                        }
-                    }
-                    break;
-
                 case 'html':
-                    if (selectedResumeData.length === 1) {
-                        const resume = selectedResumeData[0];
-                        exportToHTML(
-                            `<pre>${resume.anonymizedText.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`,
-                            {
-                                filename: `${resume.fileName.split('.')[0]}-anonymized.html`,
-                                includeBasicStyles: true
-                            }
-                        );
-                    } else {
-                        for (const resume of selectedResumeData) {
-                            exportToHTML(
-                                `<pre>${resume.anonymizedText.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`,
-                                {
-                                    filename: `${resume.fileName.split('.')[0]}-anonymized.html`,
-                                    includeBasicStyles: true
-                                }
-                            );
-                            await new Promise(resolve => setTimeout(resolve, 300));
-                        }
-                    }
+                case 'pdf':
+                    if (!await exportBundle(selectedResumeData, [exportFormat], `anonymized-resumes-${exportFormat}-${date}.zip`)) return;
                     break;
 
                 case 'csv':
@@ -261,7 +521,7 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
                             content: resume.anonymizedText.substring(0, 1000) + '...' // Truncate for CSV
                         })),
                         {
-                            filename: `anonymized-resumes-${new Date().toISOString().slice(0, 10)}.csv`,
+                            filename: `anonymized-resumes-${date}.csv`,
                             headers: {
                                 fileName: 'File Name',
                                 identifiersFound: 'Identifiers Found',
@@ -281,24 +541,20 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
                                 fileName: resume.fileName,
                                 identifiersFound: {
                                     count: resume.identifiers.length,
-                                    types: resume.identifiers.reduce((acc, curr) => {
-                                        acc[curr.type] = (acc[curr.type] || 0) + 1;
-                                        return acc;
-                                    }, {} as Record<string, number>)
+                                    types: countIdentifierTypes(resume.identifiers)
                                 },
                                 content: resume.anonymizedText
                             }))
                         },
                         {
-                            filename: `anonymized-resumes-${new Date().toISOString().slice(0, 10)}.json`,
+                            filename: `anonymized-resumes-${date}.json`,
                             pretty: true
                         }
                     );
                     break;
 
                 case 'zip':
-                    // In a production app, this would create a zip with all formats
-                    showToast('ZIP export would be implemented with JSZip in a real application', 'info');
+                    if (!await exportBundle(selectedResumeData, bundleFormats, `anonymized-resumes-${date}.zip`)) return;
                     break;
             }
 
@@ -333,13 +589,71 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
                                 disabled={selectedResumes.length === 0 || isExporting}
                                 className="w-full"
                             >
-                                {isExporting ? 'Exporting...' : `Export ${selectedResumes.length} Selected Resume(s)`}
+                                {isExporting
+                                    ? exportProgress
+                                        ? `Exporting ${exportProgress.written} of ${exportProgress.total} files...`
+                                        : 'Exporting...'
+                                    : `Export ${selectedResumes.length} Selected Resume(s)`}
                             </Button>
                         </div>
                     </div>
 
+                    {exportFormat === 'zip' && (
+                        <div>
+                            <span className="block text-sm font-medium text-neutral-700 mb-2">Formats in the archive</span>
+                            <div className="flex flex-wrap gap-4">
+                                {BUNDLE_FORMATS.map(format => (
+                                    <label key={format.value} className="flex items-center text-sm text-neutral-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={bundleFormats.includes(format.value)}
+                                            onChange={() => toggleBundleFormat(format.value)}
+                                            disabled={isExporting}
+                                            className="h-4 w-4 mr-2 text-primary-600 border-neutral-300 rounded focus:ring-primary-500"
+                                        />
+                                        {format.label}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="mt-2 text-sm text-neutral-600">
                         <p>Select the resumes you want to export and choose your preferred format.</p>
+                        <p>Several text, HTML or PDF files are bundled into one ZIP archive with a manifest.json of the settings used.</p>
+                    </div>
+                </div>
+            </Card>
+
+            <Card
+                title="Audit Report"
+                subtitle="Settings, hashes, replacement counts and leak checks for this batch. No personal details are included."
+            >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                    <Input
+                        id="audit-operator"
+                        label="Operator"
+                        placeholder="Name of the person running this batch"
+                        value={operator}
+                        onChange={(e) => setOperator(e.target.value)}
+                    />
+                    <div className="flex space-x-2 mb-4">
+                        <Button
+                            variant="outline"
+                            onClick={() => handleAuditReport('pdf')}
+                            isLoading={isCreatingReport}
+                            disabled={isCreatingReport}
+                        >
+                            Export Audit PDF
+                        </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => handleAuditReport('json')}
+                            isLoading={isCreatingReport}
+                            disabled={isCreatingReport}
+                        >
+                            Export Audit JSON
+                        </Button>
                     </div>
                 </div>
             </Card>
@@ -373,163 +687,3 @@ export const BatchExport: React.FC<BatchExportProps> = ({ resumes }) => {
         </div>
     );
 };
-
-// Helper function to export a single resume
-const handleSingleExport = (resume: AnonymizedResume) => {
-    const { fileName, anonymizedText } = resume;
-    const baseName = fileName.split('.')[0];
-
-    setIsExporting(true);
-
-    try {
-        switch (exportFormat) {
-            case 'txt':
-                exportToText(anonymizedText, { filename: `${baseName}-anonymized.txt` });
-                break;
-            case 'html':
-                exportToHTML(
-                    `<pre>${anonymizedText.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`,
-                    { filename: `${baseName}-anonymized.html`, includeBasicStyles: true }
-                );
-                break;
-            case 'csv':
-                exportToCSV(
-                    [{ fileName, content: anonymizedText }],
-                    { filename: `${baseName}-anonymized.csv` }
-                );
-                break;
-            case 'json':
-                exportToJSON(
-                    { fileName, content: anonymizedText, exportDate: new Date().toISOString() },
-                    { filename: `${baseName}-anonymized.json`, pretty: true }
-                );
-                break;
-            case 'zip':
-                // In a real implementation, this would create a zip with multiple formats
-                showToast('ZIP export for single resumes is not implemented in this demo.', 'info');
-                return;
-        }
-
-        showToast(`Exported ${fileName} successfully`, 'success');
-    } catch (error) {
-        console.error('Export error:', error);
-        showToast(`Error exporting ${fileName}`, 'error');
-    } finally {
-        setIsExporting(false);
-    }
-};
-const handleBatchExport = async () => {
-    if (selectedResumes.length === 0) {
-        showToast('Please select at least one resume to export', 'warning');
-        return;
-    }
-
-    setIsExporting(true);
-
-    try {
-        const selectedResumeData = resumes.filter(resume =>
-            selectedResumes.includes(resume.id)
-        );
-
-        switch (exportFormat) {
-            case 'txt':
-                if (selectedResumeData.length === 1) {
-                    // Single export
-                    const resume = selectedResumeData[0];
-                    exportToText(resume.anonymizedText, {
-                        filename: `${resume.fileName.split('.')[0]}-anonymized.txt`
-                    });
-                } else {
-                    // For multiple files, we'd typically use a zip library
-                    // For this demo, we'll do individual exports with a small delay
-                    for (const resume of selectedResumeData) {
-                        exportToText(resume.anonymizedText, {
-                            filename: `${resume.fileName.split('.')[0]}-anonymized.txt`
-                        });
-                        await new Promise(resolve => setTimeout(resolve, 300));
-                    }
-                }
-                break;
-
-            case 'html':
-                if (selectedResumeData.length === 1) {
-                    const resume = selectedResumeData[0];
-                    exportToHTML(
-                        `<pre>${resume.anonymizedText.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`,
-                        {
-                            filename: `${resume.fileName.split('.')[0]}-anonymized.html`,
-                            includeBasicStyles: true
-                        }
-                    );
-                } else {
-                    for (const resume of selectedResumeData) {
-                        exportToHTML(
-                            `<pre>${resume.anonymizedText.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`,
-                            {
-                                filename: `${resume.fileName.split('.')[0]}-anonymized.html`,
-                                includeBasicStyles: true
-                            }
-                        );
-                        await new Promise(resolve => setTimeout(resolve, 300));
-                    }
-                }
-                break;
-
-            case 'csv':
-                // Export all as a single CSV file
-                exportToCSV(
-                    selectedResumeData.map(resume => ({
-                        fileName: resume.fileName,
-                        identifiersFound: resume.identifiers.length,
-                        content: resume.anonymizedText.substring(0, 1000) + '...' // Truncate for CSV
-                    })),
-                    {
-                        filename: `anonymized-resumes-${new Date().toISOString().slice(0, 10)}.csv`,
-                        headers: {
-                            fileName: 'File Name',
-                            identifiersFound: 'Identifiers Found',
-                            content: 'Content Preview'
-                        }
-                    }
-                );
-                break;
-
-            case 'json':
-                // Export all as a single JSON file
-                exportToJSON(
-                    {
-                        exportDate: new Date().toISOString(),
-                        count: selectedResumeData.length,
-                        resumes: selectedResumeData.map(resume => ({
-                            fileName: resume.fileName,
-                            identifiersFound: {
-                                count: resume.identifiers.length,
-                                types: resume.identifiers.reduce((acc, curr) => {
-                                    acc[curr.type] = (acc[curr.type] || 0) + 1;
-                                    return acc;
-                                }, {} as Record<string, number>)
-                            },
-                            content: resume.anonymizedText
-                        }))
-                    },
-                    {
-                        filename: `anonymized-resumes-${new Date().toISOString().slice(0, 10)}.json`,
-                        pretty: true
-                    }
-                );
-                break;
-
-            case 'zip':
-                // In a production app, this would create a zip with all formats
-                showToast('ZIP export would be implemented with JSZip in a real application', 'info');
-                break;
-        }
-
-        showToast(`Exported ${selectedResumeData.length} resume(s) successfully`, 'success');
-    } catch (error) {
-        console.error('Export error:', error);
-        showToast('Error exporting resumes', 'error');
-    } finally {
-        setIsExporting(false);
-    }
-};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Select from '../../components/common/Select';
+import { ReviewDecision } from '../ResumeAnonymizer';
+import { decryptPseudonyms, loadVaultEntry, revealText } from '../../services/PseudonymVaultService';
+
+interface IdentityRevealProps {
+    resumeId: string;
+    anonymizedText: string;
+    decision?: ReviewDecision;
+    isRevealed: boolean;
+    onRecordDecision: (decision: ReviewDecision) => void;
+    onReveal: (revealedText: string | null) => void;
+}
+
+const outcomeOptions = [
+    { value: 'advance', label: 'Advance to interview' },
+    { value: 'hold', label: 'Hold' },
+    { value: 'reject', label: 'Reject' },
+];
+
+const IdentityReveal: React.FC<IdentityRevealProps> = ({
+                                                           resumeId,
+                                                           anonymizedText,
+                                                           decision,
+                                                           isRevealed,
+                                                           onRecordDecision,
+                                                           onReveal,
+                                                       }) => {
+    const [outcome, setOutcome] = useState<ReviewDecision['outcome']>('advance');
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isRevealing, setIsRevealing] = useState(false);
+
+    const vaultEntry = loadVaultEntry(resumeId);
+
+    // Decrypt the mapping and restore the original values
+    const handleReveal = async () => {
+        if (!vaultEntry) return;
+
+        setIsRevealing(true);
+        setError(null);
+
+        try {
+            const entries = await decryptPseudonyms(vaultEntry, passphrase);
+            onReveal(revealText(anonymizedText, entries));
+            setPassphrase('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not open the vault');
+        } finally {
+            setIsRevealing(false);
+        }
+    };
+
+    if (isRevealed) {
+        return (
+            <div className="p-3 flex items-center justify-between bg-warning-50 border border-warning-200 rounded-md">
+                <span className="text-sm text-warning-800">Identity revealed. Original values are shown below.</span>
+                <Button variant="outline" size="sm" onClick={() => onReveal(null)}>
+                    Hide Identity
+                </Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-3 bg-neutral-50 border border-neutral-200 rounded-md space-y-2">
+            <h4 className="text-sm font-medium text-neutral-700">Blind Review</h4>
+
+            {!decision ? (
+                <>
+                    <p className="text-xs text-neutral-500">
+                        Record your decision before revealing who the candidate is.
+                    </p>
+                    <div className="flex items-end gap-2">
+                        <div className="w-56">
+                            <Select
+                                id={`review-decision-${resumeId}`}
+                                label="Decision"
+                                options={outcomeOptions}
+                                value={outcome}
+                                onChange={(value) => setOutcome(value as ReviewDecision['outcome'])}
+                            />
+                        </div>
+                        <div className="mb-4">
+                            <Button
+                                variant="primary"
+                                size="sm"
+                                onClick={() => onRecordDecision({ outcome, recordedAt: new Date().toISOString() })}
+                            >
+                                Record Decision
+                            </Button>
+                        </div>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className="text-xs text-neutral-500">
+                        Decision: {outcomeOptions.find(option => option.value === decision.outcome)?.label} (recorded{' '}
+                        {new Date(decision.recordedAt).toLocaleString()})
+                    </p>
+                    {vaultEntry ? (
+                        <div className="flex items-end gap-2">
+                            <div className="w-56">
+                                <Input
+                                    id={`vault-passphrase-${resumeId}`}
+                                    type="password"
+                                    label="Vault passphrase"
+                                    value={passphrase}
+                                    onChange={(e) => setPassphrase(e.target.value)}
+                                    error={error || undefined}
+                                />
+                            </div>
+                            <div className="mb-4">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleReveal}
+                                    isLoading={isRevealing}
+                                    disabled={!passphrase}
+                                >
+                                    Reveal Identity
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-xs text-warning-700">
+                            No key vault was saved for this resume, so the pseudonyms cannot be reversed.
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default IdentityReveal;
@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import Input from '../../components/common/Input';
+import Select from '../../components/common/Select';
+import useToast from '../../hooks/useToast';
+import {
+    DEFAULT_DESCRIPTORS,
+    OrganizationKind,
+    OrganizationMapping,
+    createOrganizationMapping,
+    exportOrganizationMappings,
+    formatDescriptor,
+    mergeOrganizationMappings,
+    parseOrganizationMappingJSON,
+} from '../../services/OrganizationMappingService';
+
+interface OrganizationMappingTableProps {
+    mappings: OrganizationMapping[];
+    onChange: (mappings: OrganizationMapping[]) => void;
+    // Organizations found in the processed resumes that have no mapping yet
+    unmappedOrganizations: { name: string; kind: OrganizationKind }[];
+}
+
+const kindOptions = [
+    { value: 'institution', label: 'Education institution' },
+    { value: 'employer', label: 'Employer' },
+];
+
+const emptyForm = {
+    name: '',
+    aliases: '',
+    kind: 'institution' as OrganizationKind,
+    descriptor: '',
+};
+
+const OrganizationMappingTable: React.FC<OrganizationMappingTableProps> = ({
+                                                                               mappings,
+                                                                               onChange,
+                                                                               unmappedOrganizations,
+                                                                           }) => {
+    const { showToast } = useToast();
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [form, setForm] = useState(emptyForm);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    // Add the mapping described by the form
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!form.name.trim()) {
+            setFormError('Enter the organization name as it appears in resumes');
+            return;
+        }
+
+        const mapping = createOrganizationMapping({
+            name: form.name.trim(),
+            aliases: form.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+            kind: form.kind,
+            descriptor: form.descriptor.trim(),
+        });
+
+        onChange(mergeOrganizationMappings(mappings, [mapping]));
+        setForm(emptyForm);
+        setFormError(null);
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(mappings.filter(mapping => mapping.id !== id));
+    };
+
+    // Import a shared mapping file and merge it into the table
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            const imported = parseOrganizationMappingJSON(await file.text());
+            onChange(mergeOrganizationMappings(mappings, imported));
+            showToast(`Imported ${imported.length} organization ${imported.length === 1 ? 'mapping' : 'mappings'}`, 'success');
+        } catch (error) {
+            console.error('Error importing organization mapping:', error);
+            showToast(error instanceof Error ? error.message : 'Error importing organization mapping', 'error');
+        } finally {
+            // Reset the input to allow importing the same file again
+            if (importInputRef.current) {
+                importInputRef.current.value = '';
+            }
+        }
+    };
+
+    return (
+        <Card
+            title="Organization Mapping"
+            subtitle="Universities and employers are replaced with the descriptor you choose. The table is saved in this browser."
+        >
+            <div className="space-y-6">
+                <div className="flex justify-end gap-2">
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleImport}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                        Import JSON
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => exportOrganizationMappings(mappings)}
+                        disabled={mappings.length === 0}
+                    >
+                        Export JSON
+                    </Button>
+                </div>
+
+                <form onSubmit={handleAdd} className="p-4 bg-neutral-50 border border-neutral-200 rounded-md">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+                        <Input
+                            id="organization-name"
+                            label="Organization name"
+                            value={form.name}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })}
+                            placeholder="e.g. University of Michigan"
+                            error={formError || undefined}
+                        />
+                        <Input
+                            id="organization-aliases"
+                            label="Other spellings"
+                            value={form.aliases}
+                            onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                            placeholder="Comma-separated, e.g. UMich, U of M"
+                        />
+                        <Select
+                            id="organization-kind"
+                            label="Type"
+                            options={kindOptions}
+                            value={form.kind}
+                            onChange={(value) => setForm({ ...form, kind: value as OrganizationKind })}
+                        />
+                        <Input
+                            id="organization-descriptor"
+                            label="Descriptor"
+                            value={form.descriptor}
+                            onChange={(e) => setForm({ ...form, descriptor: e.target.value })}
+                            placeholder={form.kind === 'institution' ? 'e.g. Large public research university' : 'e.g. Fortune 500 retailer'}
+                        />
+                    </div>
+                    <div className="flex justify-end">
+                        <Button type="submit" variant="primary" size="sm">
+                            Add Mapping
+                        </Button>
+                    </div>
+                </form>
+
+                {unmappedOrganizations.length > 0 && (
+                    <div className="p-3 bg-warning-50 border border-warning-200 rounded-md">
+                        <h4 className="text-sm font-medium text-warning-800 mb-2">Detected without a mapping</h4>
+                        <p className="text-xs text-warning-700 mb-2">
+                            These are replaced with a generic descriptor. Click one to add a mapping for it.
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            {unmappedOrganizations.map(organization => (
+                                <button
+                                    key={`${organization.kind}-${organization.name}`}
+                                    type="button"
+                                    className="px-2 py-1 text-xs rounded-full bg-white border border-warning-300 text-warning-800 hover:bg-warning-100"
+                                    onClick={() => setForm({ ...emptyForm, name: organization.name, kind: organization.kind })}
+                                >
+                                    {organization.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {mappings.length === 0 ? (
+                    <div className="text-center py-6 text-sm text-neutral-500">
+                        No mappings yet. Detected organizations are replaced with {formatDescriptor(DEFAULT_DESCRIPTORS.institution)} or {formatDescriptor(DEFAULT_DESCRIPTORS.employer)}.
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-neutral-200 border border-neutral-200">
+                        <thead className="bg-neutral-100">
+                        <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-neutral-700 uppercase tracking-wider">Organization</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-neutral-700 uppercase tracking-wider">Type</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-neutral-700 uppercase tracking-wider">Replaced With</th>
+                            <th className="px-3 py-2"></th>
+                        </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-neutral-200">
+                        {mappings.map(mapping => (
+                            <tr key={mapping.id}>
+                                <td className="px-3 py-2 text-sm text-neutral-700">
+                                    {mapping.name}
+                                    {mapping.aliases.length > 0 && (
+                                        <div className="text-xs text-neutral-500">Also: {mapping.aliases.join(', ')}</div>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 text-sm text-neutral-500">
+                                    {mapping.kind === 'institution' ? 'Education institution' : 'Employer'}
+                                </td>
+                                <td className="px-3 py-2 text-sm text-neutral-700">
+                                    {formatDescriptor(mapping.descriptor || DEFAULT_DESCRIPTORS[mapping.kind])}
+                                </td>
+                                <td className="px-3 py-2 text-right">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleRemove(mapping.id)}
+                                        className="text-danger-600"
+                                    >
+                                        Remove
+                                    </Button>
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <p className="text-xs text-neutral-400">
+                    Changes apply the next time resumes are anonymized or settings are applied.
+                </p>
+            </div>
+        </Card>
+    );
+};
+
+export default OrganizationMappingTable;
@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import Card from '../../components/common/Card';
+import Button from '../../components/common/Button';
+import useToast from '../../hooks/useToast';
+import { exportToJSON } from '../../services/ExportService';
+import { RedactionOverrides } from '../../services/AnalysisService';
+import { AnonymizationLeak, getUnresolvedLeaks } from '../../services/LeakVerificationService';
+import { ParsedField, ParsedResume, parseResume } from '../../services/ResumeParserService';
+import { AnonymizationSettings } from '../ResumeAnonymizer';
+
+interface ParsedResumeSource {
+    id: string;
+    fileName: string;
+    originalText: string;
+    anonymizedText: string;
+    leaks: AnonymizationLeak[];
+    settings: AnonymizationSettings;
+    overrides: RedactionOverrides;
+}
+
+interface ParsedResumeViewProps {
+    resumes: ParsedResumeSource[];
+    selectedResumeId: string | null;
+    onSelectResume: (resumeId: string) => void;
+}
+
+type TextSource = 'anonymized' | 'original';
+
+// Confidence badge, colored by how much the value should be checked by hand
+const Confidence: React.FC<{ value: number }> = ({ value }) => {
+    const color = value >= 0.8
+        ? 'bg-success-100 text-success-800'
+        : value >= 0.6
+            ? 'bg-warning-100 text-warning-800'
+            : 'bg-danger-100 text-danger-800';
+
+    return (
+        <span className={`ml-2 px-1.5 py-0.5 text-xs rounded ${color}`}>{Math.round(value * 100)}%</span>
+    );
+};
+
+const FieldRow: React.FC<{ label: string; field?: ParsedField }> = ({ label, field }) => (
+    <div className="flex text-sm py-1">
+        <span className="w-32 shrink-0 text-neutral-500">{label}</span>
+        {field ? (
+            <span className="text-neutral-800">
+                {field.value}
+                <Confidence value={field.confidence}/>
+            </span>
+        ) : (
+            <span className="text-neutral-400">Not found</span>
+        )}
+    </div>
+);
+
+const SectionHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="text-sm font-medium text-neutral-700 uppercase tracking-wider mb-2">{children}</h4>
+);
+
+const ParsedResumeView: React.FC<ParsedResumeViewProps> = ({
+                                                               resumes,
+                                                               selectedResumeId,
+                                                               onSelectResume,
+                                                           }) => {
+    const { showToast } = useToast();
+    const [source, setSource] = useState<TextSource>('anonymized');
+
+    const selectedResume = resumes.find(resume => resume.id === selectedResumeId) || resumes[0];
+
+    // Pseudonymized resumes stay blind here; the original can be read after the reveal step in the preview
+    const canShowOriginal = !!selectedResume && !selectedResume.settings.pseudonymize;
+    const activeSource: TextSource = canShowOriginal ? source : 'anonymized';
+
+    const parsed: ParsedResume | null = useMemo(() => {
+        if (!selectedResume) return null;
+        return parseResume(activeSource === 'original' ? selectedResume.originalText : selectedResume.anonymizedText);
+    }, [selectedResume, activeSource]);
+
+    if (!selectedResume || !parsed) {
+        return (
+            <Card>
+                <div className="text-center py-8 text-sm text-neutral-500">
+                    Process resumes to see their sections.
+                </div>
+            </Card>
+        );
+    }
+
+    const baseName = selectedResume.fileName.split('.')[0];
+
+    // Anonymized sections, which are always used for pseudonymized resumes, are only exported once
+    // the leaks found in the preview are resolved or waived
+    const findBlockedResumes = (resumeData: ParsedResumeSource[]) => resumeData.filter(resume =>
+        (activeSource === 'anonymized' || resume.settings.pseudonymize) &&
+        getUnresolvedLeaks(resume.leaks, resume.overrides).length > 0
+    );
+
+    const showBlockedWarning = (blockedResumes: ParsedResumeSource[]) => {
+        showToast(
+            `Resolve or waive the possible leaks in ${blockedResumes.map(resume => resume.fileName).join(', ')} on the Preview & Edit tab before exporting`,
+            'warning'
+        );
+    };
+
+    const handleExport = () => {
+        const blockedResumes = findBlockedResumes([selectedResume]);
+        if (blockedResumes.length > 0) {
+            showBlockedWarning(blockedResumes);
+            return;
+        }
+
+        exportToJSON(
+            { fileName: selectedResume.fileName, source: activeSource, exportDate: new Date().toISOString(), resume: parsed },
+            { filename: `${baseName}-${activeSource}-parsed.json`, pretty: true }
+        );
+    };
+
+    const handleExportAll = () => {
+        const blockedResumes = findBlockedResumes(resumes);
+        if (blockedResumes.length > 0) {
+            showBlockedWarning(blockedResumes);
+            return;
+        }
+
+        exportToJSON(
+            {
+                source: activeSource,
+                exportDate: new Date().toISOString(),
+                resumes: resumes.map(resume => ({
+                    fileName: resume.fileName,
+                    resume: parseResume(activeSource === 'original' && !resume.settings.pseudonymize
+                        ? resume.originalText
+                        : resume.anonymizedText),
+                })),
+            },
+            { filename: `parsed-resumes-${activeSource}.json`, pretty: true }
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            {resumes.length > 1 && (
+                <div className="p-2 bg-neutral-50 border border-neutral-200 rounded-md overflow-x-auto">
+                    <div className="flex space-x-2">
+                        {resumes.map((resume) => (
+                            <button
+                                key={resume.id}
+                                className={`px-3 py-1.5 text-xs rounded-md whitespace-nowrap ${
+                                    selectedResume.id === resume.id
+                                        ? 'bg-primary-100 text-primary-700 font-medium'
+                                        : 'text-neutral-600 hover:bg-neutral-100'
+                                }`}
+                                onClick={() => onSelectResume(resume.id)}
+                            >
+                                {resume.fileName}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <Card
+                header={
+                    <div className="flex justify-between items-center w-full">
+                        <span className="text-lg font-medium text-neutral-800">{selectedResume.fileName}</span>
+                        <div className="flex space-x-2">
+                            <Button
+                                variant={activeSource === 'anonymized' ? 'primary' : 'outline'}
+                                size="sm"
+                                onClick={() => setSource('anonymized')}
+                            >
+                                Anonymized
+                            </Button>
+                            <Button
+                                variant={activeSource === 'original' ? 'primary' : 'outline'}
+                                size="sm"
+                                onClick={() => setSource('original')}
+                                disabled={!canShowOriginal}
+                            >
+                                Original
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={handleExport}>
+                                Export JSON
+                            </Button>
+                            {resumes.length > 1 && (
+                                <Button variant="outline" size="sm" onClick={handleExportAll}>
+                                    Export All
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                }
+            >
+                <div className="space-y-6">
+                    <div>
+                        <SectionHeading>Contact</SectionHeading>
+                        <FieldRow label="Name" field={parsed.contact.name}/>
+                        <FieldRow label="Email" field={parsed.contact.email}/>
+                        <FieldRow label="Phone" field={parsed.contact.phone}/>
+                        <FieldRow label="Location" field={parsed.contact.location}/>
+                        {parsed.contact.links.map((link, index) => (
+                            <FieldRow key={`${link.value}-${index}`} label={index === 0 ? 'Links' : ''} field={link}/>
+                        ))}
+                    </div>
+
+                    <div>
+                        <SectionHeading>Summary</SectionHeading>
+                        {parsed.summary ? (
+                            <p className="text-sm text-neutral-800">
+                                {parsed.summary.value}
+                                <Confidence value={parsed.summary.confidence}/>
+                            </p>
+                        ) : (
+                            <p className="text-sm text-neutral-400">Not found</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <SectionHeading>Experience ({parsed.experience.length})</SectionHeading>
+                        <div className="space-y-3">
+                            {parsed.experience.map((entry, index) => (
+                                <div key={index} className="p-3 border border-neutral-200 rounded-md">
+                                    <FieldRow label="Title" field={entry.title}/>
+                                    <FieldRow label="Employer" field={entry.employer}/>
+                                    <FieldRow label="Start" field={entry.startDate}/>
+                                    <FieldRow label="End" field={entry.endDate}/>
+                                    {entry.description.length > 0 && (
+                                        <ul className="mt-2 ml-32 list-disc list-inside text-sm text-neutral-600">
+                                            {entry.description.map((line, lineIndex) => (
+                                                <li key={lineIndex}>{line}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <SectionHeading>Education ({parsed.education.length})</SectionHeading>
+                        <div className="space-y-3">
+                            {parsed.education.map((entry, index) => (
+                                <div key={index} className="p-3 border border-neutral-200 rounded-md">
+                                    <FieldRow label="Institution" field={entry.institution}/>
+                                    <FieldRow label="Degree" field={entry.degree}/>
+                                    <FieldRow label="Field of study" field={entry.fieldOfStudy}/>
+                                    <FieldRow label="Graduated" field={entry.graduationDate}/>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <SectionHeading>Skills ({parsed.skills.length})</SectionHeading>
+                        <div className="flex flex-wrap gap-2">
+                            {parsed.skills.map((skill, index) => (
+                                <span
+                                    key={`${skill.value}-${index}`}
+                                    className="px-2 py-1 text-xs rounded-full bg-neutral-100 text-neutral-700"
+                                    title={`${skill.category ? `${skill.category}, ` : ''}${Math.round(skill.confidence * 100)}% confidence`}
+                                >
+                                    {skill.value}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <SectionHeading>Certifications ({parsed.certifications.length})</SectionHeading>
+                        {parsed.certifications.map((certification, index) => (
+                            <div key={index} className="flex text-sm py-1">
+                                <span className="text-neutral-800">
+                                    {certification.name.value}
+                                    <Confidence value={certification.name.confidence}/>
+                                </span>
+                                {certification.date && (
+                                    <span className="ml-4 text-neutral-500">{certification.date.value}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <p className="text-xs text-neutral-400">
+                        Sections found: {parsed.sections.map(section => section.heading || 'Contact').join(', ')}
+                    </p>
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default ParsedResumeView;
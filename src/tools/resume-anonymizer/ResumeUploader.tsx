@@ -7,12 +7,15 @@ interface ResumeUploaderProps {
     uploadedFiles: FileInfo[];
     onProcess: () => void;
     isProcessing: boolean;
+    // Progress of long-running steps such as OCR of scanned PDFs
+    processingStatus?: string | null;
 }
 
 const ResumeUploader: React.FC<ResumeUploaderProps> = ({
                                                            uploadedFiles,
                                                            onProcess,
                                                            isProcessing,
+                                                           processingStatus,
                                                        }) => {
     // Define accepted file types
     const acceptedFileTypes = '.pdf,.doc,.docx,.txt,.rtf';
@@ -65,6 +68,9 @@ const ResumeUploader: React.FC<ResumeUploaderProps> = ({
                         {isProcessing ? 'Processing...' : 'Anonymize Resumes'}
                     </Button>
                 </div>
+                {isProcessing && processingStatus && (
+                    <p className="text-sm text-neutral-500 text-right">{processingStatus}</p>
+                )}
             </div>
 
             {uploadedFiles.length > 0 && (
@@ -0,0 +1,27 @@
+// src/workers/biasAnalysisWorker.js
+// Runs bias analysis off the main thread so batch audits keep the UI responsive
+
+import { analyzeBiasedLanguage } from '../services/AnalyzeBiasedLanguage';
+
+// Listen for messages from the main thread
+self.onmessage = async (event) => {
+  try {
+    const { action, text, options } = event.data;
+
+    let result;
+    switch (action) {
+      case 'analyze':
+        result = await analyzeBiasedLanguage(text, options);
+        break;
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+
+    self.postMessage({ success: true, result });
+  } catch (error) {
+    self.postMessage({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
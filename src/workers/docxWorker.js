@@ -0,0 +1,630 @@
+// src/workers/docxWorker.js
+// Worker for reading Word (.docx) documents and writing anonymized copies of them
+
+// Listen for messages from the main thread
+self.onmessage = async (event) => {
+    try {
+        const {content, replacements = [], action} = event.data;
+
+        // Process the document based on the action
+        let result;
+        switch (action) {
+            case 'extract':
+                result = await extractDocxText(content);
+                break;
+            case 'anonymize':
+                result = await anonymizeDocx(content, replacements);
+                break;
+            default:
+                throw new Error(`Unknown action: ${action}`);
+        }
+
+        // Send the result back to the main thread
+        self.postMessage({success: true, result});
+    } catch (error) {
+        // Send any errors back to the main thread
+        self.postMessage({
+            success: false, error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+const DOCUMENT_PART = 'word/document.xml';
+const HEADER_PART_PATTERN = /^word\/header\d*\.xml$/;
+const FOOTER_PART_PATTERN = /^word\/footer\d*\.xml$/;
+
+// Parts that can contain text written by or about the candidate
+const TEXT_PART_PATTERN = /^word\/(?:document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+
+// Relationships of the text parts, which hold hyperlink targets such as mailto: and profile links
+const RELATIONSHIPS_PART_PATTERN = /^word\/_rels\/[^/]+\.rels$/;
+const EXTERNAL_RELATIONSHIP_PATTERN = /<Relationship\b[^>]*\bTargetMode="External"[^>]*>/g;
+
+// Embedded images, such as a photo of the candidate, which cannot be anonymized
+const MEDIA_PART_PATTERN = /^word\/media\//;
+
+// Values shorter than this are not looked for in link targets, where they would match unrelated URLs
+const MIN_TARGET_VALUE_LENGTH = 3;
+
+// Document properties that identify the author
+const CORE_PROPERTY_PATTERN = /<(dc:creator|dc:title|dc:subject|dc:description|cp:lastModifiedBy|cp:keywords)(\s[^>]*)?>[\s\S]*?<\/\1>/g;
+const APP_PROPERTY_PATTERN = /<(Company|Manager)(\s[^>]*)?>[\s\S]*?<\/\1>/g;
+// Custom properties, which document templates and HR systems fill with names and IDs
+const CUSTOM_PROPERTY_PATTERN = /<property\b[\s\S]*?<\/property>/g;
+
+// Matches one tag or one run of text between tags
+const XML_TOKEN_PATTERN = /<(\/?)([\w:.-]+)((?:\s+[^>]*?)?)(\/?)>|([^<]+)/g;
+
+/**
+ * Unzip helpers
+ */
+
+function findEndOfCentralDirectory(view) {
+    // The record is 22 bytes plus a comment of up to 65535 bytes
+    const lowest = Math.max(0, view.byteLength - 65557);
+    for (let i = view.byteLength - 22; i >= lowest; i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            return i;
+        }
+    }
+    throw new Error('The file is not a valid .docx document');
+}
+
+/**
+ * Read the entries of a ZIP archive without decompressing them
+ *
+ * @param {ArrayBuffer} buffer - The archive
+ * @returns {Array} Entries with name, compression method, CRC, sizes and compressed bytes
+ */
+function readZipEntries(buffer) {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder('utf-8');
+
+    const endOfDirectory = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(endOfDirectory + 10, true);
+    let offset = view.getUint32(endOfDirectory + 16, true);
+
+    const entries = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) {
+            throw new Error('The .docx file is damaged');
+        }
+
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+
+        // The data follows the local header, whose name and extra field lengths may differ
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+
+        entries.push({
+            name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+            method: view.getUint16(offset + 10, true),
+            crc: view.getUint32(offset + 16, true),
+            size: view.getUint32(offset + 24, true),
+            compressed: bytes.subarray(dataStart, dataStart + compressedSize)
+        });
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+async function inflateEntry(entry) {
+    if (entry.method === 0) {
+        return entry.compressed;
+    }
+    if (entry.method !== 8) {
+        throw new Error(`Unsupported compression method ${entry.method} in ${entry.name}`);
+    }
+
+    const stream = new Blob([entry.compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readEntryText(entry) {
+    return new TextDecoder('utf-8').decode(await inflateEntry(entry));
+}
+
+/**
+ * Zip helpers
+ */
+
+let crcTable = null;
+
+function crc32(bytes) {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(bytes) {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Write a ZIP archive. Unchanged entries keep their original compressed bytes.
+ *
+ * @param {Array} entries - Entries as returned by readZipEntries, or {name, data} for new content
+ * @returns {Promise<ArrayBuffer>} The archive
+ */
+async function writeZip(entries) {
+    const encoder = new TextEncoder();
+    const localParts = [];
+    const centralParts = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        let {method, crc, size, compressed} = entry;
+        if (entry.data) {
+            method = 8;
+            crc = crc32(entry.data);
+            size = entry.data.length;
+            compressed = await deflate(entry.data);
+        }
+
+        const name = encoder.encode(entry.name);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 names
+        local.setUint16(8, method, true);
+        local.setUint16(12, 0x21, true); // 1980-01-01
+        local.setUint32(14, crc, true);
+        local.setUint32(18, compressed.length, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, method, true);
+        central.setUint16(14, 0x21, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, compressed.length, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+
+        localParts.push(new Uint8Array(local.buffer), name, compressed);
+        centralParts.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + compressed.length;
+    }
+
+    const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)]).arrayBuffer();
+}
+
+/**
+ * XML helpers
+ */
+
+function decodeXmlEntities(text) {
+    return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi, (match, hex, decimal, name) => {
+        if (hex) return String.fromCodePoint(parseInt(hex, 16));
+        if (decimal) return String.fromCodePoint(parseInt(decimal, 10));
+        return {amp: '&', lt: '<', gt: '>', quot: '"', apos: "'"}[name.toLowerCase()];
+    });
+}
+
+function escapeXml(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function getAttribute(attributes, name) {
+    const match = attributes.match(new RegExp(`\\s${name}="([^"]*)"`));
+    return match ? match[1] : null;
+}
+
+/**
+ * Helper function to escape special characters in regex
+ */
+function escapeRegExp(string) {
+    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert one WordprocessingML part to plain text. Each paragraph becomes a line, list items
+ * are bulleted and indented by level, and table rows become lines with cells separated by " | ".
+ *
+ * @param {string} xml - The part XML
+ * @returns {string} The text of the part
+ */
+function wordprocessingMLToText(xml) {
+    const lines = [];
+    const paragraphs = [];
+    const tables = [];
+    // Depth inside mc:Fallback, which repeats the content of mc:Choice for older readers
+    let fallbackDepth = 0;
+    let inText = false;
+
+    // Send a finished line to the innermost open table cell, or to the output
+    const emit = (line) => {
+        const table = tables[tables.length - 1];
+        const cell = table && table.cell;
+        if (cell) {
+            cell.push(line);
+        } else {
+            lines.push(line);
+        }
+    };
+
+    const closeParagraph = (paragraph) => {
+        const text = paragraph.text.replace(/[ \t]+$/g, '');
+        if (paragraph.isListItem && text.trim()) {
+            emit(`${'  '.repeat(paragraph.level)}• ${text.trim()}`);
+        } else {
+            emit(text);
+        }
+    };
+
+    XML_TOKEN_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = XML_TOKEN_PATTERN.exec(xml)) !== null) {
+        const [, closing, name, attributes, selfClosing, text] = match;
+
+        if (text !== undefined) {
+            if (inText && fallbackDepth === 0 && paragraphs.length > 0) {
+                paragraphs[paragraphs.length - 1].text += decodeXmlEntities(text);
+            }
+            continue;
+        }
+
+        if (name === 'mc:Fallback') {
+            if (!selfClosing) fallbackDepth += closing ? -1 : 1;
+            continue;
+        }
+        if (fallbackDepth > 0) continue;
+
+        const paragraph = paragraphs[paragraphs.length - 1];
+        const table = tables[tables.length - 1];
+
+        switch (name) {
+            case 'w:p':
+                if (closing) {
+                    const finished = paragraphs.pop();
+                    if (finished) closeParagraph(finished);
+                } else if (selfClosing) {
+                    emit('');
+                } else {
+                    paragraphs.push({text: '', isListItem: false, level: 0});
+                }
+                break;
+            case 'w:t':
+                inText = !closing && !selfClosing;
+                break;
+            case 'w:tab':
+                if (paragraph && !closing) paragraph.text += '\t';
+                break;
+            case 'w:br':
+            case 'w:cr':
+                if (paragraph && !closing) paragraph.text += '\n';
+                break;
+            case 'w:noBreakHyphen':
+                if (paragraph && !closing) paragraph.text += '-';
+                break;
+            case 'w:numPr':
+                if (paragraph && !closing) paragraph.isListItem = true;
+                break;
+            case 'w:ilvl':
+                if (paragraph && !closing) paragraph.level = parseInt(getAttribute(attributes, 'w:val') || '0', 10) || 0;
+                break;
+            case 'w:pStyle':
+                if (paragraph && !closing && /list|bullet/i.test(getAttribute(attributes, 'w:val') || '')) {
+                    paragraph.isListItem = true;
+                }
+                break;
+            case 'w:tbl':
+                if (closing) {
+                    const finished = tables.pop();
+                    if (finished) finished.rows.forEach(row => emit(row));
+                } else if (!selfClosing) {
+                    tables.push({rows: [], row: null, cell: null});
+                }
+                break;
+            case 'w:tr':
+                if (!table) break;
+                if (closing) {
+                    if (table.row && table.row.some(cell => cell)) table.rows.push(table.row.join(' | '));
+                    table.row = null;
+                } else if (!selfClosing) {
+                    table.row = [];
+                }
+                break;
+            case 'w:tc':
+                if (!table) break;
+                if (closing) {
+                    if (table.row && table.cell) {
+                        table.row.push(table.cell.map(line => line.trim()).filter(Boolean).join(' '));
+                    }
+                    table.cell = null;
+                } else if (!selfClosing) {
+                    table.cell = [];
+                }
+                break;
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Collapse runs of empty lines left by spacing paragraphs
+ */
+function tidyText(text) {
+    return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Extract the text of a .docx file, including its headers and footers, which often hold
+ * contact details
+ *
+ * @param {ArrayBuffer} content - The .docx file
+ * @returns {Promise<string>} The document text
+ */
+async function extractDocxText(content) {
+    try {
+        const entries = readZipEntries(content);
+        const documentEntry = entries.find(entry => entry.name === DOCUMENT_PART);
+        if (!documentEntry) {
+            throw new Error('The file is not a valid .docx document');
+        }
+
+        const readParts = async (pattern) => {
+            const parts = entries
+                .filter(entry => pattern.test(entry.name))
+                .sort((a, b) => a.name.localeCompare(b.name));
+
+            const texts = [];
+            for (const entry of parts) {
+                const text = tidyText(wordprocessingMLToText(await readEntryText(entry)));
+                // First-page and default headers often repeat the same text
+                if (text && !texts.includes(text)) texts.push(text);
+            }
+            return texts;
+        };
+
+        const headers = await readParts(HEADER_PART_PATTERN);
+        const body = tidyText(wordprocessingMLToText(await readEntryText(documentEntry)));
+        const footers = await readParts(FOOTER_PART_PATTERN);
+
+        return [...headers, body, ...footers].filter(Boolean).join('\n\n');
+    } catch (error) {
+        console.error('Error in extractDocxText:', error);
+        throw error;
+    }
+}
+
+/**
+ * Replace text inside the w:t elements of one part. Values that span several runs are
+ * written into the first run, so the replacement takes that run's formatting.
+ *
+ * @param {string} xml - The part XML
+ * @param {Array} patterns - {regex, replacement, original} sorted longest first
+ * @param {Set<string>} matched - Collects the originals that were found
+ * @returns {string} The updated XML
+ */
+function replaceInWordprocessingML(xml, patterns, matched) {
+    const paragraphs = new Map();
+    const openParagraphs = [];
+    let nextParagraphId = 0;
+    let openText = null;
+
+    XML_TOKEN_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = XML_TOKEN_PATTERN.exec(xml)) !== null) {
+        const [token, closing, name, , selfClosing, text] = match;
+
+        if (text !== undefined) {
+            if (openText) openText.raw += text;
+            continue;
+        }
+
+        if (name === 'w:p' && !selfClosing) {
+            if (closing) {
+                openParagraphs.pop();
+            } else {
+                openParagraphs.push(nextParagraphId++);
+            }
+        } else if (name === 'w:t' && openParagraphs.length > 0) {
+            if (closing && openText) {
+                openText.contentEnd = match.index;
+                const paragraphId = openParagraphs[openParagraphs.length - 1];
+                if (!paragraphs.has(paragraphId)) paragraphs.set(paragraphId, []);
+                paragraphs.get(paragraphId).push({...openText, text: decodeXmlEntities(openText.raw)});
+                openText = null;
+            } else if (!closing && !selfClosing) {
+                openText = {tagStart: match.index, tag: token, contentStart: match.index + token.length, raw: ''};
+            }
+        }
+    }
+
+    const edits = [];
+
+    paragraphs.forEach(runs => {
+        let position = 0;
+        runs.forEach(run => {
+            run.start = position;
+            position += run.text.length;
+            run.end = position;
+        });
+        const fullText = runs.map(run => run.text).join('');
+
+        // Find non-overlapping matches, preferring longer values
+        const matches = [];
+        patterns.forEach(({regex, replacement, original}) => {
+            regex.lastIndex = 0;
+            let found;
+            while ((found = regex.exec(fullText)) !== null) {
+                const start = found.index;
+                const end = start + found[0].length;
+                if (end === start) {
+                    regex.lastIndex++;
+                    continue;
+                }
+                if (matches.some(existing => start < existing.end && end > existing.start)) continue;
+                matches.push({start, end, replacement});
+                matched.add(original);
+            }
+        });
+        if (matches.length === 0) return;
+        matches.sort((a, b) => a.start - b.start);
+
+        runs.forEach(run => {
+            let output = '';
+            let cursor = run.start;
+            matches.forEach(found => {
+                if (found.end <= run.start || found.start >= run.end) return;
+                if (found.start > cursor) output += fullText.substring(cursor, found.start);
+                if (found.start >= run.start) output += found.replacement;
+                cursor = Math.min(found.end, run.end);
+            });
+            output += fullText.substring(cursor, run.end);
+
+            if (output !== run.text) {
+                // Keep leading and trailing spaces, which Word drops without xml:space="preserve"
+                const tag = /\sxml:space=/.test(run.tag) ? run.tag : run.tag.replace(/^<w:t/, '<w:t xml:space="preserve"');
+                edits.push({start: run.tagStart, end: run.contentEnd, value: tag + escapeXml(output)});
+            }
+        });
+    });
+
+    let result = xml;
+    edits.sort((a, b) => b.start - a.start).forEach(edit => {
+        result = result.substring(0, edit.start) + edit.value + result.substring(edit.end);
+    });
+
+    // Tracked changes and comments carry the name of whoever wrote them
+    return result.replace(/\sw:(author|initials)="[^"]*"/g, ' w:$1=""');
+}
+
+/**
+ * Point external links whose target contains a replaced value, e.g. a mailto: link or a
+ * LinkedIn profile, at a blank page. The link text is replaced with the rest of the document.
+ *
+ * @param {string} xml - The relationships part XML
+ * @param {string[]} originals - The replaced values
+ * @param {Set<string>} matched - Collects the originals that were found
+ * @returns {string} The updated XML
+ */
+function replaceExternalTargets(xml, originals, matched) {
+    const values = originals
+        .filter(original => original.length >= MIN_TARGET_VALUE_LENGTH)
+        .map(original => ({original, folded: original.toLowerCase(), compact: original.toLowerCase().replace(/\s+/g, '')}));
+
+    return xml.replace(EXTERNAL_RELATIONSHIP_PATTERN, tag => {
+        const target = getAttribute(tag, 'Target');
+        if (target === null) return tag;
+
+        let decoded = decodeXmlEntities(target);
+        try {
+            decoded = decodeURIComponent(decoded);
+        } catch (error) {
+            // Not percent-encoded; compare as written
+        }
+        const folded = decoded.toLowerCase();
+
+        // Names also appear without spaces in handles, e.g. "Jane Doe" in linkedin.com/in/janedoe
+        const found = values.filter(value => folded.includes(value.folded) || folded.includes(value.compact));
+        if (found.length === 0) return tag;
+
+        found.forEach(value => matched.add(value.original));
+        return tag.replace(/\sTarget="[^"]*"/, ' Target="about:blank"');
+    });
+}
+
+/**
+ * Write a copy of a .docx file with each original value replaced, keeping the styling.
+ * Links to replaced values are blanked, and the author, title, company and custom properties
+ * stored in the document properties are cleared.
+ *
+ * @param {ArrayBuffer} content - The .docx file
+ * @param {Array} replacements - {original, replacement} pairs from the anonymizer
+ * @returns {Promise<{docx: ArrayBuffer, unmatched: string[], images: string[]}>} The new file,
+ *     the values that were not found, e.g. because they span several paragraphs, and the embedded
+ *     images, which are copied unchanged and have to be checked by hand
+ */
+async function anonymizeDocx(content, replacements) {
+    try {
+        const entries = readZipEntries(content);
+        if (!entries.some(entry => entry.name === DOCUMENT_PART)) {
+            throw new Error('The file is not a valid .docx document');
+        }
+
+        const unique = new Map();
+        replacements.forEach(({original, replacement}) => {
+            if (original && !unique.has(original)) unique.set(original, replacement);
+        });
+
+        // Whole values only, so a replaced first name does not change a longer word
+        const patterns = Array.from(unique.entries())
+            .sort((a, b) => b[0].length - a[0].length)
+            .map(([original, replacement]) => ({
+                original,
+                replacement,
+                regex: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(original)}(?![\\p{L}\\p{N}])`, 'gu')
+            }));
+
+        const matched = new Set();
+        const encoder = new TextEncoder();
+        const output = [];
+
+        for (const entry of entries) {
+            if (TEXT_PART_PATTERN.test(entry.name)) {
+                const xml = replaceInWordprocessingML(await readEntryText(entry), patterns, matched);
+                output.push({name: entry.name, data: encoder.encode(xml)});
+            } else if (entry.name === 'docProps/core.xml') {
+                const xml = (await readEntryText(entry)).replace(CORE_PROPERTY_PATTERN, '<$1$2></$1>');
+                output.push({name: entry.name, data: encoder.encode(xml)});
+            } else if (entry.name === 'docProps/app.xml') {
+                const xml = (await readEntryText(entry)).replace(APP_PROPERTY_PATTERN, '<$1$2></$1>');
+                output.push({name: entry.name, data: encoder.encode(xml)});
+            } else if (entry.name === 'docProps/custom.xml') {
+                const xml = (await readEntryText(entry)).replace(CUSTOM_PROPERTY_PATTERN, '');
+                output.push({name: entry.name, data: encoder.encode(xml)});
+            } else if (RELATIONSHIPS_PART_PATTERN.test(entry.name)) {
+                const xml = replaceExternalTargets(await readEntryText(entry), Array.from(unique.keys()), matched);
+                output.push({name: entry.name, data: encoder.encode(xml)});
+            } else {
+                output.push(entry);
+            }
+        }
+
+        return {
+            docx: await writeZip(output),
+            unmatched: Array.from(unique.keys()).filter(original => !matched.has(original)),
+            images: entries.filter(entry => MEDIA_PART_PATTERN.test(entry.name)).map(entry => entry.name)
+        };
+    } catch (error) {
+        console.error('Error in anonymizeDocx:', error);
+        throw error;
+    }
+}
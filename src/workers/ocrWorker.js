@@ -0,0 +1,274 @@
+// src/workers/ocrWorker.js
+// Worker for reading scanned PDF pages with OCR
+import * as pdfjs from 'pdfjs-dist';
+import { PDFJS_STANDARD_FONT_DATA_URL, PDFJS_WORKER_SRC } from '../services/PDFJSAssetService';
+import {
+    TESSERACT_CORE_PATH,
+    TESSERACT_LANG_PATH,
+    TESSERACT_LANGUAGES,
+    TESSERACT_WORKER_PATH
+} from '../services/TesseractAssetService';
+import { createWorker } from 'tesseract.js';
+
+// Set the worker source
+pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
+
+// Pages with less text than this are treated as scanned
+const MIN_TEXT_LENGTH = 20;
+
+// Pages are rendered at 216 DPI, which Tesseract reads reliably
+const OCR_SCALE = 3;
+
+// Listen for messages from the main thread
+self.onmessage = async (event) => {
+    try {
+        const {content, pageNumbers, language = 'eng', action} = event.data;
+
+        // Process the PDF based on the action
+        let result;
+        switch (action) {
+            case 'detect':
+                result = await findScannedPages(content);
+                break;
+            case 'recognize':
+                result = await recognizePDF(content, pageNumbers, language);
+                break;
+            default:
+                throw new Error(`Unknown action: ${action}`);
+        }
+
+        // Send the result back to the main thread
+        self.postMessage({success: true, result});
+    } catch (error) {
+        // Send any errors back to the main thread
+        self.postMessage({
+            success: false, error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+/**
+ * Canvas factory for rendering pages inside the worker, where there is no DOM
+ */
+class OffscreenCanvasFactory {
+    create(width, height) {
+        const canvas = new OffscreenCanvas(width, height);
+        return {canvas, context: canvas.getContext('2d')};
+    }
+
+    reset(canvasAndContext, width, height) {
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext) {
+        canvasAndContext.canvas.width = 0;
+        canvasAndContext.canvas.height = 0;
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
+
+/**
+ * Filter factory that skips SVG filters, which need a DOM and do not matter for OCR
+ */
+class NoopFilterFactory {
+    addFilter() {
+        return 'none';
+    }
+
+    addHCMFilter() {
+        return 'none';
+    }
+
+    addAlphaFilter() {
+        return 'none';
+    }
+
+    addLuminosityFilter() {
+        return 'none';
+    }
+
+    addHighlightHCMFilter() {
+        return 'none';
+    }
+
+    destroy() {}
+}
+
+function loadDocument(content) {
+    return pdfjs.getDocument({
+        data: new Uint8Array(content.slice(0)),
+        CanvasFactory: OffscreenCanvasFactory,
+        FilterFactory: NoopFilterFactory,
+        disableFontFace: true,
+        standardFontDataUrl: PDFJS_STANDARD_FONT_DATA_URL
+    }).promise;
+}
+
+async function getPageText(page) {
+    const textContent = await page.getTextContent();
+    return textContent.items.map(item => item.str || '').join(' ');
+}
+
+/**
+ * Find the pages that have no extractable text
+ *
+ * @param {ArrayBuffer} content - The PDF content as an ArrayBuffer
+ * @returns {Promise<number[]>} Page numbers, starting at 1
+ */
+async function findScannedPages(content) {
+    try {
+        const pdf = await loadDocument(content);
+        const scannedPages = [];
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const text = await getPageText(page);
+            if (text.replace(/\s+/g, '').length < MIN_TEXT_LENGTH) {
+                scannedPages.push(i);
+            }
+        }
+
+        await pdf.destroy();
+        return scannedPages;
+    } catch (error) {
+        console.error('Error in findScannedPages:', error);
+        throw error;
+    }
+}
+
+/**
+ * Convert a box in rendered pixels to PDF user space, taking page rotation into account
+ */
+function toPdfBox(viewport, bbox) {
+    const [x1, y1] = viewport.convertToPdfPoint(bbox.x0, bbox.y1);
+    const [x2, y2] = viewport.convertToPdfPoint(bbox.x1, bbox.y0);
+
+    return {
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1)
+    };
+}
+
+/**
+ * Recognize the text of scanned pages. The text layer is used for the other pages, so the
+ * returned text covers the whole document. Progress is posted as
+ * { action: 'progress', progress } messages while pages are recognized.
+ *
+ * @param {ArrayBuffer} content - The PDF content as an ArrayBuffer
+ * @param {number[]} [pageNumbers] - Pages to recognize, defaults to every page without text
+ * @param {string} language - Tesseract language code
+ * @returns {Promise<{text: string, pages: Array}>} The document text and the recognized pages
+ */
+async function recognizePDF(content, pageNumbers, language) {
+    let ocr = null;
+
+    try {
+        const targets = pageNumbers && pageNumbers.length > 0 ? pageNumbers : await findScannedPages(content);
+        const pdf = await loadDocument(content);
+
+        let current = {pageNumber: 0, page: 0};
+        const reportProgress = (status, pageProgress) => {
+            self.postMessage({
+                action: 'progress',
+                progress: {
+                    pageNumber: current.pageNumber,
+                    page: current.page,
+                    pageCount: targets.length,
+                    status,
+                    progress: targets.length > 0 ? (current.page - 1 + pageProgress) / targets.length : 1
+                }
+            });
+        };
+
+        if (targets.length > 0) {
+            const missing = language.split('+').filter(code => !TESSERACT_LANGUAGES.includes(code));
+            if (missing.length > 0) {
+                throw new Error(`OCR language data is not available for: ${missing.join(', ')}`);
+            }
+
+            // Tesseract does not resolve relative paths inside a worker, so pass absolute URLs
+            ocr = await createWorker(language, undefined, {
+                workerPath: new URL(TESSERACT_WORKER_PATH, self.location.href).href,
+                corePath: new URL(TESSERACT_CORE_PATH, self.location.href).href,
+                langPath: new URL(TESSERACT_LANG_PATH, self.location.href).href,
+                logger: message => {
+                    if (current.page > 0 && message.status === 'recognizing text') {
+                        reportProgress(message.status, message.progress);
+                    }
+                }
+            });
+        }
+
+        const pageTexts = [];
+        const pages = [];
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+
+            if (!targets.includes(i)) {
+                pageTexts.push(await getPageText(page));
+                continue;
+            }
+
+            current = {pageNumber: i, page: current.page + 1};
+            reportProgress('rendering page', 0);
+
+            const pageSize = page.getViewport({scale: 1});
+            const viewport = page.getViewport({scale: OCR_SCALE});
+            const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+            const context = canvas.getContext('2d');
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            await page.render({canvasContext: context, viewport}).promise;
+
+            const {data} = await ocr.recognize(canvas, {}, {text: true, blocks: true});
+
+            const words = [];
+            (data.blocks || []).forEach(block => {
+                block.paragraphs.forEach(paragraph => {
+                    paragraph.lines.forEach(line => {
+                        line.words.forEach(word => {
+                            if (!word.text.trim()) return;
+                            words.push({
+                                text: word.text,
+                                confidence: word.confidence / 100,
+                                ...toPdfBox(viewport, word.bbox)
+                            });
+                        });
+                    });
+                });
+            });
+
+            const text = data.text.trim();
+            pageTexts.push(text);
+            pages.push({
+                pageNumber: i,
+                width: pageSize.width,
+                height: pageSize.height,
+                text,
+                words
+            });
+
+            reportProgress('page recognized', 1);
+            page.cleanup();
+        }
+
+        await pdf.destroy();
+
+        return {
+            text: pageTexts.join('\n').trim(),
+            pages
+        };
+    } catch (error) {
+        console.error('Error in recognizePDF:', error);
+        throw error;
+    } finally {
+        if (ocr) {
+            await ocr.terminate();
+        }
+    }
+}
@@ -1,9 +1,9 @@
 // src/workers/pdfAnnotationWorker.js
 import * as pdfjs from 'pdfjs-dist';
+import { PDFJS_STANDARD_FONT_DATA_URL, PDFJS_WORKER_SRC } from '../services/PDFJSAssetService';
 
 // Set the worker source
-const workerVersion = '5.1.91';
-pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs`;
+pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
 
 
 // Handle messages from the main thread
@@ -13,6 +13,7 @@ self.onmessage = async (event) => {
         const {
             pdfBuffer,
             annotations = [],
+            redactions,
             action = 'save',
             pageNumber,
             rect,
@@ -30,7 +31,7 @@ self.onmessage = async (event) => {
                 result = await extractAnnotations(pdfBuffer);
                 break;
             case 'redact':
-                result = await applyRedactions(pdfBuffer, annotations);
+                result = await applyRedactions(pdfBuffer, redactions || annotations, options);
                 break;
             case 'edit':
                 result = await applyTextEdits(pdfBuffer, annotations);
@@ -166,49 +167,220 @@ async function extractAnnotations(pdfBuffer) {
     }
 }
 
+/**
+ * Canvas factory for rendering pages inside the worker, where there is no DOM
+ */
+class OffscreenCanvasFactory {
+    create(width, height) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d') };
+    }
+
+    reset(canvasAndContext, width, height) {
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext) {
+        canvasAndContext.canvas.width = 0;
+        canvasAndContext.canvas.height = 0;
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
+
+/**
+ * Filter factory that skips SVG filters, which need a DOM and do not affect redaction output
+ */
+class NoopFilterFactory {
+    addFilter() {
+        return 'none';
+    }
+
+    addHCMFilter() {
+        return 'none';
+    }
+
+    addAlphaFilter() {
+        return 'none';
+    }
+
+    addLuminosityFilter() {
+        return 'none';
+    }
+
+    addHighlightHCMFilter() {
+        return 'none';
+    }
+
+    destroy() {}
+}
+
+/**
+ * Cover one redaction on the rendered page, optionally writing its placeholder label
+ */
+function drawRedaction(context, viewport, redaction, style, scale) {
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+        redaction.x,
+        redaction.y,
+        redaction.x + redaction.width,
+        redaction.y + redaction.height
+    ]);
+    const left = Math.min(x1, x2);
+    const top = Math.min(y1, y2);
+    const width = Math.abs(x2 - x1);
+    const height = Math.abs(y2 - y1);
+
+    context.fillStyle = '#000000';
+    context.fillRect(left, top, width, height);
+
+    if (style !== 'label' || !redaction.label) return;
+
+    // Shrink the label to fit the box, and clip it so it never covers neighbouring text
+    let fontSize = height * 0.7;
+    context.font = `${fontSize}px Helvetica, Arial, sans-serif`;
+    const labelWidth = context.measureText(redaction.label).width;
+    if (labelWidth > width - 2 * scale) {
+        fontSize = Math.max(5 * scale, fontSize * (width - 2 * scale) / labelWidth);
+        context.font = `${fontSize}px Helvetica, Arial, sans-serif`;
+    }
+
+    context.save();
+    context.beginPath();
+    context.rect(left, top, width, height);
+    context.clip();
+    context.fillStyle = '#ffffff';
+    context.textBaseline = 'middle';
+    context.fillText(redaction.label, left + scale, top + height / 2);
+    context.restore();
+}
+
+/**
+ * Write a PDF with one full-page JPEG per page. Nothing else from the source document is
+ * carried over, so there is no text layer, Info dictionary or XMP metadata to leak from.
+ */
+function buildImagePDF(pages) {
+    const encoder = new TextEncoder();
+    const chunks = [];
+    const offsets = [];
+    let length = 0;
+
+    const write = (chunk) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const startObject = (id) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageIds[index];
+        const width = page.width.toFixed(2);
+        const height = page.height.toFixed(2);
+        const drawing = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+        startObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+
+        startObject(pageId + 1);
+        write(`<< /Length ${drawing.length} >>\nstream\n${drawing}\nendstream\nendobj\n`);
+
+        startObject(pageId + 2);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = 3 + pages.length * 3;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+        output.set(chunk, position);
+        position += chunk.length;
+    });
+
+    return output.buffer;
+}
+
 /**
  * Apply redactions to a PDF
- * In a real implementation, this would permanently remove the redacted content
+ *
+ * Each page is rendered to an image, the redacted areas are painted over and the pages are
+ * written into a new PDF. The original text, fonts and metadata are dropped entirely, so the
+ * redacted values cannot be recovered by copying or extracting text. The trade-off is that
+ * the output is not searchable.
+ *
+ * @param {ArrayBuffer} pdfBuffer - The original PDF
+ * @param {Array} redactions - Boxes in PDF user space: {pageNumber, x, y, width, height, label?}
+ * @param {Object} options - {style: 'box' | 'label', scale}
+ * @returns {Promise<ArrayBuffer>} The redacted PDF
  */
-async function applyRedactions(pdfBuffer, redactions) {
+async function applyRedactions(pdfBuffer, redactions, options = {}) {
+    const { style = 'box', scale = 2, quality = 0.92 } = options;
+
     try {
-        // In a real implementation, you would:
-        // 1. Load the PDF with pdf-lib
-        // 2. Identify text and graphics under each redaction rectangle
-        // 3. Remove the content from the PDF
-        // 4. Draw black rectangles over the redacted areas
-        // 5. Remove the original redaction annotations
-        // 6. Save the modified PDF
+        const loadingTask = pdfjs.getDocument({
+            data: new Uint8Array(pdfBuffer),
+            CanvasFactory: OffscreenCanvasFactory,
+            FilterFactory: NoopFilterFactory,
+            disableFontFace: true,
+            standardFontDataUrl: PDFJS_STANDARD_FONT_DATA_URL
+        });
+        const pdfDoc = await loadingTask.promise;
 
-        // For this demo, we'll simulate the process:
+        const pages = [];
 
-        // Load the PDF
-        const loadingTask = pdfjs.getDocument({ data: new Uint8Array(pdfBuffer) });
-        const pdfDoc = await loadingTask.promise;
+        for (let i = 1; i <= pdfDoc.numPages; i++) {
+            const page = await pdfDoc.getPage(i);
+            const pageSize = page.getViewport({ scale: 1 });
+            const viewport = page.getViewport({ scale });
 
-        // Mark redactions as applied
-        const appliedRedactions = redactions.map(redaction => ({
-            ...redaction,
-            status: 'applied',
-            appliedAt: Date.now()
-        }));
+            const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+            const context = canvas.getContext('2d');
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
 
-        // Extract existing annotations
-        const existingAnnotations = await extractAnnotations(pdfBuffer);
+            await page.render({ canvasContext: context, viewport }).promise;
 
-        // Filter out redaction annotations that have been applied
-        const filteredAnnotations = existingAnnotations.filter(
-            ann => !(ann.type === 'redaction' && redactions.some(r => r.id === ann.id))
-        );
+            redactions
+                .filter(redaction => redaction.pageNumber === i)
+                .forEach(redaction => drawRedaction(context, viewport, redaction, style, scale));
 
-        // Add new annotations for the applied redactions
-        const allAnnotations = [
-            ...filteredAnnotations,
-            ...appliedRedactions
-        ];
+            const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
 
-        // Save the updated annotations to the PDF
-        return await saveAnnotations(pdfBuffer, allAnnotations);
+            pages.push({
+                width: pageSize.width,
+                height: pageSize.height,
+                pixelWidth: canvas.width,
+                pixelHeight: canvas.height,
+                jpeg: new Uint8Array(await blob.arrayBuffer())
+            });
+
+            page.cleanup();
+        }
+
+        await pdfDoc.destroy();
+
+        return buildImagePDF(pages);
     } catch (error) {
         console.error('Error applying redactions:', error);
         throw error;
@@ -1,9 +1,9 @@
 // src/workers/pdfEditorWorker.js
 import * as pdfjs from 'pdfjs-dist';
+import { PDFJS_WORKER_SRC } from '../services/PDFJSAssetService';
 
 // Set the worker source path
-const workerVersion = '5.1.91';
-pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs`;
+pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
 
 // Listen for messages from the main thread
 self.onmessage = async (event) => {
@@ -2,22 +2,25 @@
 // Worker for PDF search operations
 
 // Import PDF.js as an ES module
-import * as pdfjs from 'https://cdn.jsdelivr.net/npm/pdfjs-dist@5.1.91/+esm';
+import * as pdfjs from 'pdfjs-dist';
+import { PDFJS_WORKER_SRC } from '../services/PDFJSAssetService';
 
 // Configure the worker
-const workerSrc = 'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs';
-pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
 
 // Listen for messages from the main thread
 self.onmessage = async (event) => {
     try {
-        const {content, searchText, options, action} = event.data;
+        const {content, searchText, searchTexts, options, ocrPages, action} = event.data;
 
         // Process the PDF based on the action
         let result;
         switch (action) {
             case 'search':
-                result = await searchTextInPDF(content, searchText, options);
+                result = await searchTextInPDF(content, searchText, options, ocrPages);
+                break;
+            case 'locate':
+                result = await locateTextInPDF(content, searchTexts || [searchText], ocrPages);
                 break;
             default:
                 throw new Error(`Unknown action: ${action}`);
@@ -106,15 +109,45 @@ function escapeRegExp(string) {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+/**
+ * Get the text items of a page. Scanned pages have no text layer, so the words recognized
+ * by OCR are used instead, shaped like text items with the word box as position and size.
+ *
+ * @param {Object} textContent - The result of getTextContent for the page
+ * @param {number} pageNumber - The page number
+ * @param {Array} [ocrPages] - Pages recognized by the OCR worker
+ * @returns {Array} Text items with str, width, height and transform
+ */
+function getPageTextItems(textContent, pageNumber, ocrPages) {
+    const items = textContent.items.filter(item => typeof item.str === 'string' && item.transform);
+    if (!ocrPages || items.some(item => item.str.trim())) {
+        return items;
+    }
+
+    const ocrPage = ocrPages.find(page => page.pageNumber === pageNumber);
+    if (!ocrPage) {
+        return items;
+    }
+
+    // Put the baseline a little above the bottom of the word box, leaving room for descenders
+    return ocrPage.words.map(word => ({
+        str: word.text,
+        width: word.width,
+        height: word.height,
+        transform: [word.height, 0, 0, word.height, word.x, word.y + word.height * 0.2]
+    }));
+}
+
 /**
  * Search for text in a PDF document with word-level precision
  *
  * @param {ArrayBuffer} content - The PDF content as an ArrayBuffer
  * @param {string} searchText - The text to search for
  * @param {Object} options - Search options
+ * @param {Array} [ocrPages] - Pages recognized by the OCR worker, searched when they have no text layer
  * @returns {Promise<Array>} The search results
  */
-async function searchTextInPDF(content, searchText, options = {}) {
+async function searchTextInPDF(content, searchText, options = {}, ocrPages) {
     try {
         const {matchCase = false, wholeWord = false} = options;
 
@@ -141,7 +174,7 @@ async function searchTextInPDF(content, searchText, options = {}) {
             const viewport = page.getViewport({scale: 1.0});
 
             // Process each text item individually for more precise matches
-            for (const item of textContent.items) {
+            for (const item of getPageTextItems(textContent, i, ocrPages)) {
                 const itemText = item.str;
                 const searchableText = matchCase ? itemText : itemText.toLowerCase();
                 const searchableQuery = matchCase ? searchText : searchText.toLowerCase();
@@ -181,3 +214,110 @@ async function searchTextInPDF(content, searchText, options = {}) {
         throw error;
     }
 }
+
+/**
+ * Creates a box in PDF user space (origin at the bottom left) around part of a text item.
+ * The box reaches below the baseline to cover descenders.
+ *
+ * @param {Object} item - The text item from getTextContent
+ * @param {number} startCharIndex - Starting character index within the item
+ * @param {number} endCharIndex - Ending character index within the item
+ * @returns {{x: number, y: number, width: number, height: number}}
+ */
+function createBoxFromTextItem(item, startCharIndex, endCharIndex) {
+    const [, , c, d, e, f] = item.transform;
+    const fontHeight = item.height || Math.hypot(c, d) || 12;
+    const charWidth = item.str.length > 0 ? item.width / item.str.length : 0;
+
+    return {
+        x: e + (startCharIndex * charWidth) - 1,
+        y: f - (fontHeight * 0.25),
+        width: ((endCharIndex - startCharIndex) * charWidth) + 2,
+        height: fontHeight * 1.3,
+    };
+}
+
+/**
+ * Locate every occurrence of several strings in a PDF. Matching runs over the text of the
+ * whole page, so values split across text items (e.g. a first and last name) are still found.
+ *
+ * @param {ArrayBuffer} content - The PDF content as an ArrayBuffer
+ * @param {string[]} searchTexts - The strings to locate
+ * @param {Array} [ocrPages] - Pages recognized by the OCR worker, used when they have no text layer
+ * @returns {Promise<Array>} One entry per matched text item part, with the page number and box.
+ *     Parts of the same match share a matchId.
+ */
+async function locateTextInPDF(content, searchTexts, ocrPages) {
+    try {
+        const pdfDataCopy = new Uint8Array(content.slice(0));
+        const loadingTask = pdfjs.getDocument({data: pdfDataCopy});
+        const pdf = await loadingTask.promise;
+
+        // Whitespace in a value may be a line break or a gap between items in the PDF. Values only
+        // match as whole words, so a short name such as "Al" does not black out "also".
+        const patterns = searchTexts
+            .map(text => text.trim())
+            .filter(Boolean)
+            .map(text => ({
+                text,
+                regex: new RegExp(
+                    `(?<![\\p{L}\\p{N}])${text.split(/\s+/).map(escapeRegExp).join('\\s*')}(?![\\p{L}\\p{N}])`,
+                    'giu'
+                )
+            }));
+
+        const results = [];
+        let matchId = 0;
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const textContent = await page.getTextContent();
+
+            // Join the items the same way text extraction does, remembering where each one starts
+            const items = getPageTextItems(textContent, i, ocrPages);
+            const offsets = [];
+            let pageText = '';
+            items.forEach(item => {
+                offsets.push(pageText.length);
+                pageText += item.str + ' ';
+            });
+
+            for (const {text, regex} of patterns) {
+                regex.lastIndex = 0;
+                let match;
+                while ((match = regex.exec(pageText)) !== null) {
+                    if (match[0].length === 0) {
+                        regex.lastIndex++;
+                        continue;
+                    }
+
+                    const matchStart = match.index;
+                    const matchEnd = matchStart + match[0].length;
+                    matchId++;
+
+                    items.forEach((item, index) => {
+                        const itemStart = offsets[index];
+                        const itemEnd = itemStart + item.str.length;
+                        if (itemEnd <= matchStart || itemStart >= matchEnd) return;
+
+                        results.push({
+                            pageNumber: i,
+                            text,
+                            matchId,
+                            ...createBoxFromTextItem(
+                                item,
+                                Math.max(matchStart, itemStart) - itemStart,
+                                Math.min(matchEnd, itemEnd) - itemStart
+                            ),
+                        });
+                    });
+                }
+            }
+        }
+
+        return results;
+    } catch (error) {
+        console.error('Error in locateTextInPDF:', error);
+        throw error;
+    }
+}
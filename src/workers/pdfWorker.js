@@ -1,12 +1,12 @@
-// public/workers/pdfWorker.js
+// src/workers/pdfWorker.js
 // This worker uses ESM imports which are compatible with type: 'module'
 
 // Import PDF.js as an ES module
-import * as pdfjs from 'https://cdn.jsdelivr.net/npm/pdfjs-dist@5.1.91/+esm';
+import * as pdfjs from 'pdfjs-dist';
+import { PDFJS_WORKER_SRC } from '../services/PDFJSAssetService';
 
 // Configure the worker
-const workerSrc = 'https://unpkg.com/pdfjs-dist@5.1.91/build/pdf.worker.min.mjs';
-pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_SRC;
 
 // Listen for messages from the main thread
 self.onmessage = async (event) => {
@@ -1,9 +1,70 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tsconfigPaths from 'vite-tsconfig-paths';
 import { VitePWA, VitePWAOptions } from 'vite-plugin-pwa';
 import { resolve } from 'path';
+import { readdirSync, readFileSync } from 'fs';
 
+const pdfjsDistDir = resolve(__dirname, 'node_modules/pdfjs-dist');
+const tesseractDir = resolve(__dirname, 'node_modules/tesseract.js');
+const tesseractCoreDir = resolve(__dirname, 'node_modules/tesseract.js-core');
+const tesseractEngDataDir = resolve(__dirname, 'node_modules/@tesseract.js-data/eng');
+
+// Maps each served path, relative to the asset base, to the installed file it is copied from
+type AssetFiles = Record<string, string>;
+
+// pdf.js files loaded at runtime rather than imported: the worker and the standard font data
+const getPdfjsAssetFiles = (): AssetFiles => {
+  const files: AssetFiles = { 'build/pdf.worker.min.mjs': resolve(pdfjsDistDir, 'build/pdf.worker.min.mjs') };
+  readdirSync(resolve(pdfjsDistDir, 'standard_fonts')).forEach(file => {
+    files[`standard_fonts/${file}`] = resolve(pdfjsDistDir, 'standard_fonts', file);
+  });
+  return files;
+};
+
+// Tesseract files loaded at runtime: the worker script, the LSTM-only engine builds it picks
+// between by browser SIMD support, and the English language data
+const getTesseractAssetFiles = (): AssetFiles => ({
+  'worker.min.js': resolve(tesseractDir, 'dist/worker.min.js'),
+  'core/tesseract-core-lstm.wasm.js': resolve(tesseractCoreDir, 'tesseract-core-lstm.wasm.js'),
+  'core/tesseract-core-simd-lstm.wasm.js': resolve(tesseractCoreDir, 'tesseract-core-simd-lstm.wasm.js'),
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': resolve(tesseractCoreDir, 'tesseract-core-relaxedsimd-lstm.wasm.js'),
+  'lang/eng.traineddata.gz': resolve(tesseractEngDataDir, '4.0.0_best_int/eng.traineddata.gz'),
+});
+
+// Serves runtime files of an installed package under the given base path, both from the dev
+// server and in the build output, so they match the library version and need no CDN.
+const packageAssets = (name: string, base: string, getFiles: () => AssetFiles): Plugin => ({
+  name,
+  configureServer(server) {
+    server.middlewares.use(`/${base}/`, (req, res, next) => {
+      const file = (req.url || '').split('?')[0].replace(/^\//, '');
+      const source = getFiles()[file];
+      if (!source) {
+        next();
+        return;
+      }
+      res.setHeader('Content-Type', /\.m?js$/.test(file) ? 'text/javascript' : 'application/octet-stream');
+      res.end(readFileSync(source));
+    });
+  },
+  generateBundle() {
+    const files = getFiles();
+    Object.keys(files).forEach(file => {
+      this.emitFile({
+        type: 'asset',
+        fileName: `${base}/${file}`,
+        source: readFileSync(files[file]),
+      });
+    });
+  },
+});
+
+// Paths are shared with the app through src/services/PDFJSAssetService.ts
+const pdfjsAssets = (): Plugin => packageAssets('pdfjs-assets', 'pdfjs', getPdfjsAssetFiles);
+
+// Paths are shared with the app through src/services/TesseractAssetService.ts
+const tesseractAssets = (): Plugin => packageAssets('tesseract-assets', 'tesseract', getTesseractAssetFiles);
 
 const pwaOptions = {
   registerType: 'autoUpdate',
@@ -35,32 +96,31 @@ const pwaOptions = {
     ]
   },
   workbox: {
-    // Add workers directory to precache
-    globPatterns: ['**/*.{js,css,html,ico,png,svg,pdf}', 'workers/*.js'],
+    // Add workers directory and the pdf.js worker and fonts to precache
+    globPatterns: ['**/*.{js,css,html,ico,png,svg,pdf}', 'workers/*.js', 'pdfjs/**/*'],
+    // The OCR assets are cached at runtime instead, see below
+    globIgnores: ['tesseract/**'],
     // Register route for PDF processing worker
     runtimeCaching: [
       {
-        urlPattern: /^https:\/\/unpkg\.com\/pdfjs-dist/,
+        urlPattern: /\.pdf$/,
         handler: 'CacheFirst',
         options: {
-          cacheName: 'pdfjs-dist-cache',
+          cacheName: 'pdf-files-cache',
           expiration: {
             maxEntries: 10,
-            maxAgeSeconds: 60 * 60 * 24 * 30 // 30 days
-          },
-          cacheableResponse: {
-            statuses: [0, 200]
+            maxAgeSeconds: 60 * 60 * 24 * 7 // 7 days
           }
         }
       },
       {
-        urlPattern: /\.pdf$/,
+        // The OCR engine and language data are too large to precache, so keep them once first used
+        urlPattern: /\/tesseract\//,
         handler: 'CacheFirst',
         options: {
-          cacheName: 'pdf-files-cache',
+          cacheName: 'tesseract-assets-cache',
           expiration: {
-            maxEntries: 10,
-            maxAgeSeconds: 60 * 60 * 24 * 7 // 7 days
+            maxEntries: 10
           }
         }
       },
@@ -80,7 +140,7 @@ const pwaOptions = {
 };
 
 export default defineConfig({
-  plugins: [react(), tsconfigPaths(), VitePWA(pwaOptions)],
+  plugins: [react(), tsconfigPaths(), pdfjsAssets(), tesseractAssets(), VitePWA(pwaOptions)],
   css: {
     postcss: './postcss.config.js',
   },